@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+// TypeScriptのソース（cli/mwv.ts）をtsxで読み込んで実行する
+require("tsx/cjs");
+require("../cli/mwv.ts");
@@ -0,0 +1,190 @@
+/**
+ * ローカルのffmpegの実行（CLI用）
+ * 音声ファイルを32bit浮動小数点のPCMにデコードし、描画したフレーム（生のピクセル）を音声と一緒にMP4にエンコードする
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { once } from 'events';
+import type { TimelineSettings } from '../lib/Timeline';
+
+// デコードのサンプリングレートとチャンネル数（モノラルは左右に同じ音になる）
+// ページはAudioContextのレート（多くの環境で48kHz）で解析するため、同じレートにして周波数ビンの幅をそろえる
+const DECODE_SAMPLE_RATE = 48000;
+const DECODE_CHANNELS = 2;
+const BYTES_PER_SAMPLE = 4;
+// エラーに含めるffmpegの出力（末尾の文字数）
+const STDERR_TAIL_LENGTH = 2000;
+
+export interface DecodedAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+  duration: number; // 秒
+}
+
+export interface FfmpegEncoderOptions {
+  ffmpegPath: string;
+  audioFile: string; // 映像と一緒に入れる音声（デコードせずにAACへエンコードする）
+  timeline?: TimelineSettings | null; // 音声の書き出す範囲とフェード（未指定の場合は曲全体）
+  output: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  metadata?: { title?: string; artist?: string; album?: string };
+}
+
+/**
+ * ffmpegを起動し、終了を待つPromiseを作成
+ * 失敗した場合はffmpegの出力の末尾をエラーに含める
+ */
+function startFfmpeg(ffmpegPath: string, args: string[]): { child: ChildProcess; exited: Promise<void> } {
+  const child = spawn(ffmpegPath, ['-hide_banner', '-loglevel', 'error', ...args], {
+    stdio: ['pipe', 'pipe', 'pipe'],
+  });
+  let stderr = '';
+  child.stderr?.setEncoding('utf8');
+  child.stderr?.on('data', (chunk: string) => {
+    stderr = (stderr + chunk).slice(-STDERR_TAIL_LENGTH);
+  });
+  const exited = new Promise<void>((resolve, reject) => {
+    child.on('error', (error) => {
+      reject(new Error(`Failed to run ffmpeg (${ffmpegPath}): ${error.message}`));
+    });
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with ${signal ?? `code ${code}`}: ${stderr.trim()}`));
+      }
+    });
+  });
+  // 途中で終了した場合のエラーは書き込み・終了の待機で受け取る
+  exited.catch(() => undefined);
+  return { child, exited };
+}
+
+/**
+ * 音声ファイルをデコードしてチャンネルごとのPCMを取得
+ */
+export async function decodeAudioFile(ffmpegPath: string, file: string): Promise<DecodedAudio> {
+  const { child, exited } = startFfmpeg(ffmpegPath, [
+    '-i', file,
+    '-vn',
+    '-f', 'f32le',
+    '-ac', String(DECODE_CHANNELS),
+    '-ar', String(DECODE_SAMPLE_RATE),
+    'pipe:1',
+  ]);
+  let chunks: Buffer[] = [];
+  child.stdout?.on('data', (chunk: Buffer) => chunks.push(chunk));
+  await exited;
+
+  // チャンネルが交互に並んだサンプルを、つなげたBufferから直接チャンネルごとに分ける
+  const data = Buffer.concat(chunks);
+  chunks = []; // つなげた後は元のチャンクを解放する
+  const length = Math.floor(data.length / (BYTES_PER_SAMPLE * DECODE_CHANNELS));
+  const channels = Array.from({ length: DECODE_CHANNELS }, () => new Float32Array(length));
+  for (let i = 0; i < length; i++) {
+    for (let ch = 0; ch < DECODE_CHANNELS; ch++) {
+      channels[ch][i] = data.readFloatLE((i * DECODE_CHANNELS + ch) * BYTES_PER_SAMPLE);
+    }
+  }
+  if (length === 0) {
+    throw new Error(`No audio decoded from ${file}`);
+  }
+  return { channels, sampleRate: DECODE_SAMPLE_RATE, duration: length / DECODE_SAMPLE_RATE };
+}
+
+/**
+ * 音声の入力を書き出す範囲に切り出す引数（入力の-iの前に置く）
+ */
+function getTimelineInputArgs(timeline: TimelineSettings): string[] {
+  return ['-ss', timeline.start.toFixed(6), '-t', (timeline.end - timeline.start).toFixed(6)];
+}
+
+/**
+ * 切り出した音声にフェードを掛ける引数（高速書き出しと同じく直線で変化させる）
+ */
+function getFadeFilterArgs(timeline: TimelineSettings): string[] {
+  const length = timeline.end - timeline.start;
+  const filters: string[] = [];
+  if (timeline.fadeIn > 0) {
+    filters.push(`afade=t=in:st=0:d=${timeline.fadeIn.toFixed(6)}:curve=tri`);
+  }
+  if (timeline.fadeOut > 0) {
+    filters.push(`afade=t=out:st=${(length - timeline.fadeOut).toFixed(6)}:d=${timeline.fadeOut.toFixed(6)}:curve=tri`);
+  }
+  return filters.length > 0 ? ['-af', filters.join(',')] : [];
+}
+
+/**
+ * フレームを標準入力でffmpegに渡してMP4（H.264 + AAC）にエンコードする
+ */
+export class FfmpegVideoEncoder {
+  private child: ChildProcess;
+  private exited: Promise<void>;
+
+  constructor(options: FfmpegEncoderOptions) {
+    const { ffmpegPath, audioFile, timeline, output, width, height, frameRate, metadata = {} } = options;
+    const metadataArgs = Object.entries(metadata)
+      .filter(([, value]) => value)
+      .flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+    const started = startFfmpeg(ffmpegPath, [
+      '-y',
+      // node-canvasの'raw'はリトルエンディアンの環境でB, G, R, Aの順に並ぶ
+      '-f', 'rawvideo',
+      '-pix_fmt', 'bgra',
+      '-s', `${width}x${height}`,
+      '-r', String(frameRate),
+      '-i', 'pipe:0',
+      ...(timeline ? getTimelineInputArgs(timeline) : []),
+      '-i', audioFile,
+      '-map', '0:v:0',
+      '-map', '1:a:0',
+      ...(timeline ? getFadeFilterArgs(timeline) : []),
+      '-c:v', 'libx264',
+      '-preset', 'medium',
+      '-crf', '18',
+      '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac',
+      '-b:a', '192k',
+      '-shortest',
+      '-movflags', '+faststart',
+      ...metadataArgs,
+      output,
+    ]);
+    this.child = started.child;
+    this.exited = started.exited;
+    // ffmpegが先に終了した場合の書き込みエラー（EPIPE）は終了のエラーとして扱う
+    this.child.stdin?.on('error', () => undefined);
+  }
+
+  /**
+   * 1フレーム分のピクセルを書き込む（ffmpegが読み込むまで待つ）
+   */
+  async writeFrame(pixels: Buffer): Promise<void> {
+    const { stdin } = this.child;
+    if (!stdin || this.child.exitCode !== null) {
+      await this.exited;
+      throw new Error('ffmpeg exited before all frames were written');
+    }
+    if (!stdin.write(pixels)) {
+      await Promise.race([once(stdin, 'drain'), this.exited]);
+    }
+  }
+
+  /**
+   * 入力を閉じてエンコードの完了を待つ
+   */
+  async finish(): Promise<void> {
+    this.child.stdin?.end();
+    await this.exited;
+  }
+
+  /**
+   * エンコードを中止する（書きかけの出力ファイルは残る）
+   */
+  abort(): void {
+    this.child.stdin?.destroy();
+    this.child.kill();
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * ヘッドレス書き出し（ブラウザを使わずNode.jsで動画を作る）
+ * 高速書き出しと同じく固定FPSで1フレームずつPCMからスペクトラムを計算し、node-canvasのCanvas 2Dにシーンを描画して、
+ * 生のピクセルをローカルのffmpegに渡す。シーンの描画はブラウザのCanvas 2Dと共通（drawScene・drawMediaLayer）で、
+ * 背景・テキストのオフスクリーンキャンバスもnode-canvasで作る
+ */
+
+import { readFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { parseAudioMetadata } from '../lib/AudioMetadata';
+import type { BackgroundImage, CanvasFactory } from '../lib/Background';
+import { BeatReactor } from '../lib/BeatReactions';
+import { Canvas2DSurface, drawMediaLayer } from '../lib/Canvas';
+import type { LyricCue } from '../lib/Lyrics';
+import {
+  drawFadeToBlack,
+  drawScene,
+  hasStereoLayer,
+  SceneState,
+  type LayerImage,
+  type Scene,
+  type TrackInfo,
+} from '../lib/Scene';
+import { PcmSpectrum } from '../lib/Spectrum';
+import type { SpectrumFrame } from '../lib/SpectrumRenderer';
+import {
+  applyTimelineToChannels,
+  clampTimeline,
+  createTimeline,
+  getFadeGain,
+  type TimelineSettings,
+} from '../lib/Timeline';
+import { decodeAudioFile, FfmpegVideoEncoder } from './FfmpegProcess';
+
+// node-canvas（optionalDependencies）のうち使う部分
+interface NodeCanvas {
+  width: number;
+  height: number;
+  getContext(type: '2d'): CanvasRenderingContext2D;
+  toBuffer(mimeType: 'raw'): Buffer;
+}
+
+interface NodeCanvasModule {
+  createCanvas(width: number, height: number): NodeCanvas;
+  loadImage(source: string | Buffer): Promise<BackgroundImage>;
+}
+
+export interface HeadlessRenderOptions {
+  ffmpegPath: string;
+  audioFile: string;
+  images: Record<string, string>; // メディアレイヤーの画像ファイル（キーはレイヤーのid）
+  coverLayerId?: string | null; // imagesに画像がない場合に、音声ファイルに埋め込まれたカバー画像を表示するレイヤー
+  scene: Scene;
+  lyrics?: LyricCue[] | null; // 歌詞レイヤーに表示する歌詞
+  timeline?: Partial<TimelineSettings> | null; // 書き出す範囲とフェード（未設定の項目は曲全体・フェードなし）
+  width: number;
+  height: number;
+  frameRate: number;
+  output: string;
+  onProgress?: (progress: number) => void; // 0〜100
+}
+
+/**
+ * node-canvasを読み込む（インストールされていない場合は手順を含むエラー）
+ */
+function loadNodeCanvas(): NodeCanvasModule {
+  try {
+    // 任意の依存のため、型定義に頼らず実行時に読み込む
+    return require('canvas') as NodeCanvasModule;
+  } catch {
+    throw new Error('node-canvas is not installed. Install it with "npm install canvas"');
+  }
+}
+
+/**
+ * スペクトラム動画をヘッドレスで書き出し
+ */
+export async function renderHeadless(options: HeadlessRenderOptions): Promise<void> {
+  const { ffmpegPath, audioFile, images, coverLayerId, scene, lyrics, width, height, frameRate, output, onProgress } = options;
+  const { createCanvas, loadImage } = loadNodeCanvas();
+  // node-canvasのキャンバスはDOMのキャンバスの代わりにCanvas 2Dのコンテキストに描ける
+  const canvasFactory: CanvasFactory = (canvasWidth, canvasHeight) =>
+    createCanvas(canvasWidth, canvasHeight) as unknown as HTMLCanvasElement;
+
+  const audio = await decodeAudioFile(ffmpegPath, audioFile);
+  const file = readFileSync(audioFile);
+  const metadata = parseAudioMetadata(file.buffer.slice(file.byteOffset, file.byteOffset + file.length));
+  const track: TrackInfo = {
+    title: metadata.title ?? basename(audioFile, extname(audioFile)),
+    artist: metadata.artist ?? '',
+    album: metadata.album ?? '',
+    duration: audio.duration,
+  };
+
+  // 画像は時間で変化しないため、最初に読み込んだものを全フレームで使う
+  const layerImages: Record<string, LayerImage> = {};
+  for (const [id, path] of Object.entries(images)) {
+    layerImages[id] = { image: await loadImage(path), animated: false };
+  }
+  if (coverLayerId && !layerImages[coverLayerId] && metadata.cover) {
+    const cover = Buffer.from(await metadata.cover.arrayBuffer());
+    layerImages[coverLayerId] = { image: await loadImage(cover), animated: false };
+  }
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  const surface = new Canvas2DSurface(ctx);
+  const state = new SceneState(canvasFactory);
+  const beat = new BeatReactor();
+  // ブラウザの高速書き出しと同じく、範囲を切り出してフェードを掛けた音声を解析とエンコードの両方に使う
+  const timeline = options.timeline
+    ? clampTimeline({ ...createTimeline(audio.duration), ...options.timeline }, audio.duration)
+    : null;
+  const channels = timeline ? applyTimelineToChannels(audio.channels, audio.sampleRate, timeline) : audio.channels;
+  const duration = channels[0].length / audio.sampleRate;
+  // 書き出しの時刻0に対応する曲の時刻（秒）
+  const startTime = timeline ? Math.floor(timeline.start * audio.sampleRate) / audio.sampleRate : 0;
+  const spectrum = new PcmSpectrum(channels, hasStereoLayer(scene));
+  const encoder = new FfmpegVideoEncoder({
+    ffmpegPath,
+    audioFile,
+    timeline,
+    output,
+    width,
+    height,
+    frameRate,
+    metadata: { title: track.title, artist: track.artist, album: track.album },
+  });
+
+  // 音声の長さを超えるフレームは作らない（ブラウザの書き出しと同じ）
+  const frameCount = Math.floor(duration * frameRate);
+  let lastProgress = -1;
+  try {
+    for (let index = 0; index < frameCount; index++) {
+      const time = index / frameRate;
+      // 歌詞・経過時間などは曲の時刻に合わせる
+      const trackTime = startTime + time;
+      spectrum.update(Math.round(time * audio.sampleRate));
+      const frame: SpectrumFrame = {
+        scene,
+        layerImages,
+        source: spectrum.analyser,
+        beatSource: spectrum.beatAnalyser,
+        stereo: spectrum.stereo,
+        sampleRate: audio.sampleRate,
+        time,
+        playbackTime: trackTime,
+        track,
+        lyrics,
+        fade: timeline ? 1 - getFadeGain(timeline, trackTime) : 0,
+      };
+      drawScene(surface, frame, beat.update(frame), state, {
+        drawMedia: (layer, { image, animated }, layerWidth, layerHeight) => {
+          drawMediaLayer(ctx, state.getBackgroundCache(layer.id), layer, image, animated, layerWidth, layerHeight, time);
+        },
+        drawText: (_layer, { canvas: textCanvas }, layerWidth, layerHeight) => {
+          ctx.drawImage(textCanvas, 0, 0, layerWidth, layerHeight);
+        },
+        // バックエンド固有の描画（DOMのキャンバス・ImageDataを使う）は使わず、共通の描画にする
+        drawMode: () => false,
+      });
+      drawFadeToBlack(surface, frame.fade ?? 0);
+      await encoder.writeFrame(canvas.toBuffer('raw'));
+
+      const progress = Math.floor(((index + 1) / frameCount) * 100);
+      if (progress !== lastProgress) {
+        lastProgress = progress;
+        onProgress?.(progress);
+      }
+    }
+    await encoder.finish();
+  } catch (error) {
+    encoder.abort();
+    throw error;
+  }
+}
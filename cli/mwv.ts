@@ -0,0 +1,257 @@
+/**
+ * コマンドラインから動画を書き出す（バッチ処理用）
+ * 例: mwv render --audio a.mp3 --image bg.png --mode 2 --size 1080x1920 --settings preset.json -o out.mp4
+ */
+
+import { readFileSync } from 'fs';
+import { getLyricsFormat, parseLyrics, type LyricCue } from '../lib/Lyrics';
+import {
+  createDefaultScene,
+  createSceneLayer,
+  resolveScene,
+  type Scene,
+  type SceneLayer,
+  type SpectrumLayer,
+} from '../lib/Scene';
+import { getVisualizerMode, getVisualizerModes } from '../lib/SpectrumModes';
+import type { TimelineSettings } from '../lib/Timeline';
+import { renderHeadless } from './HeadlessRenderer';
+
+const USAGE = `使い方:
+  mwv render --audio <音声ファイル> -o <出力.mp4> [オプション]
+  mwv modes                         モードの番号の一覧
+
+render のオプション:
+  --audio <ファイル>       音声ファイル（必須）
+  -o, --output <ファイル>  出力するMP4（必須）
+  --image <ファイル>       一番下の画像・動画レイヤーに表示する画像（未指定の場合は音声ファイルのカバー画像）
+  --mode <番号>            一番手前のスペクトラムレイヤーのモード
+  --lyrics <ファイル>      歌詞レイヤーに表示する歌詞（LRC・SRT・WebVTT、歌詞レイヤーがない場合は追加する）
+  --size <幅x高さ>         解像度（既定: 1920x1080）
+  --settings <ファイル>    ページの「設定のエクスポート」で保存したJSON、またはシーンのJSON
+                           （"timeline": {"start", "end", "fadeIn", "fadeOut"} で書き出す範囲とフェードも指定できる）
+  --start <秒>             書き出す範囲の開始（設定ファイルのtimelineより優先）
+  --end <秒>               書き出す範囲の終了
+  --fade-in <秒>           フェードイン（映像は黒から、音声は無音から）
+  --fade-out <秒>          フェードアウト
+  --fps <数値>             フレームレート（既定: 30）
+  --ffmpeg <パス>          ffmpegの実行ファイル（既定: 環境変数FFMPEG_PATH、なければPATHのffmpeg）
+`;
+
+const DEFAULT_SIZE = '1920x1080';
+const DEFAULT_FRAME_RATE = 30;
+
+// 値を取るオプション（短い名前は長い名前に読み替える）
+const VALUE_OPTIONS = [
+  'audio', 'output', 'image', 'mode', 'lyrics', 'size', 'settings', 'fps', 'ffmpeg', 'start', 'end', 'fade-in', 'fade-out',
+];
+// 書き出す範囲とフェードのオプション（秒）と、設定ファイルのtimelineの項目
+const TIMELINE_OPTIONS: Record<string, 'start' | 'end' | 'fadeIn' | 'fadeOut'> = {
+  start: 'start',
+  end: 'end',
+  'fade-in': 'fadeIn',
+  'fade-out': 'fadeOut',
+};
+const SHORT_OPTIONS: Record<string, string> = { o: 'output' };
+
+/**
+ * 「--名前 値」「--名前=値」「-o 値」の形式の引数を読む
+ */
+function parseOptions(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (let i = 0; i < args.length; i++) {
+    const match = /^(?:--([a-z][a-z-]*)(?:=(.*))?|-([a-z]))$/.exec(args[i]);
+    const name = match && (match[1] ?? SHORT_OPTIONS[match[3]]);
+    if (!match || !name || !VALUE_OPTIONS.includes(name)) {
+      throw new Error(`Unknown option: ${args[i]}`);
+    }
+    const value = match[2] ?? args[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for ${args[i - 1]}`);
+    }
+    options[name] = value;
+  }
+  return options;
+}
+
+/**
+ * 「幅x高さ」の解像度（H.264の4:2:0に合わせて偶数のみ）
+ */
+function parseSize(size: string): [number, number] {
+  const match = /^(\d+)x(\d+)$/.exec(size);
+  const width = Number(match?.[1]);
+  const height = Number(match?.[2]);
+  if (!match || width <= 0 || height <= 0 || width % 2 !== 0 || height % 2 !== 0) {
+    throw new Error(`Invalid size (expected even WIDTHxHEIGHT): ${size}`);
+  }
+  return [width, height];
+}
+
+/**
+ * 設定ファイルのシーンと書き出す範囲
+ * ページのエクスポート（解像度ごとのシーン）は解像度のものを、シーンだけのJSONはそのまま使う
+ * 範囲とフェードはどちらの形式でも最上位のtimelineから読む（数値の項目のみ）
+ */
+function loadSettings(path: string, size: string): { scene: Scene; timeline: Partial<TimelineSettings> } {
+  const settings = JSON.parse(readFileSync(path, 'utf8')) as Record<string, unknown>;
+  // ページの設定の保存キーと同じ
+  const saved = settings[`sceneSettings_${size}`] ?? (Array.isArray(settings.layers) ? settings : null);
+  if (!saved) {
+    throw new Error(`No scene for ${size} in ${path}`);
+  }
+  const timeline: Partial<TimelineSettings> = {};
+  const savedTimeline = (settings.timeline ?? {}) as Record<string, unknown>;
+  for (const key of Object.values(TIMELINE_OPTIONS)) {
+    const value = savedTimeline[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      timeline[key] = value;
+    }
+  }
+  return { scene: resolveScene(saved as Partial<Scene>), timeline };
+}
+
+/**
+ * 書き出す範囲とフェードのオプションで設定ファイルの値を上書き（どちらもない場合はnull）
+ */
+function applyTimelineOptions(
+  timeline: Partial<TimelineSettings>,
+  options: Record<string, string>
+): Partial<TimelineSettings> | null {
+  const result = { ...timeline };
+  for (const [name, key] of Object.entries(TIMELINE_OPTIONS)) {
+    if (options[name] === undefined) {
+      continue;
+    }
+    const value = Number(options[name]);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid --${name}: ${options[name]}`);
+    }
+    result[key] = value;
+  }
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+/**
+ * 一番手前のスペクトラムレイヤーのモードを変える（スペクトラムレイヤーがない場合は追加する）
+ * モード固有パラメータはモードごとに異なるため既定値に戻す
+ */
+function applyMode(scene: Scene, mode: number): Scene {
+  const target = [...scene.layers].reverse().find((layer): layer is SpectrumLayer => layer.type === 'spectrum');
+  if (!target) {
+    const layer: SpectrumLayer = { ...(createSceneLayer('spectrum') as SpectrumLayer), mode };
+    return { ...scene, layers: [...scene.layers, layer] };
+  }
+  return {
+    ...scene,
+    layers: scene.layers.map((layer) =>
+      layer === target ? { ...target, mode, adjustments: { ...target.adjustments, params: undefined } } : layer
+    ),
+  };
+}
+
+/**
+ * 画像を表示するレイヤー（一番下の画像・動画レイヤー、ない場合は一番下に追加する）
+ */
+function getImageLayer(scene: Scene): { scene: Scene; layerId: string } {
+  const current = scene.layers.find((layer) => layer.type === 'image' || layer.type === 'video');
+  if (current) {
+    return { scene, layerId: current.id };
+  }
+  const layer: SceneLayer = { ...createSceneLayer('image'), name: '背景' };
+  return { scene: { ...scene, layers: [layer, ...scene.layers] }, layerId: layer.id };
+}
+
+/**
+ * 歌詞ファイルを読み込み、歌詞レイヤーがない場合は一番手前に追加する（ページで歌詞を読み込んだ場合と同じ）
+ */
+function loadLyrics(scene: Scene, path: string): { scene: Scene; lyrics: LyricCue[] } {
+  const format = getLyricsFormat(path);
+  if (!format) {
+    throw new Error(`Unsupported lyrics file (expected .lrc, .srt or .vtt): ${path}`);
+  }
+  const lyrics = parseLyrics(format, readFileSync(path, 'utf8'));
+  if (lyrics.length === 0) {
+    throw new Error(`No lyrics in ${path}`);
+  }
+  if (scene.layers.some((layer) => layer.type === 'lyrics')) {
+    return { scene, lyrics };
+  }
+  return { scene: { ...scene, layers: [...scene.layers, createSceneLayer('lyrics')] }, lyrics };
+}
+
+async function render(args: string[]): Promise<void> {
+  const options = parseOptions(args);
+  if (!options.audio || !options.output) {
+    throw new Error('--audio and --output are required');
+  }
+  const size = options.size ?? DEFAULT_SIZE;
+  const [width, height] = parseSize(size);
+  const frameRate = Number(options.fps ?? DEFAULT_FRAME_RATE);
+  if (!Number.isFinite(frameRate) || frameRate <= 0) {
+    throw new Error(`Invalid fps: ${options.fps}`);
+  }
+
+  const settings = options.settings ? loadSettings(options.settings, size) : { scene: createDefaultScene(), timeline: {} };
+  let { scene } = settings;
+  const timeline = applyTimelineOptions(settings.timeline, options);
+  if (options.mode !== undefined) {
+    const mode = Number(options.mode);
+    if (!Number.isInteger(mode) || !getVisualizerMode(mode)) {
+      throw new Error(`Unknown mode: ${options.mode} (see "mwv modes")`);
+    }
+    scene = applyMode(scene, mode);
+  }
+  let lyrics: LyricCue[] | null = null;
+  if (options.lyrics) {
+    ({ scene, lyrics } = loadLyrics(scene, options.lyrics));
+  }
+  const target = getImageLayer(scene);
+  scene = target.scene;
+
+  await renderHeadless({
+    ffmpegPath: options.ffmpeg ?? process.env.FFMPEG_PATH ?? 'ffmpeg',
+    audioFile: options.audio,
+    images: options.image ? { [target.layerId]: options.image } : {},
+    coverLayerId: target.layerId,
+    scene,
+    lyrics,
+    timeline,
+    width,
+    height,
+    frameRate,
+    output: options.output,
+    onProgress: (progress) => {
+      process.stderr.write(`\r書き出し中... ${progress}%`);
+    },
+  });
+  process.stderr.write('\n');
+  console.log(`書き出しました: ${options.output}`);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+  switch (command) {
+    case 'render':
+      await render(args);
+      break;
+    case 'modes':
+      for (const mode of getVisualizerModes()) {
+        console.log(`${mode.id}\t${mode.label}`);
+      }
+      break;
+    case undefined:
+    case '-h':
+    case '--help':
+      console.log(USAGE);
+      break;
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error: Error) => {
+  process.stderr.write('\n');
+  console.error(`エラー: ${error.message}`);
+  console.error('使い方は mwv --help で確認できます');
+  process.exitCode = 1;
+});
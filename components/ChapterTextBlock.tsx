@@ -0,0 +1,45 @@
+import { FC } from "react";
+import { Box, Button, TextField, Typography } from "@mui/material";
+import { ContentCopy } from "@mui/icons-material";
+import { formatChapterText, isValidYouTubeChapters, type Chapter } from "../lib/Chapters";
+
+interface Props {
+  chapters: Chapter[]; // 書き出す範囲の先頭からの時刻
+  onCopied: () => void;
+}
+
+// 動画サイトの説明欄に貼るチャプターのテキスト（録画・高速書き出しのMP4のチャプターと同じ時刻）
+export const ChapterTextBlock: FC<Props> = ({ chapters, onCopied }) => {
+  const text = formatChapterText(chapters);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    onCopied();
+  };
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Box sx={{ display: "flex", alignItems: "center" }}>
+        <Typography variant="body2" sx={{ flex: 1, textAlign: "left" }}>
+          チャプター
+        </Typography>
+        <Button size="small" startIcon={<ContentCopy />} onClick={copy}>
+          コピー
+        </Button>
+      </Box>
+      <TextField
+        value={text}
+        multiline
+        fullWidth
+        size="small"
+        InputProps={{ readOnly: true }}
+        sx={{ mt: 1, "& textarea": { fontFamily: "monospace" } }}
+      />
+      {!isValidYouTubeChapters(chapters) && (
+        <Typography variant="caption" color="textSecondary" sx={{ display: "block", mt: 0.5, textAlign: "left" }}>
+          YouTubeのチャプターには、10秒以上の区間が3つ以上必要です
+        </Typography>
+      )}
+    </Box>
+  );
+};
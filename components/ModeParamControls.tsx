@@ -0,0 +1,97 @@
+import { FC } from "react";
+import {
+  Box,
+  FormControlLabel,
+  MenuItem,
+  Select,
+  Slider,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import type { ModeParamSchema } from "../lib/SpectrumModes";
+import type { ModeParams, ModeParamValue } from "../lib/SpectrumRenderer";
+
+interface Props {
+  schema: ModeParamSchema[];
+  values: ModeParams;
+  onChange: (key: string, value: ModeParamValue) => void;
+}
+
+// スライダーの刻み幅に合わせた小数点以下の桁数で表示
+export const formatNumber = (value: number, step: number): string => {
+  const decimals = (step.toString().split(".")[1] ?? "").length;
+  return value.toFixed(decimals);
+};
+
+// 表示モードのパラメータ定義から調整UIを生成
+export const ModeParamControls: FC<Props> = ({ schema, values, onChange }) => (
+  <>
+    {schema.map((param) => {
+      const value = values[param.key];
+      switch (param.type) {
+        case "number":
+          return (
+            <Box key={param.key} sx={{ mt: 3 }}>
+              <Typography gutterBottom>
+                {param.label}: {formatNumber(value as number, param.step)}
+              </Typography>
+              <Slider
+                value={value as number}
+                onChange={(_, newValue) => onChange(param.key, newValue as number)}
+                min={param.min}
+                max={param.max}
+                step={param.step}
+              />
+            </Box>
+          );
+        case "boolean":
+          return (
+            <Box key={param.key} sx={{ mt: 2 }}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={value as boolean}
+                    onChange={(event) => onChange(param.key, event.target.checked)}
+                  />
+                }
+                label={param.label}
+              />
+            </Box>
+          );
+        case "select":
+          return (
+            <Box key={param.key} sx={{ mt: 3 }}>
+              <Typography gutterBottom>{param.label}</Typography>
+              <Select
+                size="small"
+                value={value as string}
+                onChange={(event) => onChange(param.key, event.target.value)}
+              >
+                {param.options.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </Box>
+          );
+        case "color":
+          return (
+            <Box key={param.key} sx={{ mt: 3 }}>
+              <TextField
+                type="color"
+                size="small"
+                label={param.label}
+                value={value as string}
+                onChange={(event) => onChange(param.key, event.target.value)}
+                sx={{ width: 120 }}
+              />
+            </Box>
+          );
+        default:
+          return null;
+      }
+    })}
+  </>
+);
@@ -0,0 +1,143 @@
+import { FC } from "react";
+import { Box, Button, IconButton, TextField, Typography } from "@mui/material";
+import { ArrowDownward, ArrowUpward, Delete, LibraryMusic, PhotoLibrary } from "@mui/icons-material";
+import {
+  PLAYLIST_PARAMS,
+  type PlaylistChapter,
+  type PlaylistSettings,
+  type PlaylistTrack,
+} from "../lib/Playlist";
+import type { TrackInfo } from "../lib/Scene";
+import type { ModeParams } from "../lib/SpectrumRenderer";
+import { formatTimelineTime } from "../lib/Timeline";
+import { ModeParamControls } from "./ModeParamControls";
+
+interface Props {
+  tracks: PlaylistTrack[];
+  chapters: PlaylistChapter[]; // 曲の順（2曲以上の場合）
+  settings: PlaylistSettings;
+  onChange: (tracks: PlaylistTrack[]) => void; // 並べ替え・削除
+  onSettingsChange: (settings: PlaylistSettings) => void;
+  onInfoChange: (index: number, changes: Partial<TrackInfo>) => void;
+  onBackgroundSelect: (index: number, file: File) => void;
+  onBackgroundRemove: (index: number) => void;
+  onAddFiles: (files: File[]) => void;
+}
+
+// プレイリストの曲の一覧（上から再生順）と、曲のつなぎ方
+export const PlaylistControls: FC<Props> = ({
+  tracks,
+  chapters,
+  settings,
+  onChange,
+  onSettingsChange,
+  onInfoChange,
+  onBackgroundSelect,
+  onBackgroundRemove,
+  onAddFiles,
+}) => {
+  // offsetが負の場合は前（先に再生）へ移動
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= tracks.length) {
+      return;
+    }
+    const next = [...tracks];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      {tracks.length > 1 && tracks.map((track, index) => (
+        <Box
+          key={track.id}
+          sx={{ mt: 1, p: 1, border: 1, borderColor: "divider", borderRadius: 1 }}
+        >
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            <Typography variant="body2" sx={{ fontVariantNumeric: "tabular-nums" }}>
+              {chapters[index] ? formatTimelineTime(chapters[index].start) : `${index + 1}.`}
+            </Typography>
+            <TextField
+              size="small"
+              label="曲名"
+              value={track.info.title}
+              onChange={(e) => onInfoChange(index, { title: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              label="アーティスト"
+              value={track.info.artist}
+              onChange={(e) => onInfoChange(index, { artist: e.target.value })}
+              sx={{ flex: 1 }}
+            />
+            <IconButton size="small" onClick={() => move(index, -1)} disabled={index === 0}>
+              <ArrowUpward fontSize="small" />
+            </IconButton>
+            <IconButton size="small" onClick={() => move(index, 1)} disabled={index === tracks.length - 1}>
+              <ArrowDownward fontSize="small" />
+            </IconButton>
+            <IconButton size="small" onClick={() => onChange(tracks.filter((_, i) => i !== index))}>
+              <Delete fontSize="small" />
+            </IconButton>
+          </Box>
+          <Box sx={{ mt: 1, display: "flex", alignItems: "center", gap: 1 }}>
+            <Button component="label" size="small" startIcon={<PhotoLibrary />}>
+              この曲の背景
+              <input
+                type="file"
+                accept="image/*,video/*"
+                hidden
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    onBackgroundSelect(index, file);
+                  }
+                  event.target.value = "";
+                }}
+              />
+            </Button>
+            <Typography
+              variant="caption"
+              color="textSecondary"
+              sx={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}
+            >
+              {track.backgroundFileName || "シーンの背景"}（{track.fileName}）
+            </Typography>
+            {track.background && (
+              <Button size="small" onClick={() => onBackgroundRemove(index)}>
+                背景を外す
+              </Button>
+            )}
+          </Box>
+        </Box>
+      ))}
+      <Box sx={{ mt: 1, display: "flex", justifyContent: "flex-start" }}>
+        <Button component="label" size="small" startIcon={<LibraryMusic />}>
+          曲を追加
+          <input
+            type="file"
+            accept="audio/*"
+            multiple
+            hidden
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              if (files.length > 0) {
+                onAddFiles(files);
+              }
+              event.target.value = "";
+            }}
+          />
+        </Button>
+      </Box>
+      {tracks.length > 1 && (
+        <ModeParamControls
+          schema={PLAYLIST_PARAMS}
+          values={settings as unknown as ModeParams}
+          onChange={(key, value) => onSettingsChange({ ...settings, [key]: value })}
+        />
+      )}
+    </Box>
+  );
+};
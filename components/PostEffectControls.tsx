@@ -0,0 +1,227 @@
+import { FC, useState } from "react";
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Select,
+  Slider,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ArrowDownward, ArrowUpward, Delete } from "@mui/icons-material";
+import {
+  POST_EFFECTS,
+  SPECTRUM_BAND_OPTIONS,
+  checkCustomShader,
+  createPostEffect,
+  getPostEffect,
+  type PostEffectSettings,
+  type PostEffectType,
+  type SpectrumBand,
+} from "../lib/PostProcessing";
+import type { NumberModeParam } from "../lib/SpectrumModes";
+import { formatNumber } from "./ModeParamControls";
+
+interface Props {
+  effects: PostEffectSettings[];
+  onChange: (effects: PostEffectSettings[]) => void;
+  disabled?: boolean; // Canvas 2Dでは適用されない
+}
+
+// 数値パラメータと帯域の連動
+const EffectParamControl: FC<{
+  param: NumberModeParam;
+  effect: PostEffectSettings;
+  onChange: (effect: PostEffectSettings) => void;
+}> = ({ param, effect, onChange }) => {
+  const value = effect.params[param.key] ?? param.default;
+  const binding = effect.bindings?.[param.key];
+
+  const setBand = (band: SpectrumBand | "") => {
+    const bindings = { ...effect.bindings };
+    if (band) {
+      bindings[param.key] = { band, amount: binding?.amount ?? 0.5 };
+    } else {
+      delete bindings[param.key];
+    }
+    onChange({ ...effect, bindings });
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography gutterBottom>
+        {param.label}: {formatNumber(value, param.step)}
+      </Typography>
+      <Slider
+        value={value}
+        onChange={(_, newValue) =>
+          onChange({ ...effect, params: { ...effect.params, [param.key]: newValue as number } })
+        }
+        min={param.min}
+        max={param.max}
+        step={param.step}
+      />
+      <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+        <Typography variant="body2">音に連動</Typography>
+        <Select
+          size="small"
+          value={binding?.band ?? ""}
+          onChange={(event) => setBand(event.target.value as SpectrumBand | "")}
+          displayEmpty
+        >
+          <MenuItem value="">なし</MenuItem>
+          {SPECTRUM_BAND_OPTIONS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </Select>
+        {binding && (
+          <Slider
+            value={binding.amount}
+            onChange={(_, newValue) =>
+              onChange({
+                ...effect,
+                bindings: { ...effect.bindings, [param.key]: { ...binding, amount: newValue as number } },
+              })
+            }
+            min={-1}
+            max={1}
+            step={0.05}
+            valueLabelDisplay="auto"
+            sx={{ flex: 1 }}
+          />
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+// カスタムシェーダーの編集（コンパイルできた場合のみ適用）
+const CustomShaderEditor: FC<{
+  effect: PostEffectSettings;
+  onChange: (effect: PostEffectSettings) => void;
+}> = ({ effect, onChange }) => {
+  const [draft, setDraft] = useState<string>(effect.source ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    const result = checkCustomShader(draft);
+    setError(result);
+    if (!result) {
+      onChange({ ...effect, source: draft });
+    }
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Typography variant="body2" color="textSecondary" gutterBottom>
+        使えるuniform: u_texture（描画結果）, u_spectrum（周波数テクスチャ）, u_resolution, u_time, u_bass, u_mid, u_treble, u_level。座標はv_texCoord
+      </Typography>
+      <TextField
+        multiline
+        fullWidth
+        minRows={6}
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        inputProps={{ style: { fontFamily: "monospace", fontSize: 12 } }}
+      />
+      <Box sx={{ mt: 1, display: "flex", gap: 2, alignItems: "center" }}>
+        <Button variant="outlined" size="small" onClick={apply}>
+          適用
+        </Button>
+        {error && (
+          <Typography variant="body2" color="error" sx={{ whiteSpace: "pre-wrap" }}>
+            {error}
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+// ポストエフェクトの一覧（上から順に適用）と追加・並べ替え・削除
+export const PostEffectControls: FC<Props> = ({ effects, onChange, disabled }) => {
+  const [newType, setNewType] = useState<PostEffectType>("bloom");
+
+  const update = (index: number, effect: PostEffectSettings) => {
+    onChange(effects.map((current, i) => (i === index ? effect : current)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= effects.length) {
+      return;
+    }
+    const next = [...effects];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <>
+      {disabled && (
+        <Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
+          ポストエフェクトはWebGLレンダラーでのみ適用されます
+        </Typography>
+      )}
+      {effects.map((effect, index) => {
+        const definition = getPostEffect(effect.type);
+        if (!definition) {
+          return null;
+        }
+        return (
+          <Box key={effect.id} sx={{ mt: 2, p: 1, border: 1, borderColor: "divider", borderRadius: 1 }}>
+            <Box sx={{ display: "flex", alignItems: "center" }}>
+              <Switch
+                checked={effect.enabled}
+                onChange={(event) => update(index, { ...effect, enabled: event.target.checked })}
+              />
+              <Typography sx={{ flex: 1 }}>
+                {index + 1}. {definition.label}
+              </Typography>
+              <IconButton size="small" onClick={() => move(index, -1)} disabled={index === 0}>
+                <ArrowUpward fontSize="small" />
+              </IconButton>
+              <IconButton size="small" onClick={() => move(index, 1)} disabled={index === effects.length - 1}>
+                <ArrowDownward fontSize="small" />
+              </IconButton>
+              <IconButton size="small" onClick={() => onChange(effects.filter((_, i) => i !== index))}>
+                <Delete fontSize="small" />
+              </IconButton>
+            </Box>
+            {definition.params.map((param) => (
+              <EffectParamControl
+                key={param.key}
+                param={param}
+                effect={effect}
+                onChange={(updated) => update(index, updated)}
+              />
+            ))}
+            {effect.type === "custom" && (
+              <CustomShaderEditor effect={effect} onChange={(updated) => update(index, updated)} />
+            )}
+          </Box>
+        );
+      })}
+      <Box sx={{ mt: 2, display: "flex", gap: 2, alignItems: "center" }}>
+        <Select
+          size="small"
+          value={newType}
+          onChange={(event) => setNewType(event.target.value as PostEffectType)}
+        >
+          {POST_EFFECTS.map((effect) => (
+            <MenuItem key={effect.type} value={effect.type}>
+              {effect.label}
+            </MenuItem>
+          ))}
+        </Select>
+        <Button variant="outlined" size="small" onClick={() => onChange([...effects, createPostEffect(newType)])}>
+          エフェクトを追加
+        </Button>
+      </Box>
+    </>
+  );
+};
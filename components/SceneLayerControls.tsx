@@ -0,0 +1,372 @@
+import { FC, useState } from "react";
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Select,
+  Slider,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ArrowDownward, ArrowUpward, Delete, FontDownload, Lyrics, PhotoLibrary } from "@mui/icons-material";
+import {
+  LAYER_PARAMS,
+  LYRICS_LAYER_PARAMS,
+  SCENE_LAYER_TYPE_OPTIONS,
+  SHAPE_LAYER_PARAMS,
+  TEXT_LAYER_PARAMS,
+  TEXT_TOKENS,
+  createSceneLayer,
+  isMediaLayer,
+  resolveLayerBackground,
+  type LyricsLayer,
+  type MediaLayer,
+  type SceneLayer,
+  type SceneLayerType,
+  type SpectrumLayer,
+  type TextLayer,
+} from "../lib/Scene";
+import { BACKGROUND_PARAMS } from "../lib/Background";
+import { getFontOptions } from "../lib/Fonts";
+import { getVisualizerMode, getVisualizerModes, resolveModeParams } from "../lib/SpectrumModes";
+import type { ModeAdjustments, ModeParams, ModeParamValue } from "../lib/SpectrumRenderer";
+import { ModeParamControls } from "./ModeParamControls";
+
+interface ListProps {
+  layers: SceneLayer[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onChange: (layers: SceneLayer[]) => void;
+}
+
+// ロゴは余白を塗らないため、背景色・ぼかし量は表示しない
+const LOGO_BACKGROUND_PARAMS = BACKGROUND_PARAMS.filter((param) => param.key !== "color" && param.key !== "blur");
+
+// レイヤーの一覧（上にあるものほど手前に描かれる）と追加・並べ替え・削除
+export const SceneLayerList: FC<ListProps> = ({ layers, selectedId, onSelect, onChange }) => {
+  const [newType, setNewType] = useState<SceneLayerType>("spectrum");
+
+  const update = (index: number, layer: SceneLayer) => {
+    onChange(layers.map((current, i) => (i === index ? layer : current)));
+  };
+
+  // offsetが正の場合は手前（描画順の後ろ）へ移動
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= layers.length) {
+      return;
+    }
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const add = () => {
+    const layer = createSceneLayer(newType);
+    onChange([...layers, layer]);
+    onSelect(layer.id);
+  };
+
+  return (
+    <>
+      {layers
+        .map((layer, index) => ({ layer, index }))
+        .reverse()
+        .map(({ layer, index }) => (
+          <Box
+            key={layer.id}
+            sx={{
+              mt: 1,
+              px: 1,
+              display: "flex",
+              alignItems: "center",
+              border: 1,
+              borderColor: layer.id === selectedId ? "primary.main" : "divider",
+              borderRadius: 1,
+            }}
+          >
+            <Switch
+              checked={layer.visible}
+              onChange={(event) => update(index, { ...layer, visible: event.target.checked })}
+            />
+            <Typography sx={{ flex: 1, cursor: "pointer" }} onClick={() => onSelect(layer.id)}>
+              {layer.name}
+              <Typography component="span" variant="caption" color="textSecondary" sx={{ ml: 1 }}>
+                {SCENE_LAYER_TYPE_OPTIONS.find((option) => option.value === layer.type)?.label}
+              </Typography>
+            </Typography>
+            <IconButton size="small" onClick={() => move(index, 1)} disabled={index === layers.length - 1}>
+              <ArrowUpward fontSize="small" />
+            </IconButton>
+            <IconButton size="small" onClick={() => move(index, -1)} disabled={index === 0}>
+              <ArrowDownward fontSize="small" />
+            </IconButton>
+            <IconButton size="small" onClick={() => onChange(layers.filter((_, i) => i !== index))}>
+              <Delete fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+      <Box sx={{ mt: 2, display: "flex", gap: 2, alignItems: "center" }}>
+        <Select
+          size="small"
+          value={newType}
+          onChange={(event) => setNewType(event.target.value as SceneLayerType)}
+        >
+          {SCENE_LAYER_TYPE_OPTIONS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </Select>
+        <Button variant="outlined" size="small" onClick={add}>
+          レイヤーを追加
+        </Button>
+      </Box>
+    </>
+  );
+};
+
+// スペクトラムの倍率・位置のスライダー
+const ADJUSTMENT_SLIDERS: {
+  key: "scaleX" | "scaleY" | "offsetX" | "offsetY";
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  marks: number[];
+}[] = [
+  { key: "scaleX", label: "横幅倍率", min: 0.1, max: 3.0, step: 0.1, marks: [0.5, 1.0, 2.0] },
+  { key: "scaleY", label: "縦幅倍率", min: 0.1, max: 3.0, step: 0.1, marks: [0.5, 1.0, 2.0] },
+  { key: "offsetX", label: "横位置", min: -150, max: 150, step: 1, marks: [-150, 0, 150] },
+  { key: "offsetY", label: "縦位置", min: -150, max: 150, step: 1, marks: [-150, 0, 150] },
+];
+
+// スペクトラムレイヤーのモード・表示調整
+const SpectrumLayerControls: FC<{
+  layer: SpectrumLayer;
+  layerWidth: number; // px
+  layerHeight: number; // px
+  onChange: (layer: SpectrumLayer) => void;
+}> = ({ layer, layerWidth, layerHeight, onChange }) => {
+  const mode = getVisualizerMode(layer.mode);
+  const { adjustments } = layer;
+  const setAdjustments = (changes: Partial<ModeAdjustments>) => {
+    onChange({ ...layer, adjustments: { ...adjustments, ...changes } });
+  };
+
+  return (
+    <>
+      <Box sx={{ mt: 3, display: "flex", gap: 2, alignItems: "center" }}>
+        <Typography>モード</Typography>
+        <Select
+          size="small"
+          value={layer.mode}
+          // モード固有パラメータはモードごとに異なるため既定値に戻す
+          onChange={(event) =>
+            onChange({ ...layer, mode: Number(event.target.value), adjustments: { ...adjustments, params: undefined } })
+          }
+        >
+          {getVisualizerModes().map((item) => (
+            <MenuItem key={item.id} value={item.id}>
+              {item.label}
+            </MenuItem>
+          ))}
+        </Select>
+      </Box>
+      {ADJUSTMENT_SLIDERS.map((slider) => {
+        const value = adjustments[slider.key];
+        const offset = slider.key === "offsetX" || slider.key === "offsetY";
+        const size = slider.key === "offsetX" ? layerWidth : layerHeight;
+        return (
+          <Box key={slider.key} sx={{ mt: 3 }}>
+            <Typography gutterBottom>
+              {slider.label}: {offset ? `${value.toFixed(1)}% (実際: ${Math.round((size * value) / 100)}px)` : value.toFixed(2)}
+            </Typography>
+            <Slider
+              value={value}
+              onChange={(_, newValue) => setAdjustments({ [slider.key]: newValue as number })}
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              marks={slider.marks.map((mark) => ({ value: mark, label: offset ? `${mark}%` : mark.toFixed(1) }))}
+            />
+          </Box>
+        );
+      })}
+      {mode?.params && (
+        <ModeParamControls
+          schema={mode.params}
+          values={resolveModeParams(mode, adjustments.params)}
+          onChange={(key, value) => setAdjustments({ params: { ...adjustments.params, [key]: value } })}
+        />
+      )}
+    </>
+  );
+};
+
+// 文字の見た目（テキスト・歌詞レイヤーで共通）とフォントの読み込み
+const TextStyleControls: FC<{
+  layer: TextLayer | LyricsLayer;
+  onChange: (key: string, value: ModeParamValue) => void;
+  onFontSelect: (file: File) => void;
+}> = ({ layer, onChange, onFontSelect }) => (
+  <>
+    <Box sx={{ mt: 2 }}>
+      <Button variant="outlined" component="label" size="small" startIcon={<FontDownload />}>
+        フォントを読み込む
+        <input
+          type="file"
+          accept=".ttf,.otf,.woff,.woff2"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) {
+              onFontSelect(file);
+            }
+          }}
+          hidden
+        />
+      </Button>
+    </Box>
+    <ModeParamControls
+      // 読み込んだフォントを選択肢に加える
+      schema={TEXT_LAYER_PARAMS.map((param) =>
+        param.key === "fontFamily" && param.type === "select"
+          ? { ...param, options: getFontOptions(layer.fontFamily) }
+          : param
+      )}
+      values={layer as unknown as ModeParams}
+      onChange={onChange}
+    />
+  </>
+);
+
+interface EditorProps {
+  layer: SceneLayer;
+  canvasWidth: number;
+  canvasHeight: number;
+  fileName?: string; // メディアレイヤーの読み込み済みのファイル名
+  lyricsFileName?: string; // 読み込み済みの歌詞ファイル名
+  onChange: (layer: SceneLayer) => void;
+  onFileSelect: (layer: MediaLayer, file: File) => void;
+  onFontSelect: (layer: TextLayer | LyricsLayer, file: File) => void;
+  onLyricsSelect: (file: File) => void;
+}
+
+// 選択中のレイヤーの設定（配置と種類ごとの項目）
+export const SceneLayerEditor: FC<EditorProps> = ({
+  layer,
+  canvasWidth,
+  canvasHeight,
+  fileName,
+  lyricsFileName,
+  onChange,
+  onFileSelect,
+  onFontSelect,
+  onLyricsSelect,
+}) => {
+  const setValue = (key: string, value: ModeParamValue) => {
+    onChange({ ...layer, [key]: value } as SceneLayer);
+  };
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <TextField
+        fullWidth
+        size="small"
+        label="レイヤー名"
+        value={layer.name}
+        onChange={(event) => onChange({ ...layer, name: event.target.value })}
+      />
+      <ModeParamControls
+        schema={LAYER_PARAMS}
+        values={layer as unknown as ModeParams}
+        onChange={setValue}
+      />
+      {isMediaLayer(layer) && (
+        <>
+          <Box sx={{ mt: 3, display: "flex", gap: 2, alignItems: "center" }}>
+            <Button variant="outlined" component="label" size="small" startIcon={<PhotoLibrary />}>
+              {layer.type === "video" ? "動画を選ぶ" : "画像を選ぶ"}
+              <input
+                type="file"
+                accept={layer.type === "video" ? "video/*" : "image/*,video/*"}
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    onFileSelect(layer, file);
+                  }
+                }}
+                hidden
+              />
+            </Button>
+            <Typography variant="body2" color="textSecondary" noWrap>
+              {fileName || "未選択"}
+            </Typography>
+          </Box>
+          <ModeParamControls
+            schema={layer.type === "logo" ? LOGO_BACKGROUND_PARAMS : BACKGROUND_PARAMS}
+            values={{ ...resolveLayerBackground(layer) }}
+            onChange={(key, value) => onChange({ ...layer, background: { ...layer.background, [key]: value } })}
+          />
+        </>
+      )}
+      {layer.type === "spectrum" && (
+        <SpectrumLayerControls
+          layer={layer}
+          layerWidth={(canvasWidth * layer.width) / 100}
+          layerHeight={(canvasHeight * layer.height) / 100}
+          onChange={onChange}
+        />
+      )}
+      {layer.type === "text" && (
+        <>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            sx={{ mt: 3 }}
+            label="テキスト"
+            value={layer.text}
+            onChange={(event) => onChange({ ...layer, text: event.target.value })}
+            helperText={`差し込み: ${TEXT_TOKENS.map((item) => `${item.token} ${item.label}`).join(" / ")}`}
+          />
+          <TextStyleControls layer={layer} onChange={setValue} onFontSelect={(file) => onFontSelect(layer, file)} />
+        </>
+      )}
+      {layer.type === "lyrics" && (
+        <>
+          <Box sx={{ mt: 3, display: "flex", gap: 2, alignItems: "center" }}>
+            <Button variant="outlined" component="label" size="small" startIcon={<Lyrics />}>
+              歌詞ファイルを選ぶ
+              <input
+                type="file"
+                accept=".lrc,.srt,.vtt"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) {
+                    onLyricsSelect(file);
+                  }
+                }}
+                hidden
+              />
+            </Button>
+            <Typography variant="body2" color="textSecondary" noWrap>
+              {lyricsFileName || "未選択（LRC・SRT・WebVTT）"}
+            </Typography>
+          </Box>
+          <ModeParamControls schema={LYRICS_LAYER_PARAMS} values={layer as unknown as ModeParams} onChange={setValue} />
+          <TextStyleControls layer={layer} onChange={setValue} onFontSelect={(file) => onFontSelect(layer, file)} />
+        </>
+      )}
+      {layer.type === "shape" && (
+        <ModeParamControls
+          schema={SHAPE_LAYER_PARAMS}
+          values={layer as unknown as ModeParams}
+          onChange={setValue}
+        />
+      )}
+    </Box>
+  );
+};
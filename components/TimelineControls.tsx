@@ -0,0 +1,226 @@
+import { FC, useEffect, useRef } from "react";
+import { Box, Button, IconButton, Slider, TextField, Typography } from "@mui/material";
+import { Bookmark, Delete, Pause, PlayArrow, Stop } from "@mui/icons-material";
+import {
+  TIMELINE_PARAMS,
+  addTimelineMarker,
+  clampTimeline,
+  formatTimelineTime,
+  type TimelineMarker,
+  type TimelineSettings,
+} from "../lib/Timeline";
+import type { ModeParams } from "../lib/SpectrumRenderer";
+import { ModeParamControls } from "./ModeParamControls";
+
+interface Props {
+  timeline: TimelineSettings;
+  duration: number; // 曲の長さ（秒）
+  peaks: Float32Array | null; // 波形（デコード済みの音声がない場合はnull）
+  onChange: (timeline: TimelineSettings) => void;
+  isPlaying: boolean;
+  transportDisabled: boolean; // 録画中など再生位置を変更できない場合
+  getPosition: () => number; // 再生位置（秒、描画のたびに読む）
+  onPlayPause: () => void;
+  onStop: () => void;
+  onSeek: (time: number) => void;
+}
+
+// 波形の高さ（px）
+const WAVEFORM_HEIGHT = 64;
+
+// 再生・一時停止・停止のボタンと、曲全体の波形（再生位置の線、クリック・ドラッグでシーク）、
+// その下の範囲の開始・終了のつまみ（波形と同じ幅で時刻が揃う）と区間の目印
+export const TimelineControls: FC<Props> = ({
+  timeline,
+  duration,
+  peaks,
+  onChange,
+  isPlaying,
+  transportDisabled,
+  getPosition,
+  onPlayPause,
+  onStop,
+  onSeek,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const positionTextRef = useRef<HTMLSpanElement>(null);
+  // 描画ループからは最新の関数を読む
+  const getPositionRef = useRef(getPosition);
+  getPositionRef.current = getPosition;
+  // 波形をドラッグしてシーク中か
+  const seekingRef = useRef(false);
+
+  // 再生位置の線と時刻を毎フレーム更新（Reactの再描画を介さない）
+  useEffect(() => {
+    let frameId: number;
+    const update = () => {
+      const position = Math.min(Math.max(getPositionRef.current(), 0), duration);
+      if (playheadRef.current) {
+        playheadRef.current.style.left = `${(position / duration) * 100}%`;
+      }
+      if (positionTextRef.current) {
+        positionTextRef.current.textContent = formatTimelineTime(position);
+      }
+      frameId = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frameId);
+  }, [duration]);
+
+  // 波形を描画（範囲外は暗くする）
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) {
+      return;
+    }
+    const width = canvas.clientWidth;
+    canvas.width = width;
+    canvas.height = WAVEFORM_HEIGHT;
+    ctx.clearRect(0, 0, width, WAVEFORM_HEIGHT);
+    if (!peaks) {
+      return;
+    }
+    const startX = (timeline.start / duration) * width;
+    const endX = (timeline.end / duration) * width;
+    for (let x = 0; x < width; x++) {
+      const peak = peaks[Math.floor((x / width) * peaks.length)];
+      const barHeight = Math.max(1, peak * WAVEFORM_HEIGHT);
+      ctx.fillStyle = x >= startX && x <= endX ? "rgba(25, 118, 210, 0.8)" : "rgba(128, 128, 128, 0.4)";
+      ctx.fillRect(x, (WAVEFORM_HEIGHT - barHeight) / 2, 1, barHeight);
+    }
+    // 区間の目印
+    ctx.fillStyle = "rgba(255, 152, 0, 0.9)";
+    for (const marker of timeline.markers) {
+      ctx.fillRect(Math.round((marker.time / duration) * width), 0, 1, WAVEFORM_HEIGHT);
+    }
+  }, [peaks, duration, timeline.start, timeline.end, timeline.markers]);
+
+  const update = (changes: Partial<TimelineSettings>) => {
+    onChange(clampTimeline({ ...timeline, ...changes }, duration));
+  };
+
+  const updateMarker = (id: string, changes: Partial<TimelineMarker>) => {
+    update({ markers: timeline.markers.map((marker) => (marker.id === id ? { ...marker, ...changes } : marker)) });
+  };
+
+  // 再生位置に目印を加える（タイトルは番号、後から編集する）
+  const addMarker = () => {
+    const time = Math.round(getPosition() * 10) / 10;
+    onChange(addTimelineMarker(timeline, time, `区間${timeline.markers.length + 1}`));
+  };
+
+  // 波形上のポインターの位置の時刻にシーク
+  const seekTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onSeek(ratio * duration);
+  };
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <IconButton size="small" onClick={onPlayPause} disabled={transportDisabled} aria-label={isPlaying ? "一時停止" : "再生"}>
+          {isPlaying ? <Pause /> : <PlayArrow />}
+        </IconButton>
+        <IconButton size="small" onClick={onStop} disabled={transportDisabled} aria-label="停止">
+          <Stop />
+        </IconButton>
+        <Typography variant="body2" sx={{ fontVariantNumeric: "tabular-nums" }}>
+          <span ref={positionTextRef}>{formatTimelineTime(0)}</span> / {formatTimelineTime(duration)}
+        </Typography>
+      </Box>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+        <Typography variant="body2" sx={{ flex: 1, textAlign: "left" }}>
+          範囲: {formatTimelineTime(timeline.start)} 〜 {formatTimelineTime(timeline.end)}（
+          {formatTimelineTime(timeline.end - timeline.start)}）
+        </Typography>
+        <Button size="small" onClick={() => update({ start: 0, end: duration })}>
+          曲全体に戻す
+        </Button>
+      </Box>
+      <Box sx={{ mt: 1 }}>
+        <Box sx={{ position: "relative" }}>
+          <canvas
+            ref={canvasRef}
+            style={{ width: "100%", height: WAVEFORM_HEIGHT, display: "block", cursor: transportDisabled ? "default" : "pointer" }}
+            onPointerDown={(e) => {
+              if (transportDisabled) {
+                return;
+              }
+              seekingRef.current = true;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              seekTo(e);
+            }}
+            onPointerMove={(e) => {
+              if (seekingRef.current) {
+                seekTo(e);
+              }
+            }}
+            onPointerUp={() => {
+              seekingRef.current = false;
+            }}
+          />
+          <Box
+            ref={playheadRef}
+            sx={{
+              position: "absolute",
+              top: 0,
+              bottom: 0,
+              width: 2,
+              ml: "-1px",
+              bgcolor: "error.main",
+              pointerEvents: "none",
+            }}
+          />
+        </Box>
+        <Slider
+          value={[timeline.start, timeline.end]}
+          onChange={(_, value) => {
+            const [start, end] = value as number[];
+            update({ start, end });
+          }}
+          min={0}
+          max={duration}
+          step={0.1}
+          disableSwap
+          valueLabelDisplay="auto"
+          valueLabelFormat={formatTimelineTime}
+        />
+      </Box>
+      <Box sx={{ display: "flex", justifyContent: "flex-start" }}>
+        <Button size="small" startIcon={<Bookmark />} onClick={addMarker}>
+          再生位置に目印を追加
+        </Button>
+      </Box>
+      {timeline.markers.map((marker) => (
+        <Box key={marker.id} sx={{ mt: 1, display: "flex", alignItems: "center", gap: 1 }}>
+          <Button
+            size="small"
+            onClick={() => onSeek(marker.time)}
+            disabled={transportDisabled}
+            sx={{ fontVariantNumeric: "tabular-nums", minWidth: 72 }}
+          >
+            {formatTimelineTime(marker.time)}
+          </Button>
+          <TextField
+            size="small"
+            label="区間の名前"
+            value={marker.title}
+            onChange={(e) => updateMarker(marker.id, { title: e.target.value })}
+            sx={{ flex: 1 }}
+          />
+          <IconButton size="small" onClick={() => update({ markers: timeline.markers.filter((m) => m.id !== marker.id) })}>
+            <Delete fontSize="small" />
+          </IconButton>
+        </Box>
+      ))}
+      <ModeParamControls
+        schema={TIMELINE_PARAMS}
+        values={timeline as unknown as ModeParams}
+        onChange={(key, value) => update({ [key]: value })}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,66 @@
+/**
+ * プレビューの音声解析ノードの構成
+ * 音源はinputに接続する。inputから全体（ダウンミックス）の表示用・ビート検出用のAnalyserNodeと、
+ * ChannelSplitterNodeで分けた左右・ミッド・サイドのAnalyserNodeに分岐する
+ */
+
+import type { StereoSources } from './SpectrumRenderer';
+
+export interface AnalyserGraph {
+  input: GainNode;
+  analyser: AnalyserNode; // 表示用（出力先にも接続して音声を通す）
+  beatAnalyser: AnalyserNode; // ビート検出用（平滑化なし）
+  stereo: StereoSources; // チャンネル別（左右・ミッド・サイド）
+}
+
+/**
+ * 解析ノードを作成して接続
+ */
+export function createAnalyserGraph(audioCtx: BaseAudioContext, fftSize = 2048): AnalyserGraph {
+  const input = audioCtx.createGain();
+
+  const analyser = audioCtx.createAnalyser();
+  analyser.fftSize = fftSize;
+  input.connect(analyser);
+
+  // ビート検出用（表示用の平滑化が掛かっていないスペクトラムを使う）
+  const beatAnalyser = audioCtx.createAnalyser();
+  beatAnalyser.fftSize = fftSize;
+  beatAnalyser.smoothingTimeConstant = 0;
+  input.connect(beatAnalyser);
+
+  // 2チャンネルに揃えてから分割（モノラルは左右に同じ信号、5.1chなどはステレオにダウンミックスされる）
+  const stereoInput = audioCtx.createGain();
+  stereoInput.channelCount = 2;
+  stereoInput.channelCountMode = 'explicit';
+  stereoInput.channelInterpretation = 'speakers';
+  input.connect(stereoInput);
+  const splitter = audioCtx.createChannelSplitter(2);
+  stereoInput.connect(splitter);
+
+  const createChannelAnalyser = () => {
+    const node = audioCtx.createAnalyser();
+    node.fftSize = fftSize;
+    return node;
+  };
+  const left = createChannelAnalyser();
+  const right = createChannelAnalyser();
+  const mid = createChannelAnalyser();
+  const side = createChannelAnalyser();
+  splitter.connect(left, 0);
+  splitter.connect(right, 1);
+
+  // ミッド = (L + R) / 2、サイド = (L - R) / 2（同じ入力に接続したノードの出力は加算される）
+  const mixChannel = (channel: number, gain: number, destination: AudioNode) => {
+    const node = audioCtx.createGain();
+    node.gain.value = gain;
+    splitter.connect(node, channel);
+    node.connect(destination);
+  };
+  mixChannel(0, 0.5, mid);
+  mixChannel(1, 0.5, mid);
+  mixChannel(0, 0.5, side);
+  mixChannel(1, -0.5, side);
+
+  return { input, analyser, beatAnalyser, stereo: { left, right, mid, side } };
+}
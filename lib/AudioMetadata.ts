@@ -0,0 +1,497 @@
+/**
+ * 音声ファイルのメタデータ（曲名・アーティスト・アルバム・カバー画像）の読み取り
+ * ID3v2（MP3など）、Vorbisコメント（FLAC・Ogg Vorbis・Opus）、MP4のilst（M4A）に対応する
+ */
+
+export interface AudioMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  cover?: Blob; // 埋め込まれたカバー画像（表紙を優先し、なければ最初の画像）
+}
+
+// カバー画像の候補
+interface Picture {
+  type: number; // ID3・FLACの画像の種類（3が表紙）
+  mimeType: string;
+  data: Uint8Array;
+}
+
+// 画像の種類「表紙」
+const FRONT_COVER = 3;
+// Oggで読むページ数の上限（コメントヘッダーは先頭付近にあるが、カバー画像で複数ページにまたがる）
+const MAX_OGG_PAGES = 2048;
+
+const latin1 = new TextDecoder('iso-8859-1');
+const utf8 = new TextDecoder('utf-8');
+const utf16le = new TextDecoder('utf-16le');
+const utf16be = new TextDecoder('utf-16be');
+
+/**
+ * 音声ファイルの内容からメタデータを読み取る（形式を判別できない場合は空）
+ * decodeAudioDataはバッファを切り離すため、デコードより前に呼ぶ
+ */
+export function parseAudioMetadata(buffer: ArrayBuffer): AudioMetadata {
+  const bytes = new Uint8Array(buffer);
+  try {
+    if (matchAscii(bytes, 0, 'ID3')) {
+      const { metadata, end } = parseId3(bytes);
+      // ID3の後ろにFLACが続く場合はVorbisコメントの方を優先する
+      if (matchAscii(bytes, end, 'fLaC')) {
+        return { ...metadata, ...parseFlac(bytes, end + 4) };
+      }
+      return metadata;
+    }
+    if (matchAscii(bytes, 0, 'fLaC')) {
+      return parseFlac(bytes, 4);
+    }
+    if (matchAscii(bytes, 0, 'OggS')) {
+      return parseOgg(bytes);
+    }
+    if (matchAscii(bytes, 4, 'ftyp')) {
+      return parseMp4(bytes);
+    }
+  } catch (error) {
+    // 壊れたタグは無視する（音声の読み込みは続ける）
+    console.error('メタデータの読み取りに失敗しました:', error);
+  }
+  return {};
+}
+
+function matchAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+  if (offset + text.length > bytes.length) {
+    return false;
+  }
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return latin1.decode(bytes.subarray(offset, offset + length));
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset + 3] << 24) | (bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset]) >>> 0;
+}
+
+function readUint24BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+}
+
+// ID3の同期安全整数（各バイトの下位7ビット）
+function readSyncsafe(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+}
+
+function toBlob(picture: Picture): Blob {
+  return new Blob([picture.data], { type: picture.mimeType });
+}
+
+// 表紙を優先してカバー画像を選ぶ
+function pickCover(pictures: Picture[]): Blob | undefined {
+  const picture = pictures.find((item) => item.type === FRONT_COVER) ?? pictures[0];
+  return picture ? toBlob(picture) : undefined;
+}
+
+// 空の値を除いて返す
+function compact(metadata: AudioMetadata): AudioMetadata {
+  const result: AudioMetadata = {};
+  if (metadata.title) {
+    result.title = metadata.title;
+  }
+  if (metadata.artist) {
+    result.artist = metadata.artist;
+  }
+  if (metadata.album) {
+    result.album = metadata.album;
+  }
+  if (metadata.cover) {
+    result.cover = metadata.cover;
+  }
+  return result;
+}
+
+/* ---------- ID3v2 ---------- */
+
+// 非同期化（0xFF 0x00の0x00）を取り除く
+function removeUnsynchronisation(bytes: Uint8Array): Uint8Array {
+  const result = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    result[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) {
+      i++;
+    }
+  }
+  return result.subarray(0, length);
+}
+
+// ID3の文字コード（0: ISO-8859-1、1: BOM付きUTF-16、2: UTF-16BE、3: UTF-8）で文字列を読む
+function decodeId3Text(encoding: number, bytes: Uint8Array): string {
+  let text: string;
+  if (encoding === 1) {
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      text = utf16be.decode(bytes.subarray(2));
+    } else {
+      text = utf16le.decode(bytes[0] === 0xff && bytes[1] === 0xfe ? bytes.subarray(2) : bytes);
+    }
+  } else if (encoding === 2) {
+    text = utf16be.decode(bytes);
+  } else if (encoding === 3) {
+    text = utf8.decode(bytes);
+  } else {
+    text = latin1.decode(bytes);
+  }
+  // 末尾の終端文字と、複数の値の区切り（v2.4）以降を除く
+  return text.split('\u0000')[0].trim();
+}
+
+// 文字コードに応じた終端文字の位置（見つからない場合は末尾）
+function findId3Terminator(encoding: number, bytes: Uint8Array, offset: number): number {
+  if (encoding === 1 || encoding === 2) {
+    for (let i = offset; i + 1 < bytes.length; i += 2) {
+      if (bytes[i] === 0 && bytes[i + 1] === 0) {
+        return i;
+      }
+    }
+    return bytes.length;
+  }
+  const index = bytes.indexOf(0, offset);
+  return index < 0 ? bytes.length : index;
+}
+
+// APIC（v2.3・v2.4）・PIC（v2.2）フレーム
+function parseId3Picture(frame: Uint8Array, legacy: boolean): Picture | null {
+  const encoding = frame[0];
+  let offset = 1;
+  let mimeType: string;
+  if (legacy) {
+    // v2.2は3文字の形式名（JPG・PNG）
+    const format = readAscii(frame, offset, 3).toUpperCase();
+    mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    offset += 3;
+  } else {
+    const end = findId3Terminator(0, frame, offset);
+    mimeType = readAscii(frame, offset, end - offset).toLowerCase() || 'image/jpeg';
+    // 「jpg」など、image/が付いていない古い書き方にも対応
+    if (!mimeType.includes('/')) {
+      mimeType = `image/${mimeType === 'jpg' ? 'jpeg' : mimeType}`;
+    }
+    offset = end + 1;
+  }
+  const type = frame[offset];
+  offset += 1;
+  const descriptionEnd = findId3Terminator(encoding, frame, offset);
+  offset = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (offset >= frame.length) {
+    return null;
+  }
+  return { type, mimeType, data: frame.slice(offset) };
+}
+
+function parseId3(bytes: Uint8Array): { metadata: AudioMetadata; end: number } {
+  const version = bytes[3];
+  const flags = bytes[5];
+  const size = readSyncsafe(bytes, 6);
+  const end = 10 + size + (flags & 0x10 ? 10 : 0); // フッターあり（v2.4）
+  let tag = bytes.subarray(10, Math.min(10 + size, bytes.length));
+  // v2.2・v2.3はタグ全体に非同期化がかかる（v2.4はフレームごと）
+  if (flags & 0x80 && version < 4) {
+    tag = removeUnsynchronisation(tag);
+  }
+
+  let offset = 0;
+  // 拡張ヘッダーを読み飛ばす（v2.3はサイズに自身の4バイトを含まない）
+  if (flags & 0x40 && version >= 3) {
+    offset = version === 3 ? readUint32BE(tag, 0) + 4 : readSyncsafe(tag, 0);
+  }
+
+  const legacy = version === 2;
+  const idLength = legacy ? 3 : 4;
+  const headerLength = legacy ? 6 : 10;
+  const texts: Record<string, string> = {};
+  const pictures: Picture[] = [];
+  while (offset + headerLength <= tag.length) {
+    const id = readAscii(tag, offset, idLength);
+    // パディングに達したら終了
+    if (!/^[A-Z0-9]+$/.test(id)) {
+      break;
+    }
+    let frameSize: number;
+    if (legacy) {
+      frameSize = readUint24BE(tag, offset + 3);
+    } else if (version === 4) {
+      frameSize = readSyncsafe(tag, offset + 4);
+    } else {
+      frameSize = readUint32BE(tag, offset + 4);
+    }
+    const formatFlags = legacy ? 0 : tag[offset + 9];
+    let frame = tag.subarray(offset + headerLength, offset + headerLength + frameSize);
+    offset += headerLength + frameSize;
+
+    // 圧縮（v2.3: 0x80、v2.4: 0x08）・暗号化（v2.3: 0x40、v2.4: 0x04）されたフレームは読まない
+    const unsupported = version === 4 ? formatFlags & 0x0c : formatFlags & 0xc0;
+    if (unsupported || frame.length === 0) {
+      continue;
+    }
+    if (version === 4) {
+      // データ長の表示（0x01）がある場合は先頭の4バイトを除く
+      if (formatFlags & 0x01) {
+        frame = frame.subarray(4);
+      }
+      if (formatFlags & 0x02) {
+        frame = removeUnsynchronisation(frame);
+      }
+    }
+
+    if (id === 'APIC' || id === 'PIC') {
+      const picture = parseId3Picture(frame, legacy);
+      if (picture) {
+        pictures.push(picture);
+      }
+    } else if (id[0] === 'T' && !(id in texts)) {
+      texts[id] = decodeId3Text(frame[0], frame.subarray(1));
+    }
+  }
+
+  const metadata = compact({
+    title: texts.TIT2 ?? texts.TT2,
+    artist: texts.TPE1 ?? texts.TP1 ?? texts.TPE2 ?? texts.TP2,
+    album: texts.TALB ?? texts.TAL,
+    cover: pickCover(pictures),
+  });
+  return { metadata, end };
+}
+
+/* ---------- Vorbisコメント（FLAC・Ogg） ---------- */
+
+// FLACのPICTUREブロック（OggではMETADATA_BLOCK_PICTUREにBase64で格納される）
+function parseFlacPicture(block: Uint8Array): Picture | null {
+  let offset = 0;
+  const type = readUint32BE(block, offset);
+  const mimeLength = readUint32BE(block, offset + 4);
+  const mimeType = readAscii(block, offset + 8, mimeLength);
+  offset += 8 + mimeLength;
+  const descriptionLength = readUint32BE(block, offset);
+  // 説明の後ろに幅・高さ・色深度・色数（各4バイト）が続く
+  offset += 4 + descriptionLength + 16;
+  const dataLength = readUint32BE(block, offset);
+  offset += 4;
+  if (offset + dataLength > block.length || mimeType === '-->') {
+    // '-->'は画像ではなくURL
+    return null;
+  }
+  return { type, mimeType: mimeType || 'image/jpeg', data: block.slice(offset, offset + dataLength) };
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+// Vorbisコメント（ベンダー文字列とKEY=valueの一覧、長さはリトルエンディアン）
+function parseVorbisComment(block: Uint8Array, pictures: Picture[]): AudioMetadata {
+  let offset = 0;
+  const vendorLength = readUint32LE(block, offset);
+  offset += 4 + vendorLength;
+  const count = readUint32LE(block, offset);
+  offset += 4;
+  const fields: Record<string, string> = {};
+  for (let i = 0; i < count && offset + 4 <= block.length; i++) {
+    const length = readUint32LE(block, offset);
+    offset += 4;
+    const comment = utf8.decode(block.subarray(offset, offset + length));
+    offset += length;
+    const separator = comment.indexOf('=');
+    if (separator < 0) {
+      continue;
+    }
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+    if (key === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const picture = parseFlacPicture(decodeBase64(value));
+        if (picture) {
+          pictures.push(picture);
+        }
+      } catch {
+        // 壊れた画像は無視
+      }
+    } else if (!(key in fields)) {
+      fields[key] = value.trim();
+    }
+  }
+  return {
+    title: fields.TITLE,
+    artist: fields.ARTIST ?? fields.ALBUMARTIST,
+    album: fields.ALBUM,
+  };
+}
+
+function parseFlac(bytes: Uint8Array, start: number): AudioMetadata {
+  let metadata: AudioMetadata = {};
+  const pictures: Picture[] = [];
+  let offset = start;
+  while (offset + 4 <= bytes.length) {
+    const header = bytes[offset];
+    const length = readUint24BE(bytes, offset + 1);
+    const block = bytes.subarray(offset + 4, offset + 4 + length);
+    const type = header & 0x7f;
+    if (type === 4) {
+      metadata = parseVorbisComment(block, pictures);
+    } else if (type === 6) {
+      const picture = parseFlacPicture(block);
+      if (picture) {
+        pictures.push(picture);
+      }
+    }
+    offset += 4 + length;
+    // 最後のメタデータブロック
+    if (header & 0x80) {
+      break;
+    }
+  }
+  return compact({ ...metadata, cover: pickCover(pictures) });
+}
+
+/**
+ * Oggの先頭からパケットを組み立て、2番目のパケット（コメントヘッダー）を返す
+ */
+function readOggCommentPacket(bytes: Uint8Array): Uint8Array | null {
+  const packets: Uint8Array[] = [];
+  let current: Uint8Array[] = [];
+  let offset = 0;
+  for (let page = 0; page < MAX_OGG_PAGES && matchAscii(bytes, offset, 'OggS'); page++) {
+    const segmentCount = bytes[offset + 26];
+    const table = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let dataOffset = offset + 27 + segmentCount;
+    for (const length of Array.from(table)) {
+      current.push(bytes.subarray(dataOffset, dataOffset + length));
+      dataOffset += length;
+      // 255未満のセグメントでパケットが終わる
+      if (length < 255) {
+        const size = current.reduce((sum, part) => sum + part.length, 0);
+        const packet = new Uint8Array(size);
+        let position = 0;
+        for (const part of current) {
+          packet.set(part, position);
+          position += part.length;
+        }
+        packets.push(packet);
+        current = [];
+        if (packets.length === 2) {
+          return packets[1];
+        }
+      }
+    }
+    offset = dataOffset;
+  }
+  return null;
+}
+
+function parseOgg(bytes: Uint8Array): AudioMetadata {
+  const packet = readOggCommentPacket(bytes);
+  if (!packet) {
+    return {};
+  }
+  // Vorbisは「\x03vorbis」、Opusは「OpusTags」の後ろにコメントが続く
+  let start: number;
+  if (packet[0] === 3 && matchAscii(packet, 1, 'vorbis')) {
+    start = 7;
+  } else if (matchAscii(packet, 0, 'OpusTags')) {
+    start = 8;
+  } else {
+    return {};
+  }
+  const pictures: Picture[] = [];
+  const metadata = parseVorbisComment(packet.subarray(start), pictures);
+  return compact({ ...metadata, cover: pickCover(pictures) });
+}
+
+/* ---------- MP4（ilst） ---------- */
+
+interface Mp4Atom {
+  type: string;
+  start: number; // 中身の先頭
+  end: number;
+}
+
+// start〜endにある子アトムの一覧
+function readMp4Atoms(bytes: Uint8Array, start: number, end: number): Mp4Atom[] {
+  const atoms: Mp4Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset);
+    const type = readAscii(bytes, offset + 4, 4);
+    let headerLength = 8;
+    if (size === 1) {
+      // 64ビットのサイズ（上位32ビットが0でない大きさはここでは扱わない）
+      size = readUint32BE(bytes, offset + 8) * 2 ** 32 + readUint32BE(bytes, offset + 12);
+      headerLength = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerLength) {
+      break;
+    }
+    atoms.push({ type, start: offset + headerLength, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return atoms;
+}
+
+function findMp4Atom(bytes: Uint8Array, parent: Mp4Atom | null, path: string[]): Mp4Atom | null {
+  let current = parent ?? { type: '', start: 0, end: bytes.length };
+  for (const type of path) {
+    // metaはフルボックスなので、子の前にバージョン・フラグの4バイトがある
+    const start = current.type === 'meta' ? current.start + 4 : current.start;
+    const child = readMp4Atoms(bytes, start, current.end).find((atom) => atom.type === type);
+    if (!child) {
+      return null;
+    }
+    current = child;
+  }
+  return current;
+}
+
+function parseMp4(bytes: Uint8Array): AudioMetadata {
+  const ilst = findMp4Atom(bytes, null, ['moov', 'udta', 'meta', 'ilst']);
+  if (!ilst) {
+    return {};
+  }
+  const texts: Record<string, string> = {};
+  const pictures: Picture[] = [];
+  for (const item of readMp4Atoms(bytes, ilst.start, ilst.end)) {
+    const data = findMp4Atom(bytes, item, ['data']);
+    if (!data || data.end - data.start < 8) {
+      continue;
+    }
+    // dataの中身は型（4バイト）・ロケール（4バイト）・値
+    const dataType = readUint32BE(bytes, data.start) & 0xffffff;
+    const value = bytes.subarray(data.start + 8, data.end);
+    if (item.type === 'covr') {
+      // 13: JPEG、14: PNG
+      pictures.push({ type: FRONT_COVER, mimeType: dataType === 14 ? 'image/png' : 'image/jpeg', data: value.slice() });
+    } else if (dataType === 1) {
+      texts[item.type] = utf8.decode(value).trim();
+    }
+  }
+  return compact({
+    title: texts['©nam'],
+    artist: texts['©ART'] ?? texts.aART,
+    album: texts['©alb'],
+    cover: pickCover(pictures),
+  });
+}
@@ -0,0 +1,336 @@
+/**
+ * 背景画像の配置（フィット・切り抜き位置・背景色・ケン・バーンズ）
+ * Canvas 2D / WebGLの両レンダラーで同じ配置になるよう、配置の計算と静的な部分の描画をここにまとめる
+ */
+
+import type { ModeParamSchema } from './SpectrumModes';
+
+export type BackgroundFit = 'contain' | 'cover' | 'stretch' | 'blurredFill';
+export type BackgroundPlayback = 'loop' | 'sync';
+
+export const BACKGROUND_FIT_OPTIONS: { value: BackgroundFit; label: string }[] = [
+  { value: 'contain', label: '全体を表示' },
+  { value: 'cover', label: '切り抜いて埋める' },
+  { value: 'stretch', label: '引き伸ばす' },
+  { value: 'blurredFill', label: '全体を表示（余白をぼかし画像で埋める）' },
+];
+
+export const BACKGROUND_PLAYBACK_OPTIONS: { value: BackgroundPlayback; label: string }[] = [
+  { value: 'loop', label: 'ループ再生' },
+  { value: 'sync', label: '音声に同期' },
+];
+
+export interface BackgroundSettings {
+  fit: BackgroundFit;
+  playback: BackgroundPlayback; // 動画・アニメーション画像の再生（音声と無関係にループ / 音声の再生位置に合わせる）
+  focusX: number; // 切り抜きの中心（画像の幅に対する%）
+  focusY: number; // 切り抜きの中心（画像の高さに対する%）
+  color: string; // 余白の背景色（#rrggbb）
+  blur: number; // ぼかし塗りのぼかし量（px）
+  kenBurns: boolean; // ゆっくりズーム・パンする
+  kenBurnsDuration: number; // 開始から終了までの秒数（終了後は逆方向に戻る）
+  kenBurnsStartZoom: number;
+  kenBurnsStartX: number; // 開始時の中心（%）
+  kenBurnsStartY: number;
+  kenBurnsEndZoom: number;
+  kenBurnsEndX: number; // 終了時の中心（%）
+  kenBurnsEndY: number;
+}
+
+export const DEFAULT_BACKGROUND: BackgroundSettings = {
+  fit: 'contain',
+  playback: 'loop',
+  focusX: 50,
+  focusY: 50,
+  color: '#222222',
+  blur: 24,
+  kenBurns: false,
+  kenBurnsDuration: 20,
+  kenBurnsStartZoom: 1,
+  kenBurnsStartX: 50,
+  kenBurnsStartY: 50,
+  kenBurnsEndZoom: 1.2,
+  kenBurnsEndX: 50,
+  kenBurnsEndY: 50,
+};
+
+// 調整UIの定義（モード固有パラメータと同じ形式でModeParamControlsに渡す）
+export const BACKGROUND_PARAMS: ModeParamSchema[] = [
+  { type: 'select', key: 'fit', label: 'フィット', options: BACKGROUND_FIT_OPTIONS, default: DEFAULT_BACKGROUND.fit },
+  { type: 'select', key: 'playback', label: '動画・アニメーションの再生', options: BACKGROUND_PLAYBACK_OPTIONS, default: DEFAULT_BACKGROUND.playback },
+  { type: 'number', key: 'focusX', label: '切り抜きの中心 横（%）', min: 0, max: 100, step: 1, default: DEFAULT_BACKGROUND.focusX },
+  { type: 'number', key: 'focusY', label: '切り抜きの中心 縦（%）', min: 0, max: 100, step: 1, default: DEFAULT_BACKGROUND.focusY },
+  { type: 'color', key: 'color', label: '背景色', default: DEFAULT_BACKGROUND.color },
+  { type: 'number', key: 'blur', label: 'ぼかし量（px）', min: 4, max: 64, step: 2, default: DEFAULT_BACKGROUND.blur },
+  { type: 'boolean', key: 'kenBurns', label: 'ケン・バーンズ（ゆっくりズーム・パン）', default: DEFAULT_BACKGROUND.kenBurns },
+  { type: 'number', key: 'kenBurnsDuration', label: '移動時間（秒）', min: 5, max: 120, step: 1, default: DEFAULT_BACKGROUND.kenBurnsDuration },
+  { type: 'number', key: 'kenBurnsStartZoom', label: '開始時の倍率', min: 1, max: 2, step: 0.05, default: DEFAULT_BACKGROUND.kenBurnsStartZoom },
+  { type: 'number', key: 'kenBurnsStartX', label: '開始時の中心 横（%）', min: 0, max: 100, step: 1, default: DEFAULT_BACKGROUND.kenBurnsStartX },
+  { type: 'number', key: 'kenBurnsStartY', label: '開始時の中心 縦（%）', min: 0, max: 100, step: 1, default: DEFAULT_BACKGROUND.kenBurnsStartY },
+  { type: 'number', key: 'kenBurnsEndZoom', label: '終了時の倍率', min: 1, max: 2, step: 0.05, default: DEFAULT_BACKGROUND.kenBurnsEndZoom },
+  { type: 'number', key: 'kenBurnsEndX', label: '終了時の中心 横（%）', min: 0, max: 100, step: 1, default: DEFAULT_BACKGROUND.kenBurnsEndX },
+  { type: 'number', key: 'kenBurnsEndY', label: '終了時の中心 縦（%）', min: 0, max: 100, step: 1, default: DEFAULT_BACKGROUND.kenBurnsEndY },
+];
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 背景として描ける画像（動画・アニメーション画像の場合は現在のフレーム）
+export type BackgroundImage = HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageBitmap;
+
+/**
+ * 画像の大きさ（動画は要素の表示サイズではなく映像の大きさ）
+ */
+export function getImageSize(image: BackgroundImage): [number, number] {
+  // Node.js（CLI）にはHTMLVideoElementがない
+  if (typeof HTMLVideoElement !== 'undefined' && image instanceof HTMLVideoElement) {
+    return [image.videoWidth, image.videoHeight];
+  }
+  return [image.width, image.height];
+}
+
+/**
+ * 保存された設定（未設定の項目を含む）を既定値で補完
+ */
+export function resolveBackground(settings?: Partial<BackgroundSettings>): BackgroundSettings {
+  return { ...DEFAULT_BACKGROUND, ...settings };
+}
+
+/**
+ * キャンバスの1辺に画像を配置する位置
+ * 画像の方が小さい場合は中央に、大きい場合は中心（0〜1）がキャンバスの中央に来るよう端を超えない範囲で寄せる
+ */
+function place(canvasSize: number, size: number, focus: number): number {
+  if (size <= canvasSize) {
+    return (canvasSize - size) / 2;
+  }
+  return Math.min(0, Math.max(canvasSize - size, canvasSize / 2 - focus * size));
+}
+
+/**
+ * 画像を描く矩形（キャンバス座標）
+ * zoomはフィット後の大きさに掛ける倍率、focusX/focusYは画像上の中心（%）
+ */
+export function getImageRect(
+  imageWidth: number,
+  imageHeight: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  fit: BackgroundFit,
+  zoom = 1,
+  focusX = 50,
+  focusY = 50
+): Rect {
+  let width = canvasWidth;
+  let height = canvasHeight;
+  if (fit !== 'stretch') {
+    const scaleX = canvasWidth / imageWidth;
+    const scaleY = canvasHeight / imageHeight;
+    const scale = fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    width = imageWidth * scale;
+    height = imageHeight * scale;
+  }
+  width *= zoom;
+  height *= zoom;
+  return {
+    x: place(canvasWidth, width, focusX / 100),
+    y: place(canvasHeight, height, focusY / 100),
+    width,
+    height,
+  };
+}
+
+/**
+ * 時刻timeでのケン・バーンズの倍率と中心
+ * 開始→終了→開始を往復し、端ではなめらかに減速する（無効の場合は切り抜きの中心のまま）
+ */
+export function getKenBurnsFrame(
+  settings: BackgroundSettings,
+  time: number
+): { zoom: number; focusX: number; focusY: number } {
+  if (!settings.kenBurns) {
+    return { zoom: 1, focusX: settings.focusX, focusY: settings.focusY };
+  }
+  const phase = Math.max(0, time / settings.kenBurnsDuration) % 2;
+  const t = phase <= 1 ? phase : 2 - phase;
+  const k = t * t * (3 - 2 * t);
+  const lerp = (from: number, to: number) => from + (to - from) * k;
+  return {
+    zoom: lerp(settings.kenBurnsStartZoom, settings.kenBurnsEndZoom),
+    focusX: lerp(settings.kenBurnsStartX, settings.kenBurnsEndX),
+    focusY: lerp(settings.kenBurnsStartY, settings.kenBurnsEndY),
+  };
+}
+
+/**
+ * 時刻timeで画像を描く矩形
+ */
+export function getBackgroundRect(
+  image: BackgroundImage,
+  canvasWidth: number,
+  canvasHeight: number,
+  settings: BackgroundSettings,
+  time: number
+): Rect {
+  const { zoom, focusX, focusY } = getKenBurnsFrame(settings, time);
+  const [imageWidth, imageHeight] = getImageSize(image);
+  return getImageRect(imageWidth, imageHeight, canvasWidth, canvasHeight, settings.fit, zoom, focusX, focusY);
+}
+
+// オフスクリーンキャンバスを作る関数（ブラウザ以外ではnode-canvas等のキャンバスを作るものを渡す）
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+/**
+ * DOMのキャンバスを作成（既定のCanvasFactory）
+ */
+export const createDomCanvas: CanvasFactory = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * 大きさを1ピクセル以上の整数に丸めてキャンバスを作成
+ */
+export function createCanvas(canvasFactory: CanvasFactory, width: number, height: number): HTMLCanvasElement {
+  return canvasFactory(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+}
+
+/**
+ * 画像をキャンバス全体を覆うように配置してぼかす
+ * 縮小してから拡大してぼかす（ctx.filterに対応しないブラウザでも同じ見た目になる）
+ */
+function drawBlurredFill(
+  ctx: CanvasRenderingContext2D,
+  image: BackgroundImage,
+  width: number,
+  height: number,
+  settings: BackgroundSettings,
+  canvasFactory: CanvasFactory
+): void {
+  const factor = Math.max(1, settings.blur / 2);
+  const small = createCanvas(canvasFactory, width / factor, height / factor);
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) {
+    return;
+  }
+  const [imageWidth, imageHeight] = getImageSize(image);
+  const rect = getImageRect(imageWidth, imageHeight, small.width, small.height, 'cover', 1, settings.focusX, settings.focusY);
+  smallCtx.imageSmoothingQuality = 'high';
+  smallCtx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+  ctx.save();
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(small, 0, 0, width, height);
+  ctx.restore();
+}
+
+/**
+ * 背景色とぼかし塗りを描画（画像自体は描かない）
+ */
+export function paintBackground(
+  ctx: CanvasRenderingContext2D,
+  image: BackgroundImage,
+  width: number,
+  height: number,
+  settings: BackgroundSettings,
+  canvasFactory: CanvasFactory = createDomCanvas
+): void {
+  ctx.fillStyle = settings.color;
+  ctx.fillRect(0, 0, width, height);
+  if (settings.fit === 'blurredFill') {
+    drawBlurredFill(ctx, image, width, height, settings, canvasFactory);
+  }
+}
+
+/**
+ * 背景のオフスクリーンキャンバスのキャッシュ（画像・キャンバスサイズ・設定が変わった時のみ描き直す）
+ * 描き直すたびに新しいキャンバスを返すので、WebGLはキャンバスが変わった時だけテクスチャを更新すればよい
+ * ただし動画・アニメーション画像のぼかし塗りは毎フレーム同じキャンバスに描き直す
+ */
+export class BackgroundCache {
+  private staticCanvas: HTMLCanvasElement | null = null;
+  private staticKey = '';
+  private staticImage: BackgroundImage | null = null;
+  private motionCanvas: HTMLCanvasElement | null = null;
+  private motionKey = '';
+  private motionImage: BackgroundImage | null = null;
+
+  constructor(readonly canvasFactory: CanvasFactory = createDomCanvas) {}
+
+  /**
+   * 時間で変化しない部分（背景色・ぼかし塗り、静止画でケン・バーンズが無効の場合は画像も）をキャンバス全体に描いたもの
+   * animatedの場合、画像は毎フレーム別に描くため含めない
+   */
+  getStatic(
+    image: BackgroundImage,
+    width: number,
+    height: number,
+    settings: BackgroundSettings,
+    animated = false
+  ): HTMLCanvasElement {
+    const key = [width, height, settings.fit, settings.focusX, settings.focusY, settings.color,
+      settings.blur, settings.kenBurns, animated].join();
+    const cached = this.staticCanvas && this.staticKey === key;
+    if (cached && (animated ? settings.fit !== 'blurredFill' : this.staticImage === image)) {
+      return this.staticCanvas as HTMLCanvasElement;
+    }
+
+    const canvas = cached && animated ? this.staticCanvas as HTMLCanvasElement : createCanvas(this.canvasFactory, width, height);
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (ctx) {
+      paintBackground(ctx, image, width, height, settings, this.canvasFactory);
+      if (!settings.kenBurns && !animated) {
+        const rect = getBackgroundRect(image, width, height, settings, 0);
+        ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+      }
+    }
+
+    this.staticCanvas = canvas;
+    this.staticImage = image;
+    this.staticKey = key;
+    return canvas;
+  }
+
+  /**
+   * ケン・バーンズで毎フレーム描く画像（最大の倍率で描く大きさに縮小したもの）
+   * 大きな画像を毎フレーム拡大縮小したり、そのままテクスチャにしたりしないためのもの
+   */
+  getMotion(
+    image: BackgroundImage,
+    width: number,
+    height: number,
+    settings: BackgroundSettings
+  ): HTMLCanvasElement {
+    const zoom = Math.max(settings.kenBurnsStartZoom, settings.kenBurnsEndZoom);
+    const [imageWidth, imageHeight] = getImageSize(image);
+    const rect = getImageRect(imageWidth, imageHeight, width, height, settings.fit, zoom);
+    const key = [Math.round(rect.width), Math.round(rect.height)].join();
+    if (this.motionCanvas && this.motionImage === image && this.motionKey === key) {
+      return this.motionCanvas;
+    }
+
+    const canvas = createCanvas(this.canvasFactory, rect.width, rect.height);
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    }
+
+    this.motionCanvas = canvas;
+    this.motionImage = image;
+    this.motionKey = key;
+    return canvas;
+  }
+
+  clear(): void {
+    this.staticCanvas = null;
+    this.staticImage = null;
+    this.motionCanvas = null;
+    this.motionImage = null;
+  }
+}
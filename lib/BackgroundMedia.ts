@@ -0,0 +1,282 @@
+/**
+ * 背景の素材（静止画・アニメーション画像・動画）
+ * 描画ループや書き出しから時刻を渡して、その時刻に表示するフレームを取得する
+ */
+
+import type { BackgroundImage, BackgroundPlayback } from './Background';
+
+export interface BackgroundMedia {
+  readonly animated: boolean; // フレームが時間で変わる（レンダラーは背景をキャッシュしない）
+  /**
+   * 時刻time（秒）に表示するフレーム（まだ表示できない場合はnull）
+   * playbackが'loop'の場合は長さで折り返し、'sync'の場合は最後のフレームで止まる（アニメーション画像は常に折り返す）
+   */
+  frameAt(time: number, playback: BackgroundPlayback): BackgroundImage | null;
+  /**
+   * 書き出し用：frameAtで時刻timeのフレームを正確に返せるまで待つ（動画のシークなど）
+   */
+  seek(time: number, playback: BackgroundPlayback): Promise<void>;
+  /**
+   * 書き出し用に、プレビューの再生と干渉しない独立したインスタンスを作成
+   */
+  clone(): Promise<BackgroundMedia>;
+  dispose(): void;
+}
+
+// アニメーション画像の1フレーム
+interface AnimationFrame {
+  bitmap: ImageBitmap;
+  start: number; // 秒
+}
+
+// アニメーション画像のフレームの最大サイズ（全フレームをメモリに展開するため縮小する）
+const MAX_FRAME_SIZE = 2048;
+// 表示時間が0のフレーム（GIFでよくある）の表示時間（秒）。ブラウザの表示に合わせる
+const DEFAULT_FRAME_DURATION = 0.1;
+// プレビューで動画の再生位置がこれ以上ずれたらシークして合わせる（秒）
+const MAX_VIDEO_DRIFT = 0.25;
+// 書き出しで動画のシークの完了を待つ最大時間（ミリ秒、超えた場合は書き出しを失敗させる）
+const VIDEO_SEEK_TIMEOUT = 10000;
+
+/**
+ * 静止画
+ */
+export class StillMedia implements BackgroundMedia {
+  readonly animated = false;
+
+  constructor(private image: HTMLImageElement) {}
+
+  frameAt(): BackgroundImage {
+    return this.image;
+  }
+
+  async seek(): Promise<void> {
+    // 何もしない
+  }
+
+  async clone(): Promise<BackgroundMedia> {
+    return this;
+  }
+
+  dispose(): void {
+    // 何もしない
+  }
+}
+
+/**
+ * アニメーション画像（GIF・WebP・APNG）
+ * ImageDecoderで全フレームをImageBitmapに展開しておき、時刻から表示するフレームを探す
+ */
+export class AnimatedImageMedia implements BackgroundMedia {
+  readonly animated = true;
+
+  // ownsFramesがfalseの場合（clone()で作成）はdisposeでフレームを解放しない
+  constructor(private frames: AnimationFrame[], private duration: number, private ownsFrames = true) {}
+
+  frameAt(time: number): BackgroundImage | null {
+    if (this.frames.length === 0) {
+      return null;
+    }
+    const t = ((time % this.duration) + this.duration) % this.duration;
+    // startがt以下の最後のフレームを二分探索
+    let low = 0;
+    let high = this.frames.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.frames[mid].start <= t) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return this.frames[low].bitmap;
+  }
+
+  async seek(): Promise<void> {
+    // 展開済みなので何もしない
+  }
+
+  async clone(): Promise<BackgroundMedia> {
+    // フレームは読み取りのみなので共有する
+    return new AnimatedImageMedia(this.frames, this.duration, false);
+  }
+
+  dispose(): void {
+    if (this.ownsFrames) {
+      for (const frame of this.frames) {
+        frame.bitmap.close();
+      }
+    }
+    this.frames = [];
+  }
+}
+
+/**
+ * 動画
+ * プレビュー（realtime）では要素を再生し、ずれが大きい場合だけシークする。
+ * 書き出しではフレームごとにシークしてから描画する
+ */
+export class VideoMedia implements BackgroundMedia {
+  readonly animated = true;
+  private lastTime: number | null = null;
+
+  // ownsSourceがtrueの場合（ファイルから読み込んだ元のインスタンス）はdisposeでBlob URLを解放する
+  // clone()で作成したものは元のURLを共有するため解放しない
+  constructor(private video: HTMLVideoElement, private realtime: boolean, private ownsSource = false) {}
+
+  frameAt(time: number, playback: BackgroundPlayback): BackgroundImage | null {
+    const { video } = this;
+    if (this.realtime) {
+      const target = this.targetTime(time, playback);
+      // 時刻が進んでいる間だけ再生し、止まっている（音声が停止中など）場合は一時停止する
+      const advancing = this.lastTime !== null && time > this.lastTime && target < video.duration;
+      this.lastTime = time;
+      if (advancing && video.paused) {
+        video.play().catch(() => {
+          // 自動再生が許可されない場合は、ずれの補正によるシークだけで表示する
+        });
+      } else if (!advancing && !video.paused) {
+        video.pause();
+      }
+      if (!video.seeking && this.drift(video.currentTime, target, playback) > MAX_VIDEO_DRIFT) {
+        video.currentTime = target;
+      }
+    }
+    return video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA ? video : null;
+  }
+
+  async seek(time: number, playback: BackgroundPlayback): Promise<void> {
+    const { video } = this;
+    const target = this.targetTime(time, playback);
+    if (Math.abs(video.currentTime - target) < 1e-3 && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      return;
+    }
+    // シークに失敗した場合や完了しない場合に書き出しが止まらないよう、エラー・時間切れで失敗させる
+    await new Promise<void>((resolve, reject) => {
+      const finish = (error: Error | null) => {
+        window.clearTimeout(timer);
+        video.removeEventListener('seeked', onSeeked);
+        video.removeEventListener('error', onError);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const onSeeked = () => finish(null);
+      const onError = () => finish(new Error('動画のシークに失敗しました'));
+      const timer = window.setTimeout(() => finish(new Error('動画のシークが時間内に完了しませんでした')), VIDEO_SEEK_TIMEOUT);
+      video.addEventListener('seeked', onSeeked);
+      video.addEventListener('error', onError);
+      video.currentTime = target;
+    });
+  }
+
+  async clone(): Promise<BackgroundMedia> {
+    return new VideoMedia(await loadVideo(this.video.src), false);
+  }
+
+  dispose(): void {
+    const { src } = this.video;
+    this.video.pause();
+    this.video.removeAttribute('src');
+    this.video.load();
+    if (this.ownsSource) {
+      URL.revokeObjectURL(src);
+    }
+  }
+
+  private targetTime(time: number, playback: BackgroundPlayback): number {
+    const { duration } = this.video;
+    if (!Number.isFinite(duration) || duration <= 0) {
+      return 0;
+    }
+    if (playback === 'sync') {
+      return Math.min(Math.max(time, 0), duration);
+    }
+    return ((time % duration) + duration) % duration;
+  }
+
+  // 再生位置のずれ（ループ再生では折り返しをまたぐ方向も考慮）
+  private drift(current: number, target: number, playback: BackgroundPlayback): number {
+    const diff = Math.abs(current - target);
+    return playback === 'loop' ? Math.min(diff, this.video.duration - diff) : diff;
+  }
+}
+
+/**
+ * 動画要素を作成して最初のフレームを表示できるまで待つ
+ */
+function loadVideo(src: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('動画の読み込みに失敗しました'));
+    video.src = src;
+  });
+}
+
+/**
+ * 動画ファイルを背景として読み込む
+ */
+export async function loadVideoMedia(file: File): Promise<VideoMedia> {
+  const url = URL.createObjectURL(file);
+  try {
+    return new VideoMedia(await loadVideo(url), true, true);
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+}
+
+/**
+ * アニメーション画像をデコード
+ * ImageDecoderに対応していない場合や、アニメーションでない画像の場合はnull
+ */
+export async function decodeAnimatedImage(file: File): Promise<AnimatedImageMedia | null> {
+  if (!('ImageDecoder' in window) || !file.type || !(await ImageDecoder.isTypeSupported(file.type))) {
+    return null;
+  }
+
+  const decoder = new ImageDecoder({ type: file.type, data: await file.arrayBuffer() });
+  const frames: AnimationFrame[] = [];
+  try {
+    await decoder.tracks.ready;
+    const track = decoder.tracks.selectedTrack;
+    if (!track || !track.animated) {
+      return null;
+    }
+    // フレーム数はデータをすべて読み込むまで確定しない
+    await decoder.completed;
+    if (track.frameCount <= 1) {
+      return null;
+    }
+
+    let start = 0;
+    for (let i = 0; i < track.frameCount; i++) {
+      const { image } = await decoder.decode({ frameIndex: i });
+      const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(image.displayWidth, image.displayHeight));
+      // VideoFrameはcreateImageBitmapに渡せるが、型定義のImageBitmapSourceには含まれていない
+      const bitmap = await createImageBitmap(image as unknown as ImageBitmapSource, {
+        resizeWidth: Math.round(image.displayWidth * scale),
+        resizeHeight: Math.round(image.displayHeight * scale),
+        resizeQuality: 'high',
+      });
+      frames.push({ bitmap, start });
+      // durationはマイクロ秒
+      start += image.duration ? image.duration / 1e6 : DEFAULT_FRAME_DURATION;
+      image.close();
+    }
+    return new AnimatedImageMedia(frames, start);
+  } catch (error) {
+    for (const frame of frames) {
+      frame.bitmap.close();
+    }
+    throw error;
+  } finally {
+    decoder.close();
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * バーの時間方向の動き（アタック/リリースの平滑化、ピークホールドと重力による落下）
+ * 経過時間はフレームの時刻から求めるため、同じ入力と時刻の列からは常に同じ結果になる
+ * （オフライン書き出しでは再生速度に関係なく、プレビューと同じ動きを再現できる）
+ */
+
+export interface BarDynamicsOptions {
+  attack: number; // 上昇の時定数（秒、0で即時）
+  release: number; // 下降の時定数（秒、0で即時）
+  peakHoldTime: number; // ピークを保持する時間（秒）
+  gravity: number; // 保持後のピークの落下加速度（値/秒²）
+}
+
+// 時刻が飛んだ（シーク・一時停止など）とみなす間隔（秒）
+const MAX_FRAME_INTERVAL = 1;
+
+export class BarDynamics {
+  values = new Float32Array(0);
+  peaks = new Float32Array(0);
+
+  private peakTimes = new Float64Array(0);
+  private peakVelocities = new Float32Array(0);
+  private lastTime: number | null = null;
+
+  /**
+   * 最新のバーの値でtime（秒）時点の状態に更新
+   */
+  update(targets: ArrayLike<number>, time: number, options: BarDynamicsOptions): void {
+    const count = targets.length;
+    const elapsed = this.lastTime === null ? null : time - this.lastTime;
+    this.lastTime = time;
+
+    // バー本数が変わった場合や時刻が飛んだ場合は、平滑化せず現在の値から始める
+    if (count !== this.values.length || elapsed === null || elapsed < 0 || elapsed > MAX_FRAME_INTERVAL) {
+      this.reset(targets, time);
+      return;
+    }
+
+    const attack = smoothingFactor(elapsed, options.attack);
+    const release = smoothingFactor(elapsed, options.release);
+
+    for (let i = 0; i < count; i++) {
+      const target = targets[i];
+      const value = this.values[i];
+      this.values[i] = value + (target - value) * (target > value ? attack : release);
+
+      const current = this.values[i];
+      if (current >= this.peaks[i]) {
+        this.peaks[i] = current;
+        this.peakTimes[i] = time;
+        this.peakVelocities[i] = 0;
+      } else if (time - this.peakTimes[i] > options.peakHoldTime) {
+        this.peakVelocities[i] += options.gravity * elapsed;
+        this.peaks[i] = Math.max(current, this.peaks[i] - this.peakVelocities[i] * elapsed);
+      }
+    }
+  }
+
+  private reset(targets: ArrayLike<number>, time: number): void {
+    const count = targets.length;
+    this.values = Float32Array.from(targets);
+    this.peaks = Float32Array.from(targets);
+    this.peakTimes = new Float64Array(count).fill(time);
+    this.peakVelocities = new Float32Array(count);
+  }
+}
+
+/**
+ * 時定数timeConstantの指数平滑化で、elapsed秒の間に目標値へ近づく割合
+ */
+function smoothingFactor(elapsed: number, timeConstant: number): number {
+  return timeConstant > 0 ? 1 - Math.exp(-elapsed / timeConstant) : 1;
+}
@@ -0,0 +1,178 @@
+/**
+ * スペクトラルフラックスによるオンセット（ビート）検出とテンポ推定
+ * フレームごとの周波数データ（getByteFrequencyDataの値）と時刻を入力し、
+ * 直近の平均・標準偏差から求めた適応的な閾値を超えたときにビートとして通知する
+ * 時刻は入力された値だけを使うため、オフライン書き出しでも同じ入力から同じ結果になる
+ */
+
+export interface BeatEvent {
+  time: number; // 秒
+  strength: number; // 0〜1
+  bpm: number | null; // 推定テンポ（推定できない間はnull）
+}
+
+export interface BeatDetectorOptions {
+  sensitivity?: number; // 閾値 = 平均 + sensitivity × 標準偏差
+  thresholdWindow?: number; // 閾値の計算に使う期間（秒）
+  minInterval?: number; // オンセット同士の最小間隔（秒）
+}
+
+type BeatListener = (event: BeatEvent) => void;
+
+const DEFAULT_SENSITIVITY = 1.5;
+const DEFAULT_THRESHOLD_WINDOW = 1;
+const DEFAULT_MIN_INTERVAL = 0.1;
+// 無音付近で誤検出しないためのフラックスの下限
+const MIN_FLUX = 1;
+// テンポ推定に使う期間（秒）と範囲（BPM）
+const TEMPO_WINDOW = 8;
+const MIN_BPM = 80;
+const MAX_BPM = 160;
+
+export class BeatDetector {
+  sensitivity: number;
+  thresholdWindow: number;
+  minInterval: number;
+
+  private previous: Float32Array | null = null;
+  private history: { time: number; flux: number }[] = [];
+  private onsets: number[] = [];
+  private lastOnset = -Infinity;
+  private tempo: number | null = null;
+  private listeners = new Set<BeatListener>();
+
+  constructor(options: BeatDetectorOptions = {}) {
+    this.sensitivity = options.sensitivity ?? DEFAULT_SENSITIVITY;
+    this.thresholdWindow = options.thresholdWindow ?? DEFAULT_THRESHOLD_WINDOW;
+    this.minInterval = options.minInterval ?? DEFAULT_MIN_INTERVAL;
+  }
+
+  /**
+   * ビートの通知を購読（戻り値の関数で解除）
+   */
+  onBeat(listener: BeatListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get bpm(): number | null {
+    return this.tempo;
+  }
+
+  /**
+   * 1フレーム分の周波数データを処理し、ビートを検出した場合はそのイベントを返す
+   */
+  process(spectrum: ArrayLike<number>, time: number): BeatEvent | null {
+    // 時刻が戻った場合（シーク・再生し直し）は状態を破棄
+    const last = this.history[this.history.length - 1];
+    if (last && time < last.time) {
+      this.reset();
+    }
+
+    const flux = this.computeFlux(spectrum);
+
+    // 直近の期間のフラックスから適応的な閾値を計算（今回の値は含めない）
+    while (this.history.length > 0 && this.history[0].time < time - this.thresholdWindow) {
+      this.history.shift();
+    }
+    let mean = 0;
+    for (const entry of this.history) {
+      mean += entry.flux;
+    }
+    mean = this.history.length > 0 ? mean / this.history.length : flux;
+    let variance = 0;
+    for (const entry of this.history) {
+      variance += (entry.flux - mean) * (entry.flux - mean);
+    }
+    const deviation = this.history.length > 0 ? Math.sqrt(variance / this.history.length) : 0;
+    const threshold = Math.max(MIN_FLUX, mean + this.sensitivity * deviation);
+    this.history.push({ time, flux });
+
+    if (flux <= threshold || time - this.lastOnset < this.minInterval) {
+      return null;
+    }
+
+    this.lastOnset = time;
+    this.onsets.push(time);
+    while (this.onsets.length > 0 && this.onsets[0] < time - TEMPO_WINDOW) {
+      this.onsets.shift();
+    }
+    this.tempo = estimateTempo(this.onsets);
+
+    const event: BeatEvent = {
+      time,
+      strength: Math.min(1, flux / (threshold * 2)),
+      bpm: this.tempo,
+    };
+    this.listeners.forEach((listener) => listener(event));
+    return event;
+  }
+
+  reset(): void {
+    this.previous = null;
+    this.history = [];
+    this.onsets = [];
+    this.lastOnset = -Infinity;
+    this.tempo = null;
+  }
+
+  // 前フレームから増加した成分の合計（ビンあたりの平均）
+  private computeFlux(spectrum: ArrayLike<number>): number {
+    const length = spectrum.length;
+    if (!this.previous || this.previous.length !== length) {
+      this.previous = Float32Array.from(spectrum);
+      return 0;
+    }
+
+    let flux = 0;
+    for (let i = 0; i < length; i++) {
+      const difference = spectrum[i] - this.previous[i];
+      if (difference > 0) {
+        flux += difference;
+      }
+      this.previous[i] = spectrum[i];
+    }
+    return flux / length;
+  }
+}
+
+/**
+ * オンセット時刻の間隔からテンポを推定
+ * 近いオンセット同士の間隔をMIN_BPM〜MAX_BPMの範囲に折り返して投票し、最も票の多いBPMを返す
+ */
+export function estimateTempo(onsets: number[]): number | null {
+  if (onsets.length < 4) {
+    return null;
+  }
+
+  const votes = new Float32Array(MAX_BPM - MIN_BPM);
+  for (let i = 0; i < onsets.length; i++) {
+    for (let j = i + 1; j < onsets.length && j <= i + 4; j++) {
+      const interval = onsets[j] - onsets[i];
+      if (interval <= 0) continue;
+      let bpm = 60 / interval;
+      while (bpm < MIN_BPM) bpm *= 2;
+      while (bpm >= MAX_BPM) bpm /= 2;
+
+      // 近いオンセット同士の間隔ほど重く、隣のBPMにも少し投票して量子化誤差をならす
+      const weight = 1 / (j - i);
+      const index = Math.round(bpm) - MIN_BPM;
+      for (let offset = -1; offset <= 1; offset++) {
+        const k = index + offset;
+        if (k >= 0 && k < votes.length) {
+          votes[k] += offset === 0 ? weight : weight / 2;
+        }
+      }
+    }
+  }
+
+  let best = -1;
+  for (let k = 0; k < votes.length; k++) {
+    if (votes[k] > 0 && (best < 0 || votes[k] > votes[best])) {
+      best = k;
+    }
+  }
+  return best < 0 ? null : best + MIN_BPM;
+}
@@ -0,0 +1,138 @@
+/**
+ * ビートに合わせた映像の反応（パルス・背景ズーム・フラッシュ・カメラの揺れ）
+ * BeatDetectorのビート通知を購読し、直近のビートからの経過時間で減衰する量を各レンダラーに渡す
+ */
+
+import { BeatDetector, type BeatEvent } from './BeatDetector';
+import type { NumberModeParam } from './SpectrumModes';
+import type { ModeAdjustments, SpectrumFrame } from './SpectrumRenderer';
+
+export interface BeatReactionSettings {
+  sensitivity: number; // 検出の感度（閾値の標準偏差の倍率、小さいほど反応しやすい）
+  pulse: number; // スペクトラムの拡大率（0〜0.5）
+  zoom: number; // 画像・動画レイヤーの拡大率（0〜0.3）
+  flash: number; // フラッシュの不透明度（0〜1）
+  shake: number; // 揺れの大きさ（px）
+  decay: number; // 反応が減衰する時定数（ms）
+}
+
+export const DEFAULT_BEAT_REACTIONS: BeatReactionSettings = {
+  sensitivity: 1.5,
+  pulse: 0,
+  zoom: 0,
+  flash: 0,
+  shake: 0,
+  decay: 200,
+};
+
+// 調整UIの定義（モード固有パラメータと同じ形式でModeParamControlsに渡す）
+export const BEAT_REACTION_PARAMS: NumberModeParam[] = [
+  { key: 'sensitivity', type: 'number', label: '感度（閾値）', min: 1, max: 3, step: 0.1, default: DEFAULT_BEAT_REACTIONS.sensitivity },
+  { key: 'pulse', type: 'number', label: 'パルス', min: 0, max: 0.5, step: 0.01, default: DEFAULT_BEAT_REACTIONS.pulse },
+  { key: 'zoom', type: 'number', label: '背景ズーム', min: 0, max: 0.3, step: 0.01, default: DEFAULT_BEAT_REACTIONS.zoom },
+  { key: 'flash', type: 'number', label: 'フラッシュ', min: 0, max: 1, step: 0.05, default: DEFAULT_BEAT_REACTIONS.flash },
+  { key: 'shake', type: 'number', label: '揺れ（px）', min: 0, max: 50, step: 1, default: DEFAULT_BEAT_REACTIONS.shake },
+  { key: 'decay', type: 'number', label: '減衰（ms）', min: 50, max: 1000, step: 10, default: DEFAULT_BEAT_REACTIONS.decay },
+];
+
+// 1フレームで適用する反応の量
+export interface BeatReactionValues {
+  pulse: number; // スペクトラムの倍率に加算
+  zoom: number; // 画像・動画レイヤーの倍率に加算
+  flash: number; // 白のオーバーレイの不透明度
+  shakeX: number; // px
+  shakeY: number; // px
+}
+
+export const NO_BEAT_REACTION: BeatReactionValues = {
+  pulse: 0,
+  zoom: 0,
+  flash: 0,
+  shakeX: 0,
+  shakeY: 0,
+};
+
+// 揺れの振動数（Hz）
+const SHAKE_FREQUENCY = 12;
+
+/**
+ * フレームの入力からビートを検出し、反応の量を計算する
+ * レンダラーごとに1つ持ち、毎フレームupdate()を呼ぶ
+ */
+export class BeatReactor {
+  private detector = new BeatDetector();
+  private lastBeat: BeatEvent | null = null;
+  private spectrum = new Uint8Array(0);
+
+  constructor() {
+    this.detector.onBeat((event) => {
+      this.lastBeat = event;
+    });
+  }
+
+  onBeat(listener: (event: BeatEvent) => void): () => void {
+    return this.detector.onBeat(listener);
+  }
+
+  get bpm(): number | null {
+    return this.detector.bpm;
+  }
+
+  /**
+   * フレームのスペクトラムでビート検出を進め、このフレームの反応を返す
+   */
+  update(frame: SpectrumFrame): BeatReactionValues {
+    const source = frame.beatSource ?? frame.source;
+    const settings = frame.scene.beat;
+    if (!source) {
+      return NO_BEAT_REACTION;
+    }
+
+    if (this.spectrum.length !== source.frequencyBinCount) {
+      this.spectrum = new Uint8Array(source.frequencyBinCount);
+    }
+    source.getByteFrequencyData(this.spectrum);
+    this.detector.sensitivity = settings?.sensitivity ?? DEFAULT_BEAT_REACTIONS.sensitivity;
+    this.detector.process(this.spectrum, frame.time);
+
+    const beat = this.lastBeat;
+    if (!settings || !beat || frame.time < beat.time) {
+      return NO_BEAT_REACTION;
+    }
+
+    const elapsed = frame.time - beat.time;
+    const level = beat.strength * Math.exp(-elapsed / Math.max(0.001, settings.decay / 1000));
+    // 揺れの向きはビートの時刻から決める（同じ入力なら書き出しでも同じ揺れになる）
+    const angle = ((beat.time * 1000) % 360) * (Math.PI / 180);
+    const wave = Math.sin(2 * Math.PI * SHAKE_FREQUENCY * elapsed);
+    const shake = settings.shake * level * wave;
+
+    return {
+      pulse: settings.pulse * level,
+      zoom: settings.zoom * level,
+      flash: settings.flash * level,
+      shakeX: Math.cos(angle) * shake,
+      shakeY: Math.sin(angle) * shake,
+    };
+  }
+
+  reset(): void {
+    this.detector.reset();
+    this.lastBeat = null;
+  }
+}
+
+/**
+ * パルスをスペクトラムの表示調整（倍率）に反映する
+ */
+export function applyPulse(adjustments: ModeAdjustments, reactions: BeatReactionValues): ModeAdjustments {
+  if (reactions.pulse === 0) {
+    return adjustments;
+  }
+  const scale = 1 + reactions.pulse;
+  return {
+    ...adjustments,
+    scaleX: adjustments.scaleX * scale,
+    scaleY: adjustments.scaleY * scale,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * 書き出す動画のチャプター
+ * プレイリストの曲の区間とタイムラインの目印を、書き出す範囲の先頭からの時刻にまとめ、
+ * 動画サイトの説明欄に貼るテキストとMP4のチャプター（メタデータ）に使う
+ */
+
+import type { PlaylistChapter } from './Playlist';
+import type { TimelineMarker } from './Timeline';
+
+export interface Chapter {
+  start: number; // 秒（書き出す動画の先頭から）
+  end: number; // 秒
+  title: string;
+}
+
+// 動画サイト（YouTube）がチャプターとして認識する条件
+const MIN_CHAPTER_COUNT = 3;
+const MIN_CHAPTER_LENGTH = 10; // 秒
+
+/**
+ * 書き出す範囲（曲の時刻start〜end）のチャプター
+ * プレイリストの曲と目印を時刻順に並べ、同じ時刻の場合は目印を使う
+ * 最初のチャプターが範囲の先頭から始まらない場合は、先頭にdefaultTitleのチャプターを加える
+ */
+export function getOutputChapters(
+  playlistChapters: PlaylistChapter[],
+  markers: TimelineMarker[],
+  start: number,
+  end: number,
+  defaultTitle: string
+): Chapter[] {
+  const points = [
+    ...playlistChapters.map((chapter) => ({
+      time: chapter.start,
+      title: [chapter.info.artist, chapter.info.title].filter(Boolean).join(' - '),
+    })),
+    ...markers.map((marker) => ({ time: marker.time, title: marker.title })),
+  ]
+    // 範囲より前の点は範囲の先頭に寄せる（範囲の先頭で続いている曲・区間を最初のチャプターにする）
+    .map((point) => ({ ...point, original: point.time, time: Math.max(point.time, start) - start }))
+    .filter((point) => point.time < end - start)
+    // 時刻順に並べ、同じ時刻では元の時刻が遅いもの（同じ場合は目印）を残す
+    .sort((a, b) => a.time - b.time || a.original - b.original)
+    .filter((point, index, sorted) => sorted[index + 1]?.time !== point.time)
+    .map(({ time, title }) => ({ time, title }));
+  if (points.length === 0) {
+    return [];
+  }
+  if (points[0].time > 0) {
+    points.unshift({ time: 0, title: defaultTitle });
+  }
+  return points.map((point, index) => ({
+    start: point.time,
+    end: points[index + 1]?.time ?? end - start,
+    title: point.title,
+  }));
+}
+
+/**
+ * チャプターの時刻（1時間未満は「分:秒」、1時間以上を含む場合は「時:分:秒」）
+ */
+function formatChapterTime(seconds: number, hours: boolean): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+  const s = String(total % 60).padStart(2, '0');
+  return hours ? `${h}:${m}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * 動画サイトの説明欄に貼るチャプターのテキスト（1行に「00:00 タイトル」）
+ */
+export function formatChapterText(chapters: Chapter[]): string {
+  const hours = chapters.some((chapter) => chapter.start >= 3600);
+  return chapters.map((chapter) => `${formatChapterTime(chapter.start, hours)} ${chapter.title}`).join('\n');
+}
+
+/**
+ * 動画サイトがチャプターとして認識する条件（3つ以上、それぞれ10秒以上）を満たすか
+ */
+export function isValidYouTubeChapters(chapters: Chapter[]): boolean {
+  return (
+    chapters.length >= MIN_CHAPTER_COUNT &&
+    chapters.every((chapter) => chapter.end - chapter.start >= MIN_CHAPTER_LENGTH)
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * スペクトログラム用のカラーマップ
+ * 0〜255の強度を色に対応させる256段階のルックアップテーブルを作る
+ */
+
+import { hexToRgba, sampleGradient, type GradientStop, type Rgba } from './DrawSurface';
+
+export type Colormap = 'viridis' | 'magma' | 'grayscale';
+
+export const COLORMAP_OPTIONS: { value: Colormap; label: string }[] = [
+  { value: 'viridis', label: 'Viridis' },
+  { value: 'magma', label: 'Magma' },
+  { value: 'grayscale', label: 'グレースケール' },
+];
+
+// matplotlibのカラーマップを等間隔に10点サンプリングした値
+const COLORMAP_STOPS: Record<Colormap, string[]> = {
+  viridis: ['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725'],
+  magma: ['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#feca8d', '#fcfdbf'],
+  grayscale: ['#000000', '#ffffff'],
+};
+
+const lutCache = new Map<Colormap, Uint8Array>();
+
+/**
+ * カラーマップのルックアップテーブル（256色 × RGBA、各0〜255）を取得
+ */
+export function getColormapLut(colormap: Colormap): Uint8Array {
+  let lut = lutCache.get(colormap);
+  if (lut) {
+    return lut;
+  }
+
+  const colors = COLORMAP_STOPS[colormap] ?? COLORMAP_STOPS.grayscale;
+  const stops: GradientStop[] = colors.map((hex, i) => ({
+    offset: i / (colors.length - 1),
+    color: hexToRgba(hex, 1),
+  }));
+  lut = new Uint8Array(256 * 4);
+  for (let i = 0; i < 256; i++) {
+    const color = sampleGradient(stops, i / 255);
+    for (let channel = 0; channel < 4; channel++) {
+      lut[i * 4 + channel] = Math.round(color[channel] * 255);
+    }
+  }
+  lutCache.set(colormap, lut);
+  return lut;
+}
+
+/**
+ * 強度（0〜255）に対応する色
+ */
+export function colormapColor(colormap: Colormap, value: number, alpha: number): Rgba {
+  const lut = getColormapLut(colormap);
+  const index = Math.max(0, Math.min(255, Math.round(value))) * 4;
+  return [lut[index] / 255, lut[index + 1] / 255, lut[index + 2] / 255, alpha];
+}
@@ -0,0 +1,126 @@
+/**
+ * レンダラー共通の描画プリミティブ
+ * Canvas 2Dのサブセット（変換スタック + 塗り/線）を定義し、各モードの描画コードを
+ * Canvas 2D・WebGLの両バックエンドで共有できるようにする
+ */
+
+// RGBA（各成分0〜1）
+export type Rgba = [number, number, number, number];
+
+export interface GradientStop {
+  offset: number; // 0〜1
+  color: Rgba;
+}
+
+// 線形グラデーション（座標は描画時のローカル座標系）
+export interface LinearGradient {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  stops: GradientStop[];
+}
+
+export type Paint = Rgba | LinearGradient;
+
+// 2Dアフィン変換行列 [a, b, c, d, e, f]（Canvas 2DのsetTransformと同じ並び）
+export type Transform = [number, number, number, number, number, number];
+
+// 下の描画との合成方法（Canvas 2DのglobalCompositeOperationのsource-over / lighter / multiply / screenに相当）
+export type BlendMode = 'normal' | 'add' | 'multiply' | 'screen';
+
+export const BLEND_MODE_OPTIONS: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: '通常' },
+  { value: 'add', label: '加算' },
+  { value: 'multiply', label: '乗算' },
+  { value: 'screen', label: 'スクリーン' },
+];
+
+export interface DrawSurface {
+  readonly width: number;
+  readonly height: number;
+  // 以降の描画に掛ける不透明度（0〜1）と合成方法。変換と同じくsave/restoreで保存・復元される
+  globalAlpha: number;
+  blendMode: BlendMode;
+
+  // 変換スタック（Canvas 2Dと同じ意味）
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  scale(x: number, y: number): void;
+  rotate(angle: number): void;
+  getTransform(): Transform;
+
+  fillRect(x: number, y: number, width: number, height: number, paint: Paint): void;
+  // 凸多角形 [x1, y1, x2, y2, ...]
+  fillPolygon(points: number[], paint: Paint): void;
+  fillCircle(x: number, y: number, radius: number, color: Rgba): void;
+  // 折れ線 [x1, y1, x2, y2, ...]
+  strokePolyline(points: number[], color: Rgba, lineWidth: number): void;
+}
+
+/**
+ * グラデーションかどうか判定
+ */
+export function isGradient(paint: Paint): paint is LinearGradient {
+  return !Array.isArray(paint);
+}
+
+/**
+ * HSLA → RGBA（h: 度, s/l: 0〜1）
+ */
+export function hsla(h: number, s: number, l: number, a: number): Rgba {
+  h = (((h % 360) + 360) % 360) / 360;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+
+  return [hueToRgb(p, q, h + 1 / 3), hueToRgb(p, q, h), hueToRgb(p, q, h - 1 / 3), a];
+}
+
+function hueToRgb(p: number, q: number, t: number): number {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+  return p;
+}
+
+/**
+ * #rrggbb → RGBA
+ */
+export function hexToRgba(hex: string, alpha: number): Rgba {
+  const value = parseInt(hex.slice(1), 16);
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255, alpha];
+}
+
+/**
+ * RGBA → CSSの色文字列
+ */
+export function rgbaToCss([r, g, b, a]: Rgba): string {
+  return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${a})`;
+}
+
+/**
+ * グラデーション上の位置（0〜1、範囲外は端の色）の色を取得
+ */
+export function sampleGradient(stops: GradientStop[], t: number): Rgba {
+  if (t <= stops[0].offset) {
+    return stops[0].color;
+  }
+  for (let i = 1; i < stops.length; i++) {
+    const prev = stops[i - 1];
+    const next = stops[i];
+    if (t <= next.offset) {
+      const span = next.offset - prev.offset;
+      const k = span > 0 ? (t - prev.offset) / span : 1;
+      return [
+        prev.color[0] + (next.color[0] - prev.color[0]) * k,
+        prev.color[1] + (next.color[1] - prev.color[1]) * k,
+        prev.color[2] + (next.color[2] - prev.color[2]) * k,
+        prev.color[3] + (next.color[3] - prev.color[3]) * k,
+      ];
+    }
+  }
+  return stops[stops.length - 1].color;
+}
@@ -1,17 +1,55 @@
 import { createFFmpeg } from "@ffmpeg/ffmpeg";
+import type { Mp4Metadata } from "./Mp4Muxer";
 
 const ffmpegCoreVersion = "0.10.0";
 const corePath = `https://unpkg.com/@ffmpeg/core@${ffmpegCoreVersion}/dist/ffmpeg-core.js`;
+const metadataName = "metadata.txt";
+
+// FFMETADATAの値の特殊文字（= ; # \ 改行）をエスケープ
+function escapeMetadata(value: string): string {
+  return value.replace(/[=;#\\\n]/g, (c) => "\\" + c);
+}
+
+// 曲名などとチャプターをFFMETADATA形式にする（空の項目は書かない）
+function createMetadataFile({ chapters = [], ...tags }: Mp4Metadata): string {
+  const lines = [";FFMETADATA1"];
+  for (const [key, value] of Object.entries(tags)) {
+    if (value) {
+      lines.push(`${key}=${escapeMetadata(value)}`);
+    }
+  }
+  for (const chapter of chapters) {
+    lines.push(
+      "[CHAPTER]",
+      "TIMEBASE=1/1000",
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round(chapter.end * 1000)}`,
+      `title=${escapeMetadata(chapter.title)}`
+    );
+  }
+  return lines.join("\n") + "\n";
+}
 
 export async function generateMp4Video(
   binaryData: Uint8Array,
   webmName: string,
-  mp4Name: string
+  mp4Name: string,
+  metadata: Mp4Metadata = {}
 ) {
   const ffmpeg = createFFmpeg({ corePath, log: true });
   await ffmpeg.load();
   ffmpeg.FS("writeFile", webmName, binaryData);
-  await ffmpeg.run("-i", webmName, "-vcodec", "copy", mp4Name);
+  // 曲名・チャプターなどはメタデータのファイルから読み込んでMP4に書き込む
+  ffmpeg.FS("writeFile", metadataName, new TextEncoder().encode(createMetadataFile(metadata)));
+  await ffmpeg.run(
+    "-i", webmName,
+    "-i", metadataName,
+    "-map", "0",
+    "-map_metadata", "1",
+    "-map_chapters", "1",
+    "-vcodec", "copy",
+    mp4Name
+  );
   const videoUint8Array = ffmpeg.FS("readFile", mp4Name);
   try {
     ffmpeg.exit();
@@ -0,0 +1,61 @@
+/**
+ * テキストレイヤーのフォント
+ * 組み込みの総称フォントと、ユーザーが読み込んだフォントファイル（FontFace APIでdocument.fontsに登録）を扱う
+ */
+
+// 組み込みのフォント（CSSの総称フォント名）
+export const BUILTIN_FONT_OPTIONS: { value: string; label: string }[] = [
+  { value: 'sans-serif', label: 'ゴシック' },
+  { value: 'serif', label: '明朝' },
+  { value: 'monospace', label: '等幅' },
+];
+
+// 読み込んだフォントのファミリー名（読み込み順）
+const loadedFamilies: string[] = [];
+// フォントを読み込むたびに増える（テキストの画像のキャッシュを作り直すために使う）
+let fontsVersion = 0;
+
+export function getFontsVersion(): number {
+  return fontsVersion;
+}
+
+/**
+ * フォントの選択肢（組み込み + 読み込んだフォント）
+ * currentが選択肢にない場合（保存されたシーンのフォントをまだ読み込んでいないなど）は末尾に加える
+ */
+export function getFontOptions(current?: string): { value: string; label: string }[] {
+  const options = [
+    ...BUILTIN_FONT_OPTIONS,
+    ...loadedFamilies.map((family) => ({ value: family, label: family })),
+  ];
+  if (current && !options.some((option) => option.value === current)) {
+    options.push({ value: current, label: `${current}（未読み込み）` });
+  }
+  return options;
+}
+
+/**
+ * ctx.fontに指定するファミリー（読み込んだフォントは引用符で囲み、読み込めていない場合はゴシックで代替）
+ */
+export function toCssFontFamily(family: string): string {
+  if (BUILTIN_FONT_OPTIONS.some((option) => option.value === family)) {
+    return family;
+  }
+  return `"${family.replace(/["\\]/g, '')}", sans-serif`;
+}
+
+/**
+ * フォントファイル（TTF・OTF・WOFF・WOFF2）を読み込んで登録し、ファミリー名を返す
+ * ファミリー名は拡張子を除いたファイル名
+ */
+export async function loadFontFile(file: File): Promise<string> {
+  const family = file.name.replace(/\.[^.]+$/, '').replace(/["\\]/g, '') || 'font';
+  const face = new FontFace(family, await file.arrayBuffer());
+  await face.load();
+  document.fonts.add(face);
+  if (!loadedFamilies.includes(family)) {
+    loadedFamilies.push(family);
+  }
+  fontsVersion++;
+  return family;
+}
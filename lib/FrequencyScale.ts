@@ -0,0 +1,117 @@
+/**
+ * 周波数スケール（線形・対数・メル・バーク）に沿ったバーへの帯域割り当て
+ * FFTのビンは周波数に対して等間隔なので、そのままバーに並べると低音域がほとんど表示されない
+ * 指定したスケール上で等間隔になるよう帯域を区切り、帯域内のビンをまとめて各バーの値にする
+ */
+
+export type FrequencyScale = 'linear' | 'log' | 'mel' | 'bark';
+
+export const FREQUENCY_SCALE_OPTIONS: { value: FrequencyScale; label: string }[] = [
+  { value: 'linear', label: '線形' },
+  { value: 'log', label: '対数' },
+  { value: 'mel', label: 'メル' },
+  { value: 'bark', label: 'バーク' },
+];
+
+// 1つのバーが受け持つビンの範囲（小数のビン位置、startは含みendは含まない）
+export interface FrequencyBand {
+  start: number;
+  end: number;
+}
+
+/**
+ * Hz → スケール上の値
+ */
+function toScale(hz: number, scale: FrequencyScale): number {
+  switch (scale) {
+    case 'log':
+      return Math.log10(Math.max(hz, 1));
+    case 'mel':
+      return 2595 * Math.log10(1 + hz / 700);
+    case 'bark':
+      // Traunmüllerの近似式（逆変換が閉じた形で書ける）
+      return (26.81 * hz) / (1960 + hz) - 0.53;
+    default:
+      return hz;
+  }
+}
+
+/**
+ * スケール上の値 → Hz
+ */
+function fromScale(value: number, scale: FrequencyScale): number {
+  switch (scale) {
+    case 'log':
+      return Math.pow(10, value);
+    case 'mel':
+      return 700 * (Math.pow(10, value / 2595) - 1);
+    case 'bark':
+      return (1960 * (value + 0.53)) / (26.28 - value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * minHz〜maxHzをスケール上で等間隔にbandCount個の帯域へ分割
+ * 範囲はナイキスト周波数までに制限される
+ */
+export function createFrequencyBands(
+  bandCount: number,
+  binCount: number,
+  sampleRate: number,
+  scale: FrequencyScale,
+  minHz: number,
+  maxHz: number
+): FrequencyBand[] {
+  const nyquist = sampleRate / 2;
+  const binHz = nyquist / binCount;
+  const low = Math.max(0, Math.min(minHz, nyquist));
+  const high = Math.max(low + binHz, Math.min(maxHz, nyquist));
+
+  const scaleLow = toScale(low, scale);
+  const scaleHigh = toScale(high, scale);
+  const edges: number[] = [];
+  for (let i = 0; i <= bandCount; i++) {
+    const hz = fromScale(scaleLow + ((scaleHigh - scaleLow) * i) / bandCount, scale);
+    edges.push(Math.min(binCount, hz / binHz));
+  }
+
+  const bands: FrequencyBand[] = [];
+  for (let i = 0; i < bandCount; i++) {
+    bands.push({ start: edges[i], end: edges[i + 1] });
+  }
+  return bands;
+}
+
+/**
+ * 周波数データ（getByteFrequencyDataの値）を帯域ごとに集計
+ * 帯域が1ビンより広い場合は帯域内のビンの平均、狭い場合は帯域中心の周波数で隣接ビンを線形補間する
+ */
+export function aggregateBands(
+  data: ArrayLike<number>,
+  bands: FrequencyBand[],
+  output: Float32Array = new Float32Array(bands.length)
+): Float32Array {
+  const lastBin = data.length - 1;
+  for (let i = 0; i < bands.length; i++) {
+    const { start, end } = bands[i];
+    if (end - start < 1) {
+      const center = Math.min(lastBin, (start + end) / 2);
+      const index = Math.floor(center);
+      const next = Math.min(lastBin, index + 1);
+      const k = center - index;
+      output[i] = data[index] * (1 - k) + data[next] * k;
+      continue;
+    }
+
+    const from = Math.min(lastBin, Math.round(start));
+    const to = Math.min(data.length, Math.max(from + 1, Math.round(end)));
+    let sum = 0;
+    for (let bin = from; bin < to; bin++) {
+      sum += data[bin];
+    }
+    output[i] = sum / (to - from);
+  }
+  return output;
+}
@@ -0,0 +1,218 @@
+/**
+ * 歌詞・字幕ファイル（LRC・SRT・WebVTT）の読み込み
+ * 表示する行（キュー）の一覧にし、再生位置から表示中の行とカラオケ表示の進み具合を求める
+ */
+
+// 単語ごとのタイミング（拡張LRC・WebVTTのタイムスタンプタグ）
+export interface LyricWord {
+  start: number; // 秒
+  text: string;
+}
+
+export interface LyricCue {
+  start: number; // 秒
+  end: number; // 秒（LRCの最後の行は曲の終わりまで表示するためInfinity）
+  text: string; // 改行で複数行
+  words?: LyricWord[]; // 単語ごとのタイミングがある場合（textは単語をつなげたもの）
+}
+
+// カラオケ表示の進み具合（textの文字位置）
+export interface KaraokeProgress {
+  sung: number; // 歌い終わった部分の終わり
+  next: number; // 歌っている単語の終わり
+  partial: number; // 歌っている単語の進み具合（0〜1）
+}
+
+export type LyricsFormat = 'lrc' | 'srt' | 'vtt';
+
+// 終わりの時刻が分からない最後の単語の長さ（秒）
+const DEFAULT_WORD_DURATION = 1;
+
+// 「時:分:秒.ミリ秒」「分:秒.百分の一秒」「時:分:秒,ミリ秒」などの時刻
+const TIMESTAMP = /^(?:(\d+):)?(\d+):(\d+(?:[.,]\d+)?)$/;
+// 行の中の単語のタイミング（拡張LRCの<00:12.34>、WebVTTの<00:00:12.340>）
+const WORD_TIMESTAMP = /<((?:\d+:)?\d+:\d+(?:[.,]\d+)?)>/;
+
+/**
+ * 時刻の文字列を秒にする（形式が違う場合はnull）
+ */
+export function parseTimestamp(text: string): number | null {
+  const match = TIMESTAMP.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds.replace(',', '.'));
+}
+
+/**
+ * ファイル名の拡張子から形式を判定（歌詞ファイルでない場合はnull）
+ */
+export function getLyricsFormat(fileName: string): LyricsFormat | null {
+  const ext = fileName.toLowerCase().substring(fileName.lastIndexOf('.') + 1);
+  return ext === 'lrc' || ext === 'srt' || ext === 'vtt' ? ext : null;
+}
+
+/**
+ * 歌詞ファイルを読み込んで開始時刻順のキューにする
+ */
+export function parseLyrics(format: LyricsFormat, content: string): LyricCue[] {
+  // BOMと改行コードの違いを除く
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const cues = format === 'lrc' ? parseLrc(text) : parseSubtitles(text, format);
+  return cues.filter((cue) => cue.text.trim() !== '').sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 単語のタイミングを含む行を単語に分ける（タイミングがない場合はnull）
+ * 最初のタイミングより前の文字は行の開始時刻から始まる
+ */
+function parseWords(line: string, start: number): LyricWord[] | null {
+  const parts = line.split(WORD_TIMESTAMP);
+  if (parts.length === 1) {
+    return null;
+  }
+  // splitの結果は「文字, 時刻, 文字, 時刻, 文字…」の順になる
+  const words: LyricWord[] = [];
+  if (parts[0]) {
+    words.push({ start, text: parts[0] });
+  }
+  for (let i = 1; i < parts.length; i += 2) {
+    const time = parseTimestamp(parts[i]);
+    if (time !== null) {
+      // 文字が空のタイミング（行末のタイミング）は直前の単語の終わりとして残す
+      words.push({ start: time, text: parts[i + 1] ?? '' });
+    }
+  }
+  return words;
+}
+
+// 単語からキューを作る（単語のタイミングがない場合はそのままの文字列）
+function createCue(start: number, end: number, line: string, stripTags: (text: string) => string): LyricCue {
+  const words = parseWords(line, start);
+  if (!words) {
+    return { start, end, text: stripTags(line) };
+  }
+  const cleaned = words.map((word) => ({ ...word, text: stripTags(word.text) }));
+  return { start, end, text: cleaned.map((word) => word.text).join(''), words: cleaned };
+}
+
+/**
+ * LRC（拡張LRCの単語タイミング、1行に複数の時刻、[offset:ミリ秒]に対応）
+ * 各行は次の行の開始まで表示する
+ */
+function parseLrc(text: string): LyricCue[] {
+  let offset = 0;
+  const lines: { start: number; line: string }[] = [];
+  for (const rawLine of text.split('\n')) {
+    let rest = rawLine.trim();
+    const times: number[] = [];
+    let tag: RegExpExecArray | null;
+    while ((tag = /^\[([^\]]*)\]/.exec(rest))) {
+      rest = rest.slice(tag[0].length);
+      const time = parseTimestamp(tag[1]);
+      if (time !== null) {
+        times.push(time);
+      } else if (/^offset:/i.test(tag[1])) {
+        // 正の値は歌詞を早く表示する（ミリ秒）
+        offset = Number(tag[1].slice(tag[1].indexOf(':') + 1)) / 1000 || 0;
+      }
+    }
+    for (const start of times) {
+      lines.push({ start, line: rest });
+    }
+  }
+  lines.sort((a, b) => a.start - b.start);
+  return lines.map(({ start, line }, index) => {
+    const end = index + 1 < lines.length ? lines[index + 1].start : Infinity;
+    const cue = createCue(start, end, line, (value) => value);
+    // 単語のタイミングも同じだけずらす
+    return {
+      ...cue,
+      start: cue.start - offset,
+      end: cue.end - offset,
+      words: cue.words?.map((word) => ({ ...word, start: word.start - offset })),
+    };
+  });
+}
+
+// WebVTTのタグ（<c.class>、<v 話者>、<b>など）と文字参照を除く
+function stripVttTags(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * SRT・WebVTT（空行で区切られたブロックの「開始 --> 終了」の行の後ろが本文）
+ * WebVTTのヘッダー・NOTE・STYLEなど時刻の行がないブロックは読み飛ばす
+ */
+function parseSubtitles(text: string, format: LyricsFormat): LyricCue[] {
+  const cues: LyricCue[] = [];
+  for (const block of text.split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex < 0) {
+      continue;
+    }
+    const [startText, rest] = lines[timingIndex].split('-->');
+    // WebVTTは終了時刻の後ろに位置などの設定が続く
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0] ?? '');
+    if (start === null || end === null) {
+      continue;
+    }
+    const body = lines.slice(timingIndex + 1).join('\n').trim();
+    // 単語のタイミングはWebVTTのみ。SRTでも<i>などのタグが使われることがあるため同じように除く
+    cues.push(format === 'vtt' ? createCue(start, end, body, stripVttTags) : { start, end, text: stripVttTags(body) });
+  }
+  return cues;
+}
+
+/**
+ * 時刻timeに表示するキュー（ない場合はnull）
+ * 表示時間が重なる場合は後から始まったキューを表示する
+ */
+export function findActiveCue(cues: LyricCue[], time: number): LyricCue | null {
+  // startがtime以下の最後のキューを二分探索
+  let low = 0;
+  let high = cues.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found >= 0 && time < cues[found].end ? cues[found] : null;
+}
+
+/**
+ * 単語のタイミングがあるキューの、時刻timeでのカラオケ表示の進み具合
+ */
+export function getKaraokeProgress(cue: LyricCue, time: number): KaraokeProgress | null {
+  if (!cue.words) {
+    return null;
+  }
+  let position = 0;
+  for (let i = 0; i < cue.words.length; i++) {
+    const word = cue.words[i];
+    const next = cue.words[i + 1]?.start ?? (Number.isFinite(cue.end) ? cue.end : word.start + DEFAULT_WORD_DURATION);
+    if (time < word.start) {
+      return { sung: position, next: position, partial: 0 };
+    }
+    if (time < next) {
+      const duration = next - word.start;
+      const partial = duration > 0 ? (time - word.start) / duration : 1;
+      return { sung: position, next: position + word.text.length, partial };
+    }
+    position += word.text.length;
+  }
+  return { sung: position, next: position, partial: 0 };
+}
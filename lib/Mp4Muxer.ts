@@ -0,0 +1,609 @@
+/**
+ * ISO-BMFF (MP4) マルチプレクサ
+ * WebCodecsのEncodedVideoChunk/EncodedAudioChunkをftyp/moov/mdat形式の再生可能なMP4にまとめる
+ */
+
+export interface Mp4VideoTrackConfig {
+  width: number;
+  height: number;
+}
+
+export interface Mp4AudioTrackConfig {
+  sampleRate: number;
+  numberOfChannels: number;
+  bitrate?: number;
+}
+
+// チャプター（Neroのchplボックスに書き込む）
+export interface Mp4Chapter {
+  start: number; // 秒
+  end: number; // 秒（chplには書かない）
+  title: string;
+}
+
+// iTunes形式のメタデータ（moov/udta/meta/ilst）とチャプター
+export interface Mp4Metadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+  comment?: string; // チャプターの一覧など
+  chapters?: Mp4Chapter[];
+}
+
+// chplに書けるチャプターの数とタイトルの長さ（バイト）
+const MAX_CHAPTER_COUNT = 255;
+const MAX_CHAPTER_TITLE_LENGTH = 255;
+
+export interface Mp4MuxerOptions {
+  video: Mp4VideoTrackConfig;
+  audio?: Mp4AudioTrackConfig;
+  metadata?: Mp4Metadata;
+}
+
+interface Mp4Sample {
+  data: Uint8Array;
+  timestamp: number; // マイクロ秒
+  duration: number; // マイクロ秒
+  isKey: boolean;
+}
+
+interface Mp4Track {
+  id: number;
+  handler: 'vide' | 'soun';
+  timescale: number;
+  samples: Mp4Sample[];
+  codec: string | null;
+  description: Uint8Array | null;
+}
+
+// 動画トラックのタイムスケール（90kHzが一般的）
+const VIDEO_TIMESCALE = 90000;
+// ムービー全体のタイムスケール（ミリ秒）
+const MOVIE_TIMESCALE = 1000;
+
+// 単位行列（16.16 / 2.30 固定小数点）
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+// AACのサンプリング周波数インデックス（AudioSpecificConfig用）
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// Opus in ISOBMFFのサンプルエントリーに書くサンプリングレート
+const OPUS_SAMPLE_RATE = 48000;
+
+type BoxContent = Uint8Array | number[];
+
+function u8(value: number): number[] {
+  return [value & 0xff];
+}
+
+function u16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function u24(value: number): number[] {
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function u32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function fourcc(type: string): number[] {
+  return [type.charCodeAt(0), type.charCodeAt(1), type.charCodeAt(2), type.charCodeAt(3)];
+}
+
+function cstring(text: string): number[] {
+  return Array.from(text).map((c) => c.charCodeAt(0)).concat(0);
+}
+
+function concat(contents: BoxContent[]): Uint8Array {
+  let length = 0;
+  for (const content of contents) {
+    length += content.length;
+  }
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const content of contents) {
+    result.set(content, offset);
+    offset += content.length;
+  }
+  return result;
+}
+
+/**
+ * ボックスを作成（size + type + 中身）
+ */
+function box(type: string, ...contents: BoxContent[]): Uint8Array {
+  const payload = concat(contents);
+  return concat([u32(payload.length + 8), fourcc(type), payload]);
+}
+
+/**
+ * フルボックスを作成（version + flags付き）
+ */
+function fullBox(type: string, version: number, flags: number, ...contents: BoxContent[]): Uint8Array {
+  return box(type, u8(version), u24(flags), ...contents);
+}
+
+/**
+ * MPEG-4記述子を作成（esds用、長さは4バイト可変長表現で固定）
+ */
+function descriptor(tag: number, ...contents: BoxContent[]): Uint8Array {
+  const payload = concat(contents);
+  const size = payload.length;
+  return concat([
+    u8(tag),
+    [0x80 | ((size >> 21) & 0x7f), 0x80 | ((size >> 14) & 0x7f), 0x80 | ((size >> 7) & 0x7f), size & 0x7f],
+    payload,
+  ]);
+}
+
+function matrix(): number[] {
+  return UNITY_MATRIX.reduce<number[]>((bytes, value) => bytes.concat(u32(value)), []);
+}
+
+function u64(value: number): number[] {
+  return u32(Math.floor(value / 0x100000000)).concat(u32(value % 0x100000000));
+}
+
+/**
+ * UTF-8のバイト列をmaxLength以下に切り詰める（文字の途中では切らない）
+ */
+function truncateUtf8(bytes: Uint8Array, maxLength: number): Uint8Array {
+  if (bytes.length <= maxLength) {
+    return bytes;
+  }
+  let length = maxLength;
+  // 続きのバイト（10xxxxxx）の前で切る
+  while (length > 0 && (bytes[length] & 0xc0) === 0x80) {
+    length--;
+  }
+  return bytes.subarray(0, length);
+}
+
+/**
+ * 32ビットの値を並べた表（stts・stsz・stco・stssの項目）
+ * サンプルごとに配列を作って引数に展開すると、長い動画でサンプル数が多い場合に呼び出しスタックを超えるため、
+ * 値の数から確保した1つのバッファに書き込む
+ */
+function u32Table(values: ArrayLike<number>): Uint8Array {
+  const table = new Uint8Array(values.length * 4);
+  const view = new DataView(table.buffer);
+  for (let i = 0; i < values.length; i++) {
+    view.setUint32(i * 4, values[i]);
+  }
+  return table;
+}
+
+function zeros(length: number): number[] {
+  return new Array(length).fill(0);
+}
+
+function toUint8Array(source: BufferSource): Uint8Array {
+  if (source instanceof Uint8Array) {
+    return new Uint8Array(source);
+  }
+  if (ArrayBuffer.isView(source)) {
+    return new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+  }
+  return new Uint8Array(source.slice(0));
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * MP4マルチプレクサ
+ */
+export class Mp4Muxer {
+  private videoTrack: Mp4Track;
+  private audioTrack: Mp4Track | null = null;
+
+  constructor(private options: Mp4MuxerOptions) {
+    this.videoTrack = {
+      id: 1,
+      handler: 'vide',
+      timescale: VIDEO_TIMESCALE,
+      samples: [],
+      codec: null,
+      description: null,
+    };
+    if (options.audio) {
+      this.audioTrack = {
+        id: 2,
+        handler: 'soun',
+        timescale: options.audio.sampleRate,
+        samples: [],
+        codec: null,
+        description: null,
+      };
+    }
+  }
+
+  /**
+   * エンコード済みの動画チャンクを追加
+   */
+  addVideoChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void {
+    this.addChunk(this.videoTrack, chunk, metadata?.decoderConfig);
+  }
+
+  /**
+   * エンコード済みの音声チャンクを追加
+   */
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void {
+    if (!this.audioTrack) {
+      throw new Error('Audio track is not configured');
+    }
+    this.addChunk(this.audioTrack, chunk, metadata?.decoderConfig);
+  }
+
+  private addChunk(
+    track: Mp4Track,
+    chunk: EncodedVideoChunk | EncodedAudioChunk,
+    decoderConfig?: { codec: string; description?: BufferSource }
+  ): void {
+    if (decoderConfig) {
+      track.codec = decoderConfig.codec;
+      if (decoderConfig.description) {
+        track.description = toUint8Array(decoderConfig.description);
+      }
+    }
+
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    track.samples.push({
+      data,
+      timestamp: chunk.timestamp,
+      duration: chunk.duration ?? 0,
+      isKey: chunk.type === 'key',
+    });
+  }
+
+  /**
+   * MP4ファイルを書き出し
+   */
+  finalize(): Blob {
+    if (this.videoTrack.samples.length === 0) {
+      throw new Error('No video samples to mux');
+    }
+    if (!this.videoTrack.description) {
+      throw new Error('Missing avcC decoder configuration');
+    }
+
+    const tracks = this.getTracks();
+    const brands = [fourcc('isom'), fourcc('iso2'), fourcc('avc1'), fourcc('mp41')];
+    const ftyp = box('ftyp', fourcc('isom'), u32(0x200), ...brands);
+
+    // 映像と音声をタイムスタンプ順に交互配置（インターリーブ）してmdatに書き込む
+    const layout = this.getInterleavedLayout(tracks);
+
+    // moovのサイズはチャンクオフセットの値に依存しないため、
+    // 一度仮のオフセットで組み立ててサイズを確定させてから本番を生成する
+    const provisionalMoov = this.buildMoov(tracks, layout.map(() => 0));
+    const mdatHeaderSize = 8;
+    const dataOffset = ftyp.length + provisionalMoov.length + mdatHeaderSize;
+
+    const offsets: number[] = [];
+    let offset = dataOffset;
+    for (const entry of layout) {
+      offsets.push(offset);
+      offset += entry.sample.data.length;
+    }
+    const moov = this.buildMoov(tracks, offsets);
+
+    const mdatHeader = concat([u32(offset - dataOffset + mdatHeaderSize), fourcc('mdat')]);
+
+    return new Blob([ftyp, moov, mdatHeader, ...layout.map((entry) => entry.sample.data)], {
+      type: 'video/mp4',
+    });
+  }
+
+  private getTracks(): Mp4Track[] {
+    return this.audioTrack && this.audioTrack.samples.length > 0
+      ? [this.videoTrack, this.audioTrack]
+      : [this.videoTrack];
+  }
+
+  /**
+   * 全トラックのサンプルをタイムスタンプ順に並べる
+   */
+  private getInterleavedLayout(tracks: Mp4Track[]): { track: Mp4Track; sample: Mp4Sample }[] {
+    const layout: { track: Mp4Track; sample: Mp4Sample; order: number }[] = [];
+    tracks.forEach((track, trackIndex) => {
+      track.samples.forEach((sample, sampleIndex) => {
+        layout.push({ track, sample, order: trackIndex * 1e9 + sampleIndex });
+      });
+    });
+    layout.sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.order - b.order);
+    return layout;
+  }
+
+  /**
+   * サンプルごとの尺をトラックのタイムスケールで計算
+   * 次のサンプルとのタイムスタンプ差を優先し、最後のサンプルはチャンクのdurationを使う
+   */
+  private getSampleDurations(track: Mp4Track): number[] {
+    const { samples, timescale } = track;
+    const toTimescale = (microseconds: number) => Math.round((microseconds * timescale) / 1e6);
+    const durations: number[] = [];
+    for (let i = 0; i < samples.length; i++) {
+      if (i < samples.length - 1) {
+        durations.push(toTimescale(samples[i + 1].timestamp) - toTimescale(samples[i].timestamp));
+      } else if (samples[i].duration > 0) {
+        durations.push(toTimescale(samples[i].duration));
+      } else {
+        durations.push(durations.length > 0 ? durations[durations.length - 1] : 0);
+      }
+    }
+    return durations;
+  }
+
+  private buildMoov(tracks: Mp4Track[], offsets: number[]): Uint8Array {
+    const layout = this.getInterleavedLayout(tracks);
+    const durationsByTrack = tracks.map((track) => this.getSampleDurations(track));
+    const movieDuration = Math.max(
+      ...tracks.map((track, index) => Math.round((sum(durationsByTrack[index]) * MOVIE_TIMESCALE) / track.timescale))
+    );
+
+    const mvhd = fullBox(
+      'mvhd', 0, 0,
+      u32(0), // creation_time
+      u32(0), // modification_time
+      u32(MOVIE_TIMESCALE),
+      u32(movieDuration),
+      u32(0x00010000), // rate 1.0
+      u16(0x0100), // volume 1.0
+      zeros(10),
+      matrix(),
+      zeros(24),
+      u32(tracks.length + 1) // next_track_ID
+    );
+
+    const traks = tracks.map((track, index) => {
+      const trackOffsets = offsets.filter((_, layoutIndex) => layout[layoutIndex].track === track);
+      return this.buildTrak(track, durationsByTrack[index], trackOffsets);
+    });
+
+    const udta = this.buildUdta();
+    return udta ? box('moov', mvhd, ...traks, udta) : box('moov', mvhd, ...traks);
+  }
+
+  /**
+   * メタデータとチャプター（空の項目は書かない。どちらもない場合はnull）
+   */
+  private buildUdta(): Uint8Array | null {
+    const { title, artist, album, comment, chapters = [] } = this.options.metadata ?? {};
+    const encoder = new TextEncoder();
+    const boxes: Uint8Array[] = [];
+    // ©は0xA9の1バイト
+    const items = ([['\u00a9nam', title], ['\u00a9ART', artist], ['\u00a9alb', album], ['\u00a9cmt', comment]] as const)
+      .filter(([, value]) => value)
+      .map(([type, value]) =>
+        // dataの種類1はUTF-8
+        box(type, box('data', u32(1), u32(0), encoder.encode(value)))
+      );
+    if (items.length > 0) {
+      const hdlr = fullBox('hdlr', 0, 0, u32(0), fourcc('mdir'), fourcc('appl'), zeros(8), u8(0));
+      boxes.push(fullBox('meta', 0, 0, hdlr, box('ilst', ...items)));
+    }
+    if (chapters.length > 0) {
+      // chpl（version 1）: 予約4バイト、数、各チャプターの開始（100ナノ秒単位）とタイトル
+      const entries = chapters.slice(0, MAX_CHAPTER_COUNT).map((chapter) => {
+        const text = truncateUtf8(encoder.encode(chapter.title), MAX_CHAPTER_TITLE_LENGTH);
+        return concat([u64(Math.round(chapter.start * 1e7)), u8(text.length), text]);
+      });
+      boxes.push(fullBox('chpl', 1, 0, u32(0), u8(entries.length), ...entries));
+    }
+    return boxes.length > 0 ? box('udta', ...boxes) : null;
+  }
+
+  private buildTrak(track: Mp4Track, durations: number[], offsets: number[]): Uint8Array {
+    const isVideo = track.handler === 'vide';
+    const { width, height } = this.options.video;
+    const trackDuration = sum(durations);
+    const movieDuration = Math.round((trackDuration * MOVIE_TIMESCALE) / track.timescale);
+
+    const tkhd = fullBox(
+      'tkhd', 0, 0x000003, // track_enabled | track_in_movie
+      u32(0),
+      u32(0),
+      u32(track.id),
+      u32(0),
+      u32(movieDuration),
+      zeros(8),
+      u16(0), // layer
+      u16(0), // alternate_group
+      u16(isVideo ? 0 : 0x0100), // volume（映像は0）
+      u16(0),
+      matrix(),
+      u32(isVideo ? width << 16 : 0),
+      u32(isVideo ? height << 16 : 0)
+    );
+
+    const mdhd = fullBox(
+      'mdhd', 0, 0,
+      u32(0),
+      u32(0),
+      u32(track.timescale),
+      u32(trackDuration),
+      u16(0x55c4), // language: 'und'
+      u16(0)
+    );
+
+    const hdlr = fullBox(
+      'hdlr', 0, 0,
+      u32(0),
+      fourcc(track.handler),
+      zeros(12),
+      cstring(isVideo ? 'VideoHandler' : 'SoundHandler')
+    );
+
+    const mediaHeader = isVideo
+      ? fullBox('vmhd', 0, 1, u16(0), zeros(6))
+      : fullBox('smhd', 0, 0, u16(0), u16(0));
+    const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+    const minf = box('minf', mediaHeader, dinf, this.buildStbl(track, durations, offsets));
+
+    return box('trak', tkhd, box('mdia', mdhd, hdlr, minf));
+  }
+
+  private buildStbl(track: Mp4Track, durations: number[], offsets: number[]): Uint8Array {
+    const { samples } = track;
+
+    // stts: 同じ尺が続くサンプルをまとめる（数と尺の組）
+    const sttsEntries: number[] = [];
+    let runCount = 0;
+    let runDuration = durations[0];
+    for (const duration of durations) {
+      if (duration === runDuration) {
+        runCount++;
+      } else {
+        sttsEntries.push(runCount, runDuration);
+        runCount = 1;
+        runDuration = duration;
+      }
+    }
+    sttsEntries.push(runCount, runDuration);
+    const stts = fullBox('stts', 0, 0, u32(sttsEntries.length / 2), u32Table(sttsEntries));
+
+    // 1チャンク = 1サンプルとして配置する（インターリーブのため）
+    const stsc = fullBox('stsc', 0, 0, u32(1), u32(1), u32(1), u32(1));
+    const sizes = new Uint32Array(samples.length);
+    samples.forEach((sample, index) => {
+      sizes[index] = sample.data.length;
+    });
+    const stsz = fullBox('stsz', 0, 0, u32(0), u32(samples.length), u32Table(sizes));
+    const stco = fullBox('stco', 0, 0, u32(offsets.length), u32Table(offsets));
+
+    if (track.handler === 'soun') {
+      // 音声はすべてキーフレームなのでstssを省略
+      return box('stbl', this.buildAudioStsd(track), stts, stsc, stsz, stco);
+    }
+
+    // stss: キーフレームの番号（1始まり）
+    const keyFrames: number[] = [];
+    samples.forEach((sample, index) => {
+      if (sample.isKey) {
+        keyFrames.push(index + 1);
+      }
+    });
+    const stss = fullBox('stss', 0, 0, u32(keyFrames.length), u32Table(keyFrames));
+
+    return box('stbl', this.buildVideoStsd(track), stts, stss, stsc, stsz, stco);
+  }
+
+  private buildVideoStsd(track: Mp4Track): Uint8Array {
+    const { width, height } = this.options.video;
+    const codec = track.codec || '';
+    if (!codec.startsWith('avc1')) {
+      throw new Error(`Unsupported codec for MP4 muxing: ${codec}`);
+    }
+
+    const compressorName = zeros(32);
+    const avc1 = box(
+      'avc1',
+      zeros(6), // reserved
+      u16(1), // data_reference_index
+      zeros(16), // pre_defined + reserved
+      u16(width),
+      u16(height),
+      u32(0x00480000), // horizresolution 72dpi
+      u32(0x00480000), // vertresolution 72dpi
+      u32(0),
+      u16(1), // frame_count
+      compressorName,
+      u16(0x0018), // depth
+      u16(0xffff), // pre_defined = -1
+      box('avcC', track.description as Uint8Array)
+    );
+
+    return fullBox('stsd', 0, 0, u32(1), avc1);
+  }
+
+  private buildAudioStsd(track: Mp4Track): Uint8Array {
+    const audio = this.options.audio as Mp4AudioTrackConfig;
+    const codec = track.codec || '';
+
+    // samplerateは16.16固定小数点
+    const audioSampleEntryFields = (sampleRate: number) => [
+      zeros(6), // reserved
+      u16(1), // data_reference_index
+      zeros(8), // reserved
+      u16(audio.numberOfChannels),
+      u16(16), // samplesize
+      u16(0), // pre_defined
+      u16(0), // reserved
+      u32(sampleRate << 16 >>> 0),
+    ];
+
+    if (codec.startsWith('mp4a')) {
+      // 65535Hzを超える場合（88.2kHz・96kHz）は書けないため0にし、esdsのAudioSpecificConfigで伝える
+      const sampleRate = audio.sampleRate <= 0xffff ? audio.sampleRate : 0;
+      const mp4a = box('mp4a', ...audioSampleEntryFields(sampleRate), this.buildEsds(track, audio));
+      return fullBox('stsd', 0, 0, u32(1), mp4a);
+    }
+
+    if (codec === 'opus') {
+      // Opus in ISOBMFFではデコード時のサンプリングレートにかかわらず48000
+      const opus = box('Opus', ...audioSampleEntryFields(OPUS_SAMPLE_RATE), this.buildDOps(track, audio));
+      return fullBox('stsd', 0, 0, u32(1), opus);
+    }
+
+    throw new Error(`Unsupported codec for MP4 muxing: ${codec}`);
+  }
+
+  /**
+   * AAC用のElementary Stream Descriptor
+   */
+  private buildEsds(track: Mp4Track, audio: Mp4AudioTrackConfig): Uint8Array {
+    let audioSpecificConfig = track.description;
+    if (!audioSpecificConfig) {
+      // descriptionが無い場合はAAC-LCとして組み立てる
+      const frequencyIndex = Math.max(0, AAC_SAMPLE_RATES.indexOf(audio.sampleRate));
+      audioSpecificConfig = new Uint8Array([
+        (2 << 3) | (frequencyIndex >> 1),
+        ((frequencyIndex & 1) << 7) | (audio.numberOfChannels << 3),
+      ]);
+    }
+    const bitrate = audio.bitrate || 0;
+
+    return fullBox(
+      'esds', 0, 0,
+      descriptor(
+        0x03, // ES_DescrTag
+        u16(track.id),
+        u8(0),
+        descriptor(
+          0x04, // DecoderConfigDescrTag
+          u8(0x40), // Audio ISO/IEC 14496-3
+          u8(0x15), // streamType: AudioStream
+          u24(0), // bufferSizeDB
+          u32(bitrate), // maxBitrate
+          u32(bitrate), // avgBitrate
+          descriptor(0x05, audioSpecificConfig) // DecSpecificInfoTag
+        ),
+        descriptor(0x06, u8(0x02)) // SLConfigDescrTag
+      )
+    );
+  }
+
+  /**
+   * Opus用のOpusSpecificBox
+   */
+  private buildDOps(track: Mp4Track, audio: Mp4AudioTrackConfig): Uint8Array {
+    // descriptionがOpusHeadの場合はpre-skipを引き継ぐ（リトルエンディアン）
+    const head = track.description;
+    const preSkip = head && head.length >= 12 ? head[10] | (head[11] << 8) : 0;
+
+    return box(
+      'dOps',
+      u8(0), // Version
+      u8(audio.numberOfChannels),
+      u16(preSkip),
+      u32(audio.sampleRate),
+      u16(0), // OutputGain
+      u8(0) // ChannelMappingFamily
+    );
+  }
+}
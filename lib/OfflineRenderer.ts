@@ -0,0 +1,128 @@
+/**
+ * オフライン（実時間より高速）書き出し
+ * デコード済みのAudioBufferを固定FPSで1フレームずつ解析・描画し、WebCodecsでエンコードする
+ * スペクトラムはSpectrumAnalyserで計算するため、AudioContextを使わず毎回同じ結果になる
+ */
+
+import type { LyricCue } from './Lyrics';
+import { formatChapterText, getOutputChapters } from './Chapters';
+import { findChapter, getChapterMedia, type PlaylistChapter } from './Playlist';
+import { applyTimelineToBuffer, getFadeGain, type TimelineSettings } from './Timeline';
+import { getLayerImages, hasStereoLayer, seekLayerMedia, type Scene, type SceneMedia, type TrackInfo } from './Scene';
+import { PcmSpectrum } from './Spectrum';
+import { createSpectrumRenderer, type RendererType } from './SpectrumRenderer';
+import { encodeVideoWithAudio, type EncoderProgress } from './WebCodecsEncoder';
+
+export interface OfflineRenderOptions {
+  audioBuffer: AudioBuffer;
+  scene: Scene;
+  media: SceneMedia; // メディアレイヤーの素材（書き出し用に複製して使うため、プレビューの再生には影響しない）
+  track?: TrackInfo | null; // テキストレイヤーの差し込みに使う曲の情報
+  lyrics?: LyricCue[] | null; // 歌詞レイヤーに表示する歌詞
+  timeline?: TimelineSettings | null; // 書き出す範囲とフェード（未指定の場合は曲全体）
+  chapters?: PlaylistChapter[] | null; // プレイリストの曲ごとの区間（曲名の差し込み・背景・メタデータのチャプター）
+  width: number;
+  height: number;
+  frameRate: number;
+  bitrate: number;
+  rendererType?: RendererType; // 既定はCanvas 2D（ポストエフェクトはWebGLのみ）
+  onProgress?: (progress: number) => void; // 0〜100
+}
+
+/**
+ * AudioBufferの全チャンネルのPCMを取得
+ */
+export function getChannels(audioBuffer: AudioBuffer): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    channels.push(audioBuffer.getChannelData(ch));
+  }
+  return channels;
+}
+
+/**
+ * スペクトラム動画をオフラインで書き出し
+ */
+export async function renderOffline(options: OfflineRenderOptions): Promise<Blob> {
+  const {
+    scene, media, track, lyrics, timeline, chapters, width, height, frameRate, bitrate, rendererType = 'canvas2d', onProgress,
+  } = options;
+  // 範囲を切り出してフェードを掛けた音声を、解析とエンコードの両方に使う（スペクトラムもプレビューと同じくフェードする）
+  const audioBuffer = timeline ? applyTimelineToBuffer(options.audioBuffer, timeline) : options.audioBuffer;
+  // 書き出しの時刻0に対応する曲の時刻（秒）
+  const startTime = timeline ? Math.floor(timeline.start * audioBuffer.sampleRate) / audioBuffer.sampleRate : 0;
+
+  // プレビューのAnalyserNodeと同じ設定で、各フレーム時刻までのPCMからスペクトラムを計算する
+  // チャンネル別の解析はステレオ系モードのレイヤーがあるときだけ行う
+  const spectrum = new PcmSpectrum(getChannels(audioBuffer), hasStereoLayer(scene));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const renderer = createSpectrumRenderer(rendererType);
+  if (!renderer.init(canvas)) {
+    throw new Error('Failed to create canvas context');
+  }
+  // 動画のレイヤーはフレームごとにシークするため、プレビューとは別の要素を使う
+  const exportMedia: SceneMedia = {};
+  const exportChapters: PlaylistChapter[] = [];
+  // 曲名などと、書き出す範囲の先頭からの時刻のチャプター（テキストの一覧とchpl）をMP4のメタデータに書き込む
+  const outputChapters = getOutputChapters(
+    chapters ?? [],
+    timeline?.markers ?? [],
+    startTime,
+    startTime + audioBuffer.duration,
+    track?.title ?? ''
+  );
+  const metadata = {
+    title: track?.title,
+    artist: track?.artist,
+    album: track?.album,
+    comment: outputChapters.length > 0 ? formatChapterText(outputChapters) : undefined,
+    chapters: outputChapters,
+  };
+
+  try {
+    for (const [id, source] of Object.entries(media)) {
+      exportMedia[id] = await source.clone();
+    }
+    for (const chapter of chapters ?? []) {
+      exportChapters.push({ ...chapter, background: chapter.background && (await chapter.background.clone()) });
+    }
+    return await encodeVideoWithAudio(
+      canvas,
+      audioBuffer,
+      { width, height, frameRate, bitrate, metadata },
+      (progress: EncoderProgress) => {
+        onProgress?.(progress.progress);
+      },
+      async (_frameIndex, timestamp) => {
+        spectrum.update(Math.round(timestamp * audioBuffer.sampleRate));
+        // 背景の動画・歌詞・経過時間などは曲の時刻に合わせる
+        const trackTime = startTime + timestamp;
+        // プレイリストでは曲ごとの背景と曲の情報に切り替える
+        const chapter = findChapter(exportChapters, trackTime);
+        const frameMedia = getChapterMedia(scene, exportMedia, chapter);
+        await seekLayerMedia(scene, frameMedia, trackTime);
+        renderer.renderFrame({
+          scene,
+          // 書き出しでは音声の再生位置とループの時刻が同じになる
+          layerImages: getLayerImages(scene, frameMedia, trackTime, trackTime),
+          source: spectrum.analyser,
+          beatSource: spectrum.beatAnalyser,
+          stereo: spectrum.stereo,
+          sampleRate: audioBuffer.sampleRate,
+          time: timestamp,
+          playbackTime: trackTime,
+          track: chapter?.info ?? track,
+          lyrics,
+          fade: timeline ? 1 - getFadeGain(timeline, trackTime) : 0,
+        });
+      }
+    );
+  } finally {
+    renderer.dispose();
+    Object.values(exportMedia).forEach((source) => source.dispose());
+    exportChapters.forEach((chapter) => chapter.background?.dispose());
+  }
+}
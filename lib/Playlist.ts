@@ -0,0 +1,232 @@
+/**
+ * プレイリスト（複数の曲を1本の動画にする）
+ * 曲を無音の間隔またはクロスフェードでつないだ1つのAudioBufferにし、曲ごとの区間（チャプター）を求める
+ * つないだ音声はプレビュー・録画・高速書き出しで1曲と同じように扱う
+ */
+
+import type { BackgroundImage, BackgroundPlayback } from './Background';
+import type { BackgroundMedia } from './BackgroundMedia';
+import type { Scene, SceneMedia, TrackInfo } from './Scene';
+import type { ModeParamSchema } from './SpectrumModes';
+
+export type PlaylistTransition = 'gap' | 'crossfade';
+
+export interface PlaylistSettings {
+  transition: PlaylistTransition;
+  transitionDuration: number; // 秒（間隔の長さ、またはクロスフェードの長さ）
+}
+
+export const DEFAULT_PLAYLIST_SETTINGS: PlaylistSettings = { transition: 'gap', transitionDuration: 2 };
+
+// 調整UIの定義
+export const PLAYLIST_PARAMS: ModeParamSchema[] = [
+  {
+    type: 'select',
+    key: 'transition',
+    label: '曲のつなぎ方',
+    options: [
+      { value: 'gap', label: '間隔を空ける' },
+      { value: 'crossfade', label: 'クロスフェード' },
+    ],
+    default: DEFAULT_PLAYLIST_SETTINGS.transition,
+  },
+  {
+    type: 'number',
+    key: 'transitionDuration',
+    label: '間隔・クロスフェードの長さ（秒）',
+    min: 0,
+    max: 10,
+    step: 0.5,
+    default: DEFAULT_PLAYLIST_SETTINGS.transitionDuration,
+  },
+];
+
+export interface PlaylistTrack {
+  id: string;
+  fileName: string;
+  audioBuffer: AudioBuffer;
+  info: TrackInfo;
+  background: BackgroundMedia | null; // 曲ごとの背景（nullの場合はシーンの背景のまま）
+  backgroundFileName: string;
+}
+
+// 曲ごとの区間（チャプター）
+export interface PlaylistChapter {
+  trackId: string; // 区間の曲（PlaylistTrackのid）
+  start: number; // 秒（つないだ音声の先頭から。クロスフェードでは重なりの中央で切り替える）
+  end: number; // 秒
+  info: TrackInfo; // startに曲が鳴り始める時刻を持つ（テキストレイヤーの経過時間は曲の先頭から数える）
+  background: BackgroundMedia | null; // 音声に同期する動画は曲の先頭から再生する
+}
+
+/**
+ * デコードした曲からプレイリストの曲を作成
+ */
+export function createPlaylistTrack(fileName: string, audioBuffer: AudioBuffer, info: TrackInfo): PlaylistTrack {
+  return {
+    id: `track_${Math.random().toString(36).slice(2, 10)}`,
+    fileName,
+    audioBuffer,
+    info,
+    background: null,
+    backgroundFileName: '',
+  };
+}
+
+/**
+ * つないだ音声全体の情報（書き出しのファイル名・メタデータに使う）
+ * 曲名は最初の曲のアルバム名（ない場合は最初の曲名）、アーティストは全曲で同じ場合だけ
+ */
+export function createPlaylistInfo(tracks: PlaylistTrack[], duration: number): TrackInfo {
+  const [first] = tracks;
+  const artist = tracks.every((track) => track.info.artist === first.info.artist) ? first.info.artist : '';
+  return { title: first.info.album || first.info.title, artist, album: first.info.album, duration };
+}
+
+/**
+ * 曲ごとの背景を、音声に同期する場合は曲の先頭からの時刻で再生する素材
+ */
+class ChapterMedia implements BackgroundMedia {
+  constructor(private media: BackgroundMedia, private offset: number) {}
+
+  get animated(): boolean {
+    return this.media.animated;
+  }
+
+  frameAt(time: number, playback: BackgroundPlayback): BackgroundImage | null {
+    return this.media.frameAt(playback === 'sync' ? time - this.offset : time, playback);
+  }
+
+  seek(time: number, playback: BackgroundPlayback): Promise<void> {
+    return this.media.seek(playback === 'sync' ? time - this.offset : time, playback);
+  }
+
+  async clone(): Promise<BackgroundMedia> {
+    return new ChapterMedia(await this.media.clone(), this.offset);
+  }
+
+  // 書き出し用の複製だけが破棄する（プレビューの素材はプレイリストの持ち主が破棄する）
+  dispose(): void {
+    this.media.dispose();
+  }
+}
+
+/**
+ * チャプターの曲の情報と背景を曲の編集に合わせる（つなぎ直さずに曲名や背景だけを変える場合）
+ */
+export function updateChapterTrack(chapter: PlaylistChapter, track: PlaylistTrack): PlaylistChapter {
+  const start = chapter.info.start ?? 0;
+  return {
+    ...chapter,
+    info: { ...track.info, start },
+    background: track.background ? new ChapterMedia(track.background, start) : null,
+  };
+}
+
+/**
+ * 曲をつないだ音声とチャプター
+ * 曲はすべて同じAudioContextでデコードしてサンプリングレートを揃えておく
+ * チャンネル数は最も多い曲に合わせ、少ない曲は最後のチャンネルを繰り返す（モノラルは左右に同じ音）
+ */
+export function mixPlaylist(
+  tracks: PlaylistTrack[],
+  settings: PlaylistSettings
+): { audioBuffer: AudioBuffer; chapters: PlaylistChapter[] } {
+  if (tracks.length === 0) {
+    throw new Error('Playlist is empty');
+  }
+  const { sampleRate } = tracks[0].audioBuffer;
+  if (tracks.some((track) => track.audioBuffer.sampleRate !== sampleRate)) {
+    throw new Error('All tracks must have the same sample rate');
+  }
+  const numberOfChannels = Math.max(...tracks.map((track) => track.audioBuffer.numberOfChannels));
+  const transitionFrames = Math.round(Math.max(settings.transitionDuration, 0) * sampleRate);
+
+  // 各曲の開始位置と、前の曲と重なる長さ（フレーム）
+  const starts: number[] = [];
+  const overlaps: number[] = [];
+  let position = 0;
+  tracks.forEach(({ audioBuffer }, index) => {
+    let overlap = 0;
+    if (index > 0) {
+      if (settings.transition === 'crossfade') {
+        // 重なりはどちらの曲も半分まで
+        const previous = tracks[index - 1].audioBuffer.length;
+        overlap = Math.min(transitionFrames, Math.floor(previous / 2), Math.floor(audioBuffer.length / 2));
+        position -= overlap;
+      } else {
+        position += transitionFrames;
+      }
+    }
+    starts.push(position);
+    overlaps.push(overlap);
+    position += audioBuffer.length;
+  });
+
+  const output = new AudioBuffer({ length: Math.max(position, 1), numberOfChannels, sampleRate });
+  tracks.forEach(({ audioBuffer }, index) => {
+    const fadeIn = overlaps[index];
+    const fadeOut = overlaps[index + 1] ?? 0;
+    const { length } = audioBuffer;
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      const source = audioBuffer.getChannelData(Math.min(ch, audioBuffer.numberOfChannels - 1));
+      const target = output.getChannelData(ch);
+      const offset = starts[index];
+      for (let i = 0; i < length; i++) {
+        // クロスフェードは等パワー（重なりの間も音量が下がらない）
+        let gain = 1;
+        if (i < fadeIn) {
+          gain = Math.sin(((i + 0.5) / fadeIn) * (Math.PI / 2));
+        } else if (i >= length - fadeOut) {
+          gain = Math.cos(((i - (length - fadeOut) + 0.5) / fadeOut) * (Math.PI / 2));
+        }
+        target[offset + i] += source[i] * gain;
+      }
+    }
+  });
+
+  const duration = output.duration;
+  const chapters = tracks.map((track, index) =>
+    updateChapterTrack(
+      {
+        trackId: track.id,
+        start: index === 0 ? 0 : (starts[index] + overlaps[index] / 2) / sampleRate,
+        end: duration,
+        info: { ...track.info, start: starts[index] / sampleRate },
+        background: null,
+      },
+      track
+    )
+  );
+  // 間隔の無音は前の曲の区間に含める
+  for (let i = 0; i < chapters.length - 1; i++) {
+    chapters[i].end = chapters[i + 1].start;
+  }
+  return { audioBuffer: output, chapters };
+}
+
+/**
+ * 時刻timeのチャプター（チャプターがない場合はnull）
+ */
+export function findChapter(chapters: PlaylistChapter[], time: number): PlaylistChapter | null {
+  if (chapters.length === 0) {
+    return null;
+  }
+  for (let i = chapters.length - 1; i > 0; i--) {
+    if (time >= chapters[i].start) {
+      return chapters[i];
+    }
+  }
+  return chapters[0];
+}
+
+/**
+ * チャプターの背景で一番下の画像・動画レイヤーの素材を差し替えたシーンの素材
+ */
+export function getChapterMedia(scene: Scene, media: SceneMedia, chapter: PlaylistChapter | null): SceneMedia {
+  const layer = scene.layers.find((current) => current.type === 'image' || current.type === 'video');
+  if (!chapter?.background || !layer) {
+    return media;
+  }
+  return { ...media, [layer.id]: chapter.background };
+}
@@ -0,0 +1,551 @@
+/**
+ * WebGLのポストエフェクト（画面全体に掛けるシェーダーの連鎖）
+ * シーンをオフスクリーンのフレームバッファに描画し、有効なエフェクトを順番に適用して最後の1つを画面に出力する
+ * 各エフェクトの数値パラメータは音の帯域（低音・中音・高音・全体）の強さに連動させられる
+ * ユーザーが貼り付けたフラグメントシェーダーも、標準のuniform付きで1つのエフェクトとして使える
+ */
+
+import type { NumberModeParam } from './SpectrumModes';
+import { createProgram, createShader } from './WebGLShader';
+
+export type PostEffectType = 'bloom' | 'chromaticAberration' | 'vignette' | 'grain' | 'crt' | 'blur' | 'custom';
+
+export type SpectrumBand = 'bass' | 'mid' | 'treble' | 'level';
+
+export const SPECTRUM_BAND_OPTIONS: { value: SpectrumBand; label: string }[] = [
+  { value: 'bass', label: '低音' },
+  { value: 'mid', label: '中音' },
+  { value: 'treble', label: '高音' },
+  { value: 'level', label: '全体' },
+];
+
+// 帯域の周波数範囲（Hz）
+const BAND_RANGES: Record<SpectrumBand, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 4000],
+  treble: [4000, 16000],
+  level: [20, 16000],
+};
+
+export type BandLevels = Record<SpectrumBand, number>;
+
+// パラメータと帯域の連動（値 = 設定値 + amount × パラメータの範囲 × 帯域の強さ）
+export interface BandBinding {
+  band: SpectrumBand;
+  amount: number; // -1〜1
+}
+
+export interface PostEffectSettings {
+  id: string;
+  type: PostEffectType;
+  enabled: boolean;
+  params: Record<string, number>;
+  bindings?: Record<string, BandBinding>;
+  source?: string; // customのフラグメントシェーダー（main関数を含む本体）
+}
+
+export interface PostEffectDefinition {
+  type: PostEffectType;
+  label: string;
+  params: NumberModeParam[];
+  // 本体のGLSL（共通のuniformとパラメータのuniform u_<key>の宣言は自動で付く）
+  fragment: string;
+  // 追加時の連動の初期値
+  bindings?: Record<string, BandBinding>;
+}
+
+// 9×9のガウスぼかし（bloom・blurで共通）
+const GAUSSIAN_9X9 = `
+vec3 gaussian(vec2 uv, float radius, float threshold) {
+  vec3 sum = vec3(0.0);
+  float total = 0.0;
+  for (int x = -4; x <= 4; x++) {
+    for (int y = -4; y <= 4; y++) {
+      vec2 offset = vec2(float(x), float(y)) * (radius / 4.0) / u_resolution;
+      float weight = exp(-float(x * x + y * y) / 8.0);
+      sum += max(texture2D(u_texture, uv + offset).rgb - threshold, 0.0) * weight;
+      total += weight;
+    }
+  }
+  return sum / total;
+}
+`;
+
+export const POST_EFFECTS: PostEffectDefinition[] = [
+  {
+    type: 'bloom',
+    label: 'ブルーム（発光）',
+    params: [
+      { type: 'number', key: 'threshold', label: 'しきい値', min: 0, max: 1, step: 0.05, default: 0.6 },
+      { type: 'number', key: 'intensity', label: '強さ', min: 0, max: 3, step: 0.1, default: 1 },
+      { type: 'number', key: 'radius', label: '半径 (px)', min: 1, max: 40, step: 1, default: 8 },
+    ],
+    fragment: `${GAUSSIAN_9X9}
+void main() {
+  vec4 base = texture2D(u_texture, v_texCoord);
+  vec3 glow = gaussian(v_texCoord, u_radius, u_threshold);
+  gl_FragColor = vec4(base.rgb + glow * u_intensity, base.a);
+}
+`,
+  },
+  {
+    type: 'chromaticAberration',
+    label: '色収差',
+    params: [
+      { type: 'number', key: 'amount', label: 'ずれ (px)', min: 0, max: 30, step: 0.5, default: 3 },
+    ],
+    fragment: `
+void main() {
+  vec2 offset = (v_texCoord - 0.5) * 2.0 * u_amount / u_resolution;
+  vec4 base = texture2D(u_texture, v_texCoord);
+  float r = texture2D(u_texture, v_texCoord + offset).r;
+  float b = texture2D(u_texture, v_texCoord - offset).b;
+  gl_FragColor = vec4(r, base.g, b, base.a);
+}
+`,
+  },
+  {
+    type: 'vignette',
+    label: 'ビネット',
+    params: [
+      { type: 'number', key: 'intensity', label: '強さ', min: 0, max: 1, step: 0.05, default: 0.5 },
+      { type: 'number', key: 'radius', label: '半径', min: 0.2, max: 1.5, step: 0.05, default: 0.8 },
+      { type: 'number', key: 'softness', label: 'ぼかし', min: 0.05, max: 1, step: 0.05, default: 0.4 },
+    ],
+    fragment: `
+void main() {
+  vec4 base = texture2D(u_texture, v_texCoord);
+  float dist = length((v_texCoord - 0.5) * vec2(u_resolution.x / u_resolution.y, 1.0));
+  float shade = smoothstep(u_radius, u_radius - u_softness, dist);
+  gl_FragColor = vec4(base.rgb * mix(1.0, shade, u_intensity), base.a);
+}
+`,
+  },
+  {
+    type: 'grain',
+    label: 'フィルムグレイン',
+    params: [
+      { type: 'number', key: 'amount', label: '強さ', min: 0, max: 0.5, step: 0.01, default: 0.08 },
+    ],
+    fragment: `
+float random(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+void main() {
+  vec4 base = texture2D(u_texture, v_texCoord);
+  float noise = random(v_texCoord * u_resolution + fract(u_time) * 100.0) - 0.5;
+  gl_FragColor = vec4(base.rgb + noise * u_amount, base.a);
+}
+`,
+  },
+  {
+    type: 'crt',
+    label: 'CRT走査線',
+    params: [
+      { type: 'number', key: 'scanline', label: '走査線の濃さ', min: 0, max: 1, step: 0.05, default: 0.3 },
+      { type: 'number', key: 'lines', label: '走査線の本数', min: 100, max: 1500, step: 10, default: 540 },
+      { type: 'number', key: 'curvature', label: '画面の湾曲', min: 0, max: 0.3, step: 0.01, default: 0.08 },
+    ],
+    fragment: `
+void main() {
+  vec2 centered = v_texCoord - 0.5;
+  vec2 uv = centered * (1.0 + u_curvature * dot(centered, centered) * 4.0) + 0.5;
+  if (uv.x < 0.0 || uv.x > 1.0 || uv.y < 0.0 || uv.y > 1.0) {
+    gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+  vec4 base = texture2D(u_texture, uv);
+  float scan = 0.5 + 0.5 * sin(uv.y * u_lines * 3.14159265);
+  gl_FragColor = vec4(base.rgb * (1.0 - u_scanline * scan), base.a);
+}
+`,
+  },
+  {
+    type: 'blur',
+    label: 'ぼかし（音に反応）',
+    params: [
+      { type: 'number', key: 'radius', label: '半径 (px)', min: 0, max: 40, step: 1, default: 0 },
+    ],
+    fragment: `${GAUSSIAN_9X9}
+void main() {
+  vec4 base = texture2D(u_texture, v_texCoord);
+  gl_FragColor = u_radius < 0.5 ? base : vec4(gaussian(v_texCoord, u_radius, 0.0), base.a);
+}
+`,
+    bindings: { radius: { band: 'bass', amount: 0.5 } },
+  },
+  {
+    type: 'custom',
+    label: 'カスタムシェーダー',
+    params: [],
+    fragment: '',
+  },
+];
+
+// カスタムシェーダーの初期値
+export const DEFAULT_CUSTOM_SHADER = `void main() {
+  vec4 color = texture2D(u_texture, v_texCoord);
+  float wave = texture2D(u_spectrum, vec2(v_texCoord.x, 0.5)).r;
+  gl_FragColor = vec4(color.rgb + vec3(0.2, 0.1, 0.4) * wave * u_bass, color.a);
+}
+`;
+
+// 全エフェクト共通の宣言
+const FRAGMENT_HEADER = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+varying vec2 v_texCoord;
+uniform sampler2D u_texture; // 直前までの描画結果
+uniform sampler2D u_spectrum; // 周波数データ（横方向が周波数、赤チャンネルに0〜1の強さ）
+uniform vec2 u_resolution; // ピクセル数
+uniform float u_time; // 秒
+uniform float u_bass;
+uniform float u_mid;
+uniform float u_treble;
+uniform float u_level;
+`;
+
+const VERTEX_SOURCE = `
+attribute vec2 a_position;
+varying vec2 v_texCoord;
+
+void main() {
+  v_texCoord = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0, 1);
+}
+`;
+
+/**
+ * 種類からエフェクトの定義を取得
+ */
+export function getPostEffect(type: PostEffectType): PostEffectDefinition | undefined {
+  return POST_EFFECTS.find((effect) => effect.type === type);
+}
+
+/**
+ * 既定値でエフェクトの設定を作成
+ */
+export function createPostEffect(type: PostEffectType): PostEffectSettings {
+  const definition = getPostEffect(type);
+  const params: Record<string, number> = {};
+  for (const param of definition?.params ?? []) {
+    params[param.key] = param.default;
+  }
+  return {
+    id: `${type}_${Math.random().toString(36).slice(2, 10)}`,
+    type,
+    enabled: true,
+    params,
+    bindings: definition?.bindings ? { ...definition.bindings } : undefined,
+    source: type === 'custom' ? DEFAULT_CUSTOM_SHADER : undefined,
+  };
+}
+
+/**
+ * 周波数データ（getByteFrequencyDataの値）から帯域ごとの強さ（0〜1）を計算
+ */
+export function getBandLevels(data: Uint8Array, sampleRate: number): BandLevels {
+  const binHz = sampleRate / 2 / data.length;
+  const levels = {} as BandLevels;
+  for (const band of Object.keys(BAND_RANGES) as SpectrumBand[]) {
+    const [low, high] = BAND_RANGES[band];
+    const from = Math.max(0, Math.floor(low / binHz));
+    const to = Math.min(data.length, Math.max(from + 1, Math.ceil(high / binHz)));
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      sum += data[i];
+    }
+    levels[band] = to > from ? sum / (to - from) / 255 : 0;
+  }
+  return levels;
+}
+
+/**
+ * 帯域との連動を反映したパラメータの値（範囲外は端の値）
+ */
+export function resolvePostEffectParams(effect: PostEffectSettings, levels: BandLevels): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const param of getPostEffect(effect.type)?.params ?? []) {
+    const base = effect.params[param.key] ?? param.default;
+    const binding = effect.bindings?.[param.key];
+    const value = binding ? base + binding.amount * (param.max - param.min) * levels[binding.band] : base;
+    values[param.key] = Math.max(param.min, Math.min(param.max, value));
+  }
+  return values;
+}
+
+/**
+ * エフェクトの完全なフラグメントシェーダー
+ */
+function buildFragmentSource(effect: PostEffectSettings): string | null {
+  const definition = getPostEffect(effect.type);
+  if (!definition) {
+    return null;
+  }
+  const body = effect.type === 'custom' ? effect.source ?? '' : definition.fragment;
+  const uniforms = definition.params.map((param) => `uniform float u_${param.key};\n`).join('');
+  return FRAGMENT_HEADER + uniforms + body;
+}
+
+let checkContext: WebGLRenderingContext | null = null;
+
+/**
+ * カスタムシェーダーをコンパイルしてエラーを確認（問題なければnull）
+ */
+export function checkCustomShader(source: string): string | null {
+  if (!checkContext) {
+    checkContext = document.createElement('canvas').getContext('webgl');
+  }
+  const gl = checkContext;
+  if (!gl) {
+    return 'WebGLを利用できません';
+  }
+  const shader = gl.createShader(gl.FRAGMENT_SHADER);
+  if (!shader) {
+    return 'シェーダーを作成できません';
+  }
+  gl.shaderSource(shader, FRAGMENT_HEADER + source);
+  gl.compileShader(shader);
+  const error = gl.getShaderParameter(shader, gl.COMPILE_STATUS) ? null : gl.getShaderInfoLog(shader) ?? 'コンパイルエラー';
+  gl.deleteShader(shader);
+  return error;
+}
+
+interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+}
+
+interface CompiledEffect {
+  program: WebGLProgram;
+  positionLocation: number;
+  uniforms: Map<string, WebGLUniformLocation | null>;
+}
+
+export interface PostProcessInput {
+  time: number;
+  levels: BandLevels;
+  spectrum: Uint8Array;
+}
+
+type GL = WebGLRenderingContext | WebGL2RenderingContext;
+
+/**
+ * 画面全体のテクスチャを作成
+ */
+function createTexture(gl: GL, filter: number): WebGLTexture | null {
+  const texture = gl.createTexture();
+  if (!texture) return null;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+  return texture;
+}
+
+/**
+ * ポストエフェクトの実行
+ * begin()でオフスクリーンへの描画を開始し、シーンを描いた後にapply()でエフェクトを適用して画面へ出力する
+ */
+export class PostProcessor {
+  private targets: RenderTarget[] = [];
+  private size: [number, number] = [0, 0];
+  private quadBuffer: WebGLBuffer | null;
+  private spectrumTexture: WebGLTexture | null;
+  // フラグメントシェーダーのソースごとのプログラム（コンパイルに失敗したものはnull）
+  private programs = new Map<string, CompiledEffect | null>();
+
+  constructor(private gl: GL) {
+    this.quadBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]), gl.STATIC_DRAW);
+    this.spectrumTexture = createTexture(gl, gl.LINEAR);
+  }
+
+  /**
+   * オフスクリーンへの描画を開始（フレームバッファを用意できない場合はfalse）
+   */
+  begin(width: number, height: number): boolean {
+    const { gl } = this;
+    if (this.size[0] !== width || this.size[1] !== height || this.targets.length === 0) {
+      this.resizeTargets(width, height);
+    }
+    if (this.targets.length < 2) {
+      return false;
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.targets[0].framebuffer);
+    return true;
+  }
+
+  /**
+   * 有効なエフェクトを順に適用し、最後のエフェクトの結果を画面に描画
+   */
+  apply(effects: PostEffectSettings[], input: PostProcessInput): void {
+    const { gl } = this;
+    const [width, height] = this.size;
+    const passes: { compiled: CompiledEffect; params: Record<string, number> }[] = [];
+    // このフレームで使ったシェーダーのソース（それ以外のプログラムは最後に破棄する）
+    const usedSources = new Set<string>();
+    for (const effect of effects) {
+      const source = buildFragmentSource(effect);
+      if (source !== null) {
+        usedSources.add(source);
+      }
+      const keys = (getPostEffect(effect.type)?.params ?? []).map((param) => param.key);
+      const compiled = source === null ? null : this.getProgram(source, keys);
+      if (compiled) {
+        passes.push({ compiled, params: resolvePostEffectParams(effect, input.levels) });
+      }
+    }
+
+    gl.disable(gl.BLEND);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.spectrumTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.LUMINANCE, input.spectrum.length, 1, 0, gl.LUMINANCE, gl.UNSIGNED_BYTE, input.spectrum);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+    gl.activeTexture(gl.TEXTURE0);
+
+    // すべてのコンパイルに失敗した場合もシーンは表示する（そのままコピー）
+    if (passes.length === 0) {
+      usedSources.add(FRAGMENT_HEADER + COPY_SHADER);
+      const copy = this.getProgram(FRAGMENT_HEADER + COPY_SHADER, []);
+      if (copy) {
+        passes.push({ compiled: copy, params: {} });
+      }
+    }
+
+    let source = 0;
+    passes.forEach(({ compiled, params }, index) => {
+      const last = index === passes.length - 1;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, last ? null : this.targets[1 - source].framebuffer);
+      gl.viewport(0, 0, width, height);
+      gl.bindTexture(gl.TEXTURE_2D, this.targets[source].texture);
+      this.drawPass(compiled, params, input);
+      source = 1 - source;
+    });
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.enable(gl.BLEND);
+    this.evictPrograms(usedSources);
+  }
+
+  /**
+   * エフェクトを適用しないフレームで呼び、コンパイル済みのプログラムをすべて破棄（applyが呼ばれないため）
+   */
+  release(): void {
+    this.evictPrograms(new Set());
+  }
+
+  dispose(): void {
+    const { gl } = this;
+    this.deleteTargets();
+    this.programs.forEach((compiled) => {
+      if (compiled) gl.deleteProgram(compiled.program);
+    });
+    this.programs.clear();
+    gl.deleteBuffer(this.quadBuffer);
+    gl.deleteTexture(this.spectrumTexture);
+  }
+
+  private drawPass(compiled: CompiledEffect, params: Record<string, number>, input: PostProcessInput): void {
+    const { gl } = this;
+    const { program, positionLocation, uniforms } = compiled;
+    gl.useProgram(program);
+    gl.uniform1i(uniforms.get('u_texture') ?? null, 0);
+    gl.uniform1i(uniforms.get('u_spectrum') ?? null, 1);
+    gl.uniform2f(uniforms.get('u_resolution') ?? null, this.size[0], this.size[1]);
+    gl.uniform1f(uniforms.get('u_time') ?? null, input.time);
+    gl.uniform1f(uniforms.get('u_bass') ?? null, input.levels.bass);
+    gl.uniform1f(uniforms.get('u_mid') ?? null, input.levels.mid);
+    gl.uniform1f(uniforms.get('u_treble') ?? null, input.levels.treble);
+    gl.uniform1f(uniforms.get('u_level') ?? null, input.levels.level);
+    for (const key of Object.keys(params)) {
+      gl.uniform1f(uniforms.get(`u_${key}`) ?? null, params[key]);
+    }
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+    gl.enableVertexAttribArray(positionLocation);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  }
+
+  /**
+   * 使われなくなったプログラム（編集前のカスタムシェーダー・無効にしたエフェクト等）を破棄
+   */
+  private evictPrograms(usedSources: Set<string>): void {
+    this.programs.forEach((compiled, source) => {
+      if (usedSources.has(source)) {
+        return;
+      }
+      if (compiled) this.gl.deleteProgram(compiled.program);
+      this.programs.delete(source);
+    });
+  }
+
+  private getProgram(source: string, paramKeys: string[]): CompiledEffect | null {
+    if (this.programs.has(source)) {
+      return this.programs.get(source) ?? null;
+    }
+
+    const { gl } = this;
+    const vertexShader = createShader(gl, gl.VERTEX_SHADER, VERTEX_SOURCE);
+    const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, source);
+    const program = vertexShader && fragmentShader ? createProgram(gl, vertexShader, fragmentShader) : null;
+    if (!program) {
+      this.programs.set(source, null);
+      return null;
+    }
+
+    const uniforms = new Map<string, WebGLUniformLocation | null>();
+    const names = ['u_texture', 'u_spectrum', 'u_resolution', 'u_time', 'u_bass', 'u_mid', 'u_treble', 'u_level'];
+    names.push(...paramKeys.map((key) => `u_${key}`));
+    for (const name of names) {
+      uniforms.set(name, gl.getUniformLocation(program, name));
+    }
+    const compiled = { program, positionLocation: gl.getAttribLocation(program, 'a_position'), uniforms };
+    this.programs.set(source, compiled);
+    return compiled;
+  }
+
+  private resizeTargets(width: number, height: number): void {
+    const { gl } = this;
+    this.deleteTargets();
+    this.size = [width, height];
+    for (let i = 0; i < 2; i++) {
+      const texture = createTexture(gl, gl.LINEAR);
+      const framebuffer = gl.createFramebuffer();
+      if (!texture || !framebuffer) {
+        return;
+      }
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+      gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+      gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+      this.targets.push({ framebuffer, texture });
+    }
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      console.error('Post-processing framebuffer is incomplete');
+      this.deleteTargets();
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+  }
+
+  private deleteTargets(): void {
+    const { gl } = this;
+    for (const target of this.targets) {
+      gl.deleteFramebuffer(target.framebuffer);
+      gl.deleteTexture(target.texture);
+    }
+    this.targets = [];
+  }
+}
+
+const COPY_SHADER = `
+void main() {
+  gl_FragColor = texture2D(u_texture, v_texCoord);
+}
+`;
@@ -0,0 +1,704 @@
+/**
+ * シーン（レイヤーの重ね合わせ）
+ * 画像・動画・ロゴ・スペクトラム・テキスト・歌詞・図形のレイヤーを下から順に描画する
+ * レイヤーの配置（位置・大きさ・回転・不透明度・合成方法）と描画の流れはここで共通化し、
+ * 画像の描画だけを各レンダラーが実装する（Canvas 2D・WebGL・書き出しで同じ見た目になる）
+ */
+
+import {
+  BackgroundCache,
+  createCanvas,
+  createDomCanvas,
+  resolveBackground,
+  type BackgroundImage,
+  type BackgroundSettings,
+  type CanvasFactory,
+} from './Background';
+import type { BackgroundMedia } from './BackgroundMedia';
+import { applyPulse, type BeatReactionSettings, type BeatReactionValues } from './BeatReactions';
+import { BLEND_MODE_OPTIONS, hexToRgba, type BlendMode, type DrawSurface } from './DrawSurface';
+import { BUILTIN_FONT_OPTIONS, getFontsVersion, toCssFontFamily } from './Fonts';
+import { findActiveCue, getKaraokeProgress, type KaraokeProgress } from './Lyrics';
+import type { PostEffectSettings } from './PostProcessing';
+import {
+  drawVisualizerMode,
+  getVisualizerMode,
+  type BackendModeDraw,
+  type ModeParamSchema,
+  type ModeState,
+} from './SpectrumModes';
+import { DEFAULT_MODE_ADJUSTMENTS, type ModeAdjustments, type SpectrumFrame } from './SpectrumRenderer';
+
+export type SceneLayerType = 'image' | 'video' | 'logo' | 'spectrum' | 'text' | 'lyrics' | 'shape';
+
+export const SCENE_LAYER_TYPE_OPTIONS: { value: SceneLayerType; label: string }[] = [
+  { value: 'image', label: '画像' },
+  { value: 'video', label: '動画' },
+  { value: 'logo', label: 'ロゴ' },
+  { value: 'spectrum', label: 'スペクトラム' },
+  { value: 'text', label: 'テキスト' },
+  { value: 'lyrics', label: '歌詞' },
+  { value: 'shape', label: '図形' },
+];
+
+interface SceneLayerBase {
+  id: string;
+  name: string;
+  visible: boolean;
+  x: number; // 中心の横位置（キャンバスの幅に対する%）
+  y: number; // 中心の縦位置（キャンバスの高さに対する%）
+  width: number; // キャンバスの幅に対する%
+  height: number; // キャンバスの高さに対する%
+  rotation: number; // 中心を軸にした回転（度）
+  opacity: number; // 0〜1
+  blend: BlendMode;
+}
+
+// 画像・動画・ロゴ（素材はレイヤーのidをキーにしたSceneMediaで別に持つ）
+// ロゴは余白を塗らずに画像だけを描く
+export interface MediaLayer extends SceneLayerBase {
+  type: 'image' | 'video' | 'logo';
+  background?: Partial<BackgroundSettings>; // レイヤーの枠内での配置（未設定の項目は既定値）
+}
+
+// スペクトラム（表示調整はレイヤーの枠をキャンバスとみなして適用する）
+export interface SpectrumLayer extends SceneLayerBase {
+  type: 'spectrum';
+  mode: number;
+  adjustments: ModeAdjustments;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// 文字の見た目（テキストレイヤー・歌詞レイヤーで共通）
+export interface TextStyle {
+  fontFamily: string; // 総称フォント名、または読み込んだフォントのファミリー名
+  fontSize: number; // px（書き出し解像度での大きさ）
+  bold: boolean;
+  color: string; // #rrggbb
+  align: TextAlign;
+  strokeWidth: number; // 縁取りの太さ（px、0で縁取りなし）
+  strokeColor: string; // #rrggbb
+  shadow: boolean;
+  shadowColor: string; // #rrggbb
+  shadowBlur: number; // px
+  shadowOffsetX: number; // px
+  shadowOffsetY: number; // px
+}
+
+// textには{title}などの差し込み（TEXT_TOKENS）を含められる
+export interface TextLayer extends SceneLayerBase, TextStyle {
+  type: 'text';
+  text: string; // 改行で複数行
+}
+
+// 歌詞（読み込んだ歌詞ファイルのうち、再生位置で表示中の行を描く）
+export interface LyricsLayer extends SceneLayerBase, TextStyle {
+  type: 'lyrics';
+  karaoke: boolean; // 単語のタイミングがある行を歌った部分から塗り分ける
+  highlightColor: string; // 歌った部分の色（#rrggbb）
+  offset: number; // 表示のずれの補正（秒、正の値で遅く表示する）
+}
+
+export type ShapeKind = 'rect' | 'ellipse';
+
+export interface ShapeLayer extends SceneLayerBase {
+  type: 'shape';
+  shape: ShapeKind;
+  color: string; // #rrggbb
+}
+
+export type SceneLayer = MediaLayer | SpectrumLayer | TextLayer | LyricsLayer | ShapeLayer;
+
+export interface Scene {
+  layers: SceneLayer[]; // 下から順（後のレイヤーが上に描かれる）
+  backgroundColor: string; // レイヤーの下の塗り（#rrggbb）
+  beat?: BeatReactionSettings; // ビートへの反応（未設定の場合は反応しない）
+  postEffects?: PostEffectSettings[]; // ポストエフェクト（適用順、WebGLのみ）
+}
+
+// 読み込んだ曲の情報（テキストレイヤーの差し込みに使う）
+export interface TrackInfo {
+  title: string;
+  artist: string;
+  album: string;
+  duration: number; // 秒
+  start?: number; // 曲の先頭の時刻（秒、プレイリストでつないだ音声の中での位置。経過時間はここから数える）
+}
+
+// メディアレイヤーの素材（キーはレイヤーのid）
+export type SceneMedia = Record<string, BackgroundMedia>;
+
+// メディアレイヤーのこのフレームで表示するもの
+export interface LayerImage {
+  image: BackgroundImage | null;
+  animated: boolean; // 内容がフレームごとに変わる（キャッシュせずに毎フレーム描く）
+}
+
+export const DEFAULT_SCENE_BACKGROUND_COLOR = '#222222';
+
+// テキストレイヤーの差し込み（UIの説明にも使う）
+export const TEXT_TOKENS: { token: string; label: string }[] = [
+  { token: '{title}', label: '曲名' },
+  { token: '{artist}', label: 'アーティスト' },
+  { token: '{album}', label: 'アルバム' },
+  { token: '{elapsed}', label: '経過時間' },
+  { token: '{remaining}', label: '残り時間' },
+  { token: '{duration}', label: '曲の長さ' },
+];
+
+// 文字の見た目の既定値
+const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: 'sans-serif',
+  fontSize: 72,
+  bold: true,
+  color: '#ffffff',
+  align: 'center',
+  strokeWidth: 0,
+  strokeColor: '#000000',
+  shadow: false,
+  shadowColor: '#000000',
+  shadowBlur: 8,
+  shadowOffsetX: 4,
+  shadowOffsetY: 4,
+};
+
+// 調整UIの定義（モード固有パラメータと同じ形式でModeParamControlsに渡す）
+export const LAYER_PARAMS: ModeParamSchema[] = [
+  { type: 'number', key: 'x', label: '中心 横（%）', min: -50, max: 150, step: 0.5, default: 50 },
+  { type: 'number', key: 'y', label: '中心 縦（%）', min: -50, max: 150, step: 0.5, default: 50 },
+  { type: 'number', key: 'width', label: '幅（%）', min: 1, max: 300, step: 0.5, default: 100 },
+  { type: 'number', key: 'height', label: '高さ（%）', min: 1, max: 300, step: 0.5, default: 100 },
+  { type: 'number', key: 'rotation', label: '回転（度）', min: -180, max: 180, step: 1, default: 0 },
+  { type: 'number', key: 'opacity', label: '不透明度', min: 0, max: 1, step: 0.05, default: 1 },
+  { type: 'select', key: 'blend', label: '合成', options: BLEND_MODE_OPTIONS, default: 'normal' },
+];
+
+export const SCENE_PARAMS: ModeParamSchema[] = [
+  { type: 'color', key: 'backgroundColor', label: '背景色', default: DEFAULT_SCENE_BACKGROUND_COLOR },
+];
+
+export const TEXT_LAYER_PARAMS: ModeParamSchema[] = [
+  // 読み込んだフォントは調整UIで選択肢に加える
+  { type: 'select', key: 'fontFamily', label: 'フォント', options: BUILTIN_FONT_OPTIONS, default: 'sans-serif' },
+  { type: 'number', key: 'fontSize', label: '文字の大きさ（px）', min: 8, max: 400, step: 1, default: 72 },
+  { type: 'boolean', key: 'bold', label: '太字', default: true },
+  { type: 'color', key: 'color', label: '色', default: '#ffffff' },
+  {
+    type: 'select',
+    key: 'align',
+    label: '揃え',
+    options: [
+      { value: 'left', label: '左' },
+      { value: 'center', label: '中央' },
+      { value: 'right', label: '右' },
+    ],
+    default: 'center',
+  },
+  { type: 'number', key: 'strokeWidth', label: '縁取りの太さ（px）', min: 0, max: 40, step: 1, default: 0 },
+  { type: 'color', key: 'strokeColor', label: '縁取りの色', default: '#000000' },
+  { type: 'boolean', key: 'shadow', label: '影', default: false },
+  { type: 'color', key: 'shadowColor', label: '影の色', default: '#000000' },
+  { type: 'number', key: 'shadowBlur', label: '影のぼかし（px）', min: 0, max: 100, step: 1, default: 8 },
+  { type: 'number', key: 'shadowOffsetX', label: '影の横位置（px）', min: -50, max: 50, step: 1, default: 4 },
+  { type: 'number', key: 'shadowOffsetY', label: '影の縦位置（px）', min: -50, max: 50, step: 1, default: 4 },
+];
+
+// 文字の見た目は歌詞レイヤーでもTEXT_LAYER_PARAMSを使う
+export const LYRICS_LAYER_PARAMS: ModeParamSchema[] = [
+  { type: 'boolean', key: 'karaoke', label: 'カラオケ表示（単語のタイミングがある歌詞）', default: true },
+  { type: 'color', key: 'highlightColor', label: '歌った部分の色', default: '#ffd54f' },
+  { type: 'number', key: 'offset', label: '表示のずれの補正（秒）', min: -5, max: 5, step: 0.05, default: 0 },
+];
+
+export const SHAPE_LAYER_PARAMS: ModeParamSchema[] = [
+  {
+    type: 'select',
+    key: 'shape',
+    label: '形',
+    options: [
+      { value: 'rect', label: '四角形' },
+      { value: 'ellipse', label: '楕円' },
+    ],
+    default: 'rect',
+  },
+  { type: 'color', key: 'color', label: '色', default: '#ffffff' },
+];
+
+// 楕円を近似する多角形の分割数
+const ELLIPSE_SEGMENTS = 64;
+
+/**
+ * 種類ごとの既定の配置でレイヤーを作成
+ */
+export function createSceneLayer(type: SceneLayerType): SceneLayer {
+  const label = SCENE_LAYER_TYPE_OPTIONS.find((option) => option.value === type)?.label ?? type;
+  const base: SceneLayerBase = {
+    id: `${type}_${Math.random().toString(36).slice(2, 10)}`,
+    name: label,
+    visible: true,
+    x: 50,
+    y: 50,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    opacity: 1,
+    blend: 'normal',
+  };
+  switch (type) {
+    case 'spectrum':
+      return { ...base, type, mode: 0, adjustments: DEFAULT_MODE_ADJUSTMENTS };
+    case 'text':
+      return {
+        ...base,
+        type,
+        y: 85,
+        width: 90,
+        height: 15,
+        ...DEFAULT_TEXT_STYLE,
+        text: 'テキスト',
+      };
+    case 'lyrics':
+      return {
+        ...base,
+        type,
+        y: 85,
+        width: 90,
+        height: 15,
+        ...DEFAULT_TEXT_STYLE,
+        fontSize: 64,
+        strokeWidth: 4,
+        karaoke: true,
+        highlightColor: '#ffd54f',
+        offset: 0,
+      };
+    case 'shape':
+      return { ...base, type, width: 30, height: 30, opacity: 0.5, shape: 'rect', color: '#ffffff' };
+    case 'logo':
+      return { ...base, type, x: 90, y: 12, width: 15, height: 15 };
+    default:
+      return { ...base, type };
+  }
+}
+
+/**
+ * 既定のシーン（キャンバス全体の背景画像 + スペクトラム）
+ * 解像度ごとのシーンで素材を共有できるよう、既定のレイヤーのidは固定
+ */
+export function createDefaultScene(): Scene {
+  return {
+    layers: [
+      { ...createSceneLayer('image'), id: 'background', name: '背景' },
+      { ...createSceneLayer('spectrum'), id: 'spectrum' },
+    ],
+    backgroundColor: DEFAULT_SCENE_BACKGROUND_COLOR,
+  };
+}
+
+/**
+ * 保存されたシーン（古い形式や未設定の項目を含む）を既定値で補完
+ */
+export function resolveScene(saved: Partial<Scene> | null | undefined): Scene {
+  if (!saved || !Array.isArray(saved.layers)) {
+    return createDefaultScene();
+  }
+  const layers = saved.layers
+    .filter((layer) => SCENE_LAYER_TYPE_OPTIONS.some((option) => option.value === layer?.type))
+    .map((layer) => ({ ...createSceneLayer(layer.type), ...layer } as SceneLayer));
+  return {
+    ...saved,
+    layers,
+    backgroundColor: saved.backgroundColor ?? DEFAULT_SCENE_BACKGROUND_COLOR,
+  };
+}
+
+/**
+ * メディアレイヤーかどうか判定
+ */
+export function isMediaLayer(layer: SceneLayer): layer is MediaLayer {
+  return layer.type === 'image' || layer.type === 'video' || layer.type === 'logo';
+}
+
+/**
+ * 表示中のスペクトラムレイヤーにステレオ系モード（チャンネル別の解析を使う）があるか
+ */
+export function hasStereoLayer(scene: Scene): boolean {
+  return scene.layers.some(
+    (layer) => layer.type === 'spectrum' && layer.visible && Boolean(getVisualizerMode(layer.mode)?.stereo)
+  );
+}
+
+/**
+ * メディアレイヤーの配置（ロゴは余白を塗らないため背景色・ぼかし塗りは使われない）
+ */
+export function resolveLayerBackground(layer: MediaLayer): BackgroundSettings {
+  return resolveBackground(layer.background);
+}
+
+/**
+ * 各メディアレイヤーの表示するフレームを取得
+ * 再生方法が'sync'のレイヤーはsyncTime（音声の再生位置）、'loop'のレイヤーはloopTimeのフレームになる
+ */
+export function getLayerImages(
+  scene: Scene,
+  media: SceneMedia,
+  syncTime: number,
+  loopTime: number
+): Record<string, LayerImage> {
+  const images: Record<string, LayerImage> = {};
+  for (const layer of scene.layers) {
+    const source = media[layer.id];
+    if (!isMediaLayer(layer) || !source || !layer.visible) {
+      continue;
+    }
+    const { playback } = resolveLayerBackground(layer);
+    images[layer.id] = {
+      image: source.frameAt(playback === 'sync' ? syncTime : loopTime, playback),
+      animated: source.animated,
+    };
+  }
+  return images;
+}
+
+/**
+ * 書き出し用：すべてのメディアレイヤーで時刻timeのフレームを表示できるまで待つ
+ */
+export async function seekLayerMedia(scene: Scene, media: SceneMedia, time: number): Promise<void> {
+  await Promise.all(
+    scene.layers.filter(isMediaLayer).map((layer) =>
+      media[layer.id]?.seek(time, resolveLayerBackground(layer).playback)
+    )
+  );
+}
+
+/**
+ * レイヤーの枠の大きさ（px）
+ */
+export function getLayerSize(layer: SceneLayer, canvasWidth: number, canvasHeight: number): [number, number] {
+  return [(canvasWidth * layer.width) / 100, (canvasHeight * layer.height) / 100];
+}
+
+/**
+ * レイヤーの枠の左上を原点とする座標系にし、不透明度と合成方法を設定する
+ * 戻り値は枠の大きさ（px）
+ */
+function applyLayerTransform(
+  surface: DrawSurface,
+  layer: SceneLayer,
+  canvasWidth: number,
+  canvasHeight: number
+): [number, number] {
+  const [width, height] = getLayerSize(layer, canvasWidth, canvasHeight);
+  surface.translate((canvasWidth * layer.x) / 100, (canvasHeight * layer.y) / 100);
+  surface.rotate((layer.rotation * Math.PI) / 180);
+  surface.translate(-width / 2, -height / 2);
+  surface.globalAlpha *= layer.opacity;
+  surface.blendMode = layer.blend;
+  return [width, height];
+}
+
+/**
+ * 図形レイヤーを枠いっぱいに描画
+ */
+function drawShape(surface: DrawSurface, layer: ShapeLayer, width: number, height: number): void {
+  const color = hexToRgba(layer.color, 1);
+  if (layer.shape !== 'ellipse') {
+    surface.fillRect(0, 0, width, height, color);
+    return;
+  }
+  const points: number[] = [];
+  for (let i = 0; i < ELLIPSE_SEGMENTS; i++) {
+    const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+    points.push(width / 2 + (Math.cos(angle) * width) / 2, height / 2 + (Math.sin(angle) * height) / 2);
+  }
+  surface.fillPolygon(points, color);
+}
+
+/**
+ * 秒を「分:秒」（1時間以上は「時:分:秒」）にする
+ */
+export function formatTimecode(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * テキストの差し込みを曲の情報と再生位置（秒）で置き換える
+ * 曲を読み込んでいない場合、曲名・アーティスト・アルバムは空、時間は0:00になる
+ */
+export function resolveTextTokens(text: string, track: TrackInfo | null | undefined, playbackTime: number): string {
+  const duration = track?.duration ?? 0;
+  const elapsed = Math.min(Math.max(playbackTime - (track?.start ?? 0), 0), duration);
+  const values: Record<string, string> = {
+    title: track?.title ?? '',
+    artist: track?.artist ?? '',
+    album: track?.album ?? '',
+    elapsed: formatTimecode(elapsed),
+    remaining: formatTimecode(duration - elapsed),
+    duration: formatTimecode(duration),
+  };
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+// カラオケ表示の塗り分け（1行目に適用する）
+interface TextHighlight extends KaraokeProgress {
+  color: string; // #rrggbb
+}
+
+/**
+ * テキストを枠の大きさのキャンバスに描画（枠の縦方向の中央に揃える）
+ * 以前の内容は消して描き直す。影は縁取りと文字の両方に付き、縁取りは文字の外側だけに見える
+ */
+function rasterizeText(canvas: HTMLCanvasElement, style: TextStyle, text: string, highlight: TextHighlight | null): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return;
+  }
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  // 影などの設定を前回の描画から引き継がない
+  ctx.save();
+  const lines = text.split('\n');
+  const lineHeight = style.fontSize * 1.2;
+  ctx.font = `${style.bold ? 'bold ' : ''}${style.fontSize}px ${toCssFontFamily(style.fontFamily)}`;
+  ctx.fillStyle = style.color;
+  ctx.textAlign = style.align;
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = style.strokeColor;
+  // 線の半分は文字に隠れるため2倍の太さで描く
+  ctx.lineWidth = style.strokeWidth * 2;
+  const x = style.align === 'left' ? 0 : style.align === 'right' ? canvas.width : canvas.width / 2;
+  const top = canvas.height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, index) => {
+    const y = top + index * lineHeight;
+    if (style.shadow) {
+      ctx.shadowColor = style.shadowColor;
+      ctx.shadowBlur = style.shadowBlur;
+      ctx.shadowOffsetX = style.shadowOffsetX;
+      ctx.shadowOffsetY = style.shadowOffsetY;
+    }
+    if (style.strokeWidth > 0) {
+      ctx.strokeText(line, x, y);
+      // 影は縁取りに付けたので、文字には重ねない
+      ctx.shadowColor = 'transparent';
+    }
+    ctx.fillText(line, x, y);
+    if (highlight && index === 0) {
+      // 歌った部分までを切り抜いて、同じ文字を別の色で重ねる
+      const lineWidth = ctx.measureText(line).width;
+      const sungWidth = ctx.measureText(line.slice(0, highlight.sung)).width;
+      const nextWidth = ctx.measureText(line.slice(0, highlight.next)).width;
+      const left = style.align === 'left' ? x : style.align === 'right' ? x - lineWidth : x - lineWidth / 2;
+      ctx.save();
+      ctx.shadowColor = 'transparent';
+      ctx.beginPath();
+      ctx.rect(left, 0, sungWidth + (nextWidth - sungWidth) * highlight.partial, canvas.height);
+      ctx.clip();
+      ctx.fillStyle = highlight.color;
+      ctx.fillText(line, x, y);
+      ctx.restore();
+    }
+  });
+  ctx.restore();
+}
+
+/**
+ * レイヤーごとにフレーム間で保持するもの（モードの状態・背景のキャッシュ・テキストの画像）
+ * レンダラーごとに1つ持つ。背景・テキストの画像はcanvasFactoryで作ったキャンバスに描く
+ */
+export class SceneState {
+  private modeStates = new Map<string, { mode: number; state: ModeState }>();
+  private backgrounds = new Map<string, BackgroundCache>();
+  private texts = new Map<string, { key: string; canvas: HTMLCanvasElement }>();
+
+  constructor(private canvasFactory: CanvasFactory = createDomCanvas) {}
+
+  // モードを切り替えた場合は状態を作り直す
+  getModeState(layer: SpectrumLayer): ModeState {
+    const entry = this.modeStates.get(layer.id);
+    if (entry && entry.mode === layer.mode) {
+      return entry.state;
+    }
+    entry?.state.dispose?.();
+    const state: ModeState = {};
+    this.modeStates.set(layer.id, { mode: layer.mode, state });
+    return state;
+  }
+
+  getBackgroundCache(layerId: string): BackgroundCache {
+    let cache = this.backgrounds.get(layerId);
+    if (!cache) {
+      cache = new BackgroundCache(this.canvasFactory);
+      this.backgrounds.set(layerId, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * テキストを描いたキャンバスと、このフレームで描き直したか
+   * 差し込み後の内容・大きさ・フォント・塗り分けが変わった時だけ描き直し、キャンバスは大きさが変わった時だけ作り直す
+   * 塗り分けの進み具合は1%単位に丸める（描き直す回数を抑え、プレビューと書き出しで同じ結果にする）
+   */
+  getTextCanvas(
+    layer: TextLayer | LyricsLayer,
+    text: string,
+    width: number,
+    height: number,
+    highlight: TextHighlight | null = null
+  ): { canvas: HTMLCanvasElement; redrawn: boolean } {
+    const rounded = highlight && { ...highlight, partial: Math.round(highlight.partial * 100) / 100 };
+    const key = [Math.round(width), Math.round(height), text, getFontsVersion(), layer.fontFamily, layer.fontSize,
+      layer.bold, layer.color, layer.align, layer.strokeWidth, layer.strokeColor, layer.shadow, layer.shadowColor,
+      layer.shadowBlur, layer.shadowOffsetX, layer.shadowOffsetY,
+      rounded && [rounded.color, rounded.sung, rounded.next, rounded.partial].join(',')].join('\u0000');
+    const cached = this.texts.get(layer.id);
+    if (cached && cached.key === key) {
+      return { canvas: cached.canvas, redrawn: false };
+    }
+    const sameSize = cached && cached.canvas.width === Math.max(1, Math.round(width)) &&
+      cached.canvas.height === Math.max(1, Math.round(height));
+    const canvas = sameSize ? cached.canvas : createCanvas(this.canvasFactory, width, height);
+    rasterizeText(canvas, layer, text, rounded);
+    this.texts.set(layer.id, { key, canvas });
+    return { canvas, redrawn: true };
+  }
+
+  /**
+   * シーンにないレイヤーのものを削除
+   */
+  prune(scene: Scene): void {
+    const ids = new Set(scene.layers.map((layer) => layer.id));
+    this.modeStates.forEach(({ state }, id) => {
+      if (!ids.has(id)) {
+        state.dispose?.();
+      }
+    });
+    for (const map of [this.modeStates, this.backgrounds, this.texts]) {
+      for (const id of Array.from(map.keys())) {
+        if (!ids.has(id)) {
+          map.delete(id);
+        }
+      }
+    }
+  }
+
+  // キャンバスサイズ変更時など、画像のキャッシュだけを破棄
+  clearImages(): void {
+    this.backgrounds.clear();
+    this.texts.clear();
+  }
+
+  clear(): void {
+    this.modeStates.forEach(({ state }) => state.dispose?.());
+    this.modeStates.clear();
+    this.clearImages();
+  }
+}
+
+// レンダラーごとの画像の描画（現在の変換・不透明度・合成方法で、枠の左上を原点とした座標に描く）
+export interface SceneBackend {
+  // メディアレイヤーを0, 0〜width, heightの枠に描画
+  drawMedia(layer: MediaLayer, image: LayerImage & { image: BackgroundImage }, width: number, height: number): void;
+  // テキスト・歌詞レイヤーの画像を0, 0〜width, heightに描画（redrawnは同じキャンバスに描き直した場合もtrue）
+  drawText(
+    layer: TextLayer | LyricsLayer,
+    text: { canvas: HTMLCanvasElement; redrawn: boolean },
+    width: number,
+    height: number
+  ): void;
+  // スペクトラムのモード固有の描画
+  drawMode: BackendModeDraw;
+}
+
+/**
+ * シーンを描画
+ * 背景色で塗り、揺れを全体に、背景ズームを画像・動画レイヤーに、パルスをスペクトラムレイヤーに適用して
+ * レイヤーを下から順に描き、最後にフラッシュを重ねる
+ */
+export function drawScene(
+  surface: DrawSurface,
+  frame: SpectrumFrame,
+  reactions: BeatReactionValues,
+  state: SceneState,
+  backend: SceneBackend
+): void {
+  const { scene } = frame;
+  const { width: canvasWidth, height: canvasHeight } = surface;
+  state.prune(scene);
+
+  surface.fillRect(0, 0, canvasWidth, canvasHeight, hexToRgba(scene.backgroundColor, 1));
+
+  surface.save();
+  surface.translate(reactions.shakeX, reactions.shakeY);
+  for (const layer of scene.layers) {
+    if (!layer.visible || layer.opacity <= 0) {
+      continue;
+    }
+    surface.save();
+    const [width, height] = applyLayerTransform(surface, layer, canvasWidth, canvasHeight);
+    switch (layer.type) {
+      case 'spectrum':
+        drawVisualizerMode(
+          surface,
+          frame,
+          { ...layer, adjustments: applyPulse(layer.adjustments, reactions) },
+          width,
+          height,
+          state.getModeState(layer),
+          backend.drawMode
+        );
+        break;
+      case 'text': {
+        const text = resolveTextTokens(layer.text, frame.track, frame.playbackTime);
+        backend.drawText(layer, state.getTextCanvas(layer, text, width, height), width, height);
+        break;
+      }
+      case 'lyrics': {
+        const time = frame.playbackTime - layer.offset;
+        const cue = frame.lyrics ? findActiveCue(frame.lyrics, time) : null;
+        if (!cue) {
+          break;
+        }
+        const progress = layer.karaoke ? getKaraokeProgress(cue, time) : null;
+        const highlight = progress && { ...progress, color: layer.highlightColor };
+        backend.drawText(layer, state.getTextCanvas(layer, cue.text, width, height, highlight), width, height);
+        break;
+      }
+      case 'shape':
+        drawShape(surface, layer, width, height);
+        break;
+      default: {
+        const current = frame.layerImages[layer.id];
+        if (!current?.image) {
+          break;
+        }
+        // 背景ズームは枠の中心を基準に拡大する（ロゴには適用しない）
+        const zoom = layer.type === 'logo' ? 1 : 1 + reactions.zoom;
+        surface.translate((width - width * zoom) / 2, (height - height * zoom) / 2);
+        surface.scale(zoom, zoom);
+        backend.drawMedia(layer, { ...current, image: current.image }, width, height);
+        break;
+      }
+    }
+    surface.restore();
+  }
+  surface.restore();
+
+  if (reactions.flash > 0) {
+    surface.fillRect(0, 0, canvasWidth, canvasHeight, [1, 1, 1, reactions.flash]);
+  }
+}
+
+/**
+ * 黒へのフェードを重ねる（fade: 0で何もしない、1で真っ黒）
+ * ポストエフェクトの後に重ねるため、drawSceneとは別にレンダラーが最後に呼ぶ
+ */
+export function drawFadeToBlack(surface: DrawSurface, fade: number): void {
+  if (fade <= 0) {
+    return;
+  }
+  surface.fillRect(0, 0, surface.width, surface.height, [0, 0, 0, Math.min(fade, 1)]);
+}
@@ -0,0 +1,315 @@
+/**
+ * スペクトログラムの描画（Canvas 2D / WebGL）
+ * 履歴（SpectrumHistory）を1枚の画像として保持し、追加された行だけを更新して拡大描画する
+ * 座標は周波数方向がx（0〜length）、時間方向がy（0〜depth、上が古く下が新しい）
+ */
+
+import type { Transform } from './DrawSurface';
+import { getColormapLut, type Colormap } from './Colormap';
+import type { SpectrumHistory } from './SpectrumHistory';
+import { createProgram, createShader } from './WebGLShader';
+
+/**
+ * リングバッファの行を古い順に並べて描くための2つの区間（[開始行, 行数]）
+ */
+function ringSlices(history: SpectrumHistory): [number, number][] {
+  const older = history.rows - 1 - history.head;
+  return [
+    [history.head + 1, older],
+    [0, history.head + 1],
+  ];
+}
+
+/**
+ * Canvas 2D: 履歴をカラーマップ適用済みのImageDataに書き込み、オフスクリーンキャンバスから描画
+ */
+export class SpectrogramCanvas2D {
+  private canvas: HTMLCanvasElement | null = null;
+  private image: ImageData | null = null;
+  private colormap: Colormap | null = null;
+
+  draw(
+    ctx: CanvasRenderingContext2D,
+    history: SpectrumHistory,
+    colormap: Colormap,
+    length: number,
+    depth: number,
+    opacity: number
+  ): void {
+    const { rows, columns } = history;
+    if (rows === 0 || columns === 0) {
+      return;
+    }
+
+    let { canvas, image } = this;
+    const full = !canvas || !image || image.width !== columns || image.height !== rows ||
+      this.colormap !== colormap || history.written >= rows;
+    if (!canvas || !image || image.width !== columns || image.height !== rows) {
+      canvas = document.createElement('canvas');
+      canvas.width = columns;
+      canvas.height = rows;
+      image = new ImageData(columns, rows);
+      this.canvas = canvas;
+      this.image = image;
+    }
+    this.colormap = colormap;
+
+    const offscreenCtx = canvas.getContext('2d');
+    if (!offscreenCtx) {
+      return;
+    }
+    const lut = getColormapLut(colormap);
+    const paintRow = (row: number) => {
+      for (let i = 0; i < columns; i++) {
+        const value = history.data[row * columns + i];
+        (image as ImageData).data.set(lut.subarray(value * 4, value * 4 + 4), (row * columns + i) * 4);
+      }
+    };
+    if (full) {
+      for (let row = 0; row < rows; row++) {
+        paintRow(row);
+      }
+      offscreenCtx.putImageData(image, 0, 0);
+    } else {
+      for (let age = 0; age < history.written; age++) {
+        const row = history.rowAt(age);
+        paintRow(row);
+        offscreenCtx.putImageData(image, 0, 0, 0, row, columns, 1);
+      }
+    }
+
+    ctx.save();
+    ctx.globalAlpha *= opacity;
+    // 行の境目がにじまないよう補間しない（WebGLのNEARESTと揃える）
+    ctx.imageSmoothingEnabled = false;
+    let y = 0;
+    for (const [start, count] of ringSlices(history)) {
+      if (count === 0) continue;
+      const height = (count / rows) * depth;
+      ctx.drawImage(canvas, 0, start, columns, count, 0, y, length, height);
+      y += height;
+    }
+    ctx.restore();
+  }
+}
+
+// 頂点シェーダー（スペクトログラム用）
+const vertexShaderSource = `
+attribute vec2 a_position;
+attribute vec2 a_texCoord;
+uniform vec2 u_resolution;
+varying vec2 v_texCoord;
+
+void main() {
+  vec2 clipSpace = (a_position / u_resolution) * 2.0 - 1.0;
+  gl_Position = vec4(clipSpace * vec2(1, -1), 0, 1);
+  v_texCoord = a_texCoord;
+}
+`;
+
+// フラグメントシェーダー（履歴の強度をカラーマップで色に変換）
+const fragmentShaderSource = `
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+varying vec2 v_texCoord;
+uniform sampler2D u_history;
+uniform sampler2D u_colormap;
+uniform float u_offset;
+uniform float u_opacity;
+
+void main() {
+  float value = texture2D(u_history, vec2(v_texCoord.x, fract(v_texCoord.y + u_offset))).r;
+  vec4 color = texture2D(u_colormap, vec2((value * 255.0 + 0.5) / 256.0, 0.5));
+  float alpha = color.a * u_opacity;
+  gl_FragColor = vec4(color.rgb * alpha, alpha);
+}
+`;
+
+type GL = WebGLRenderingContext | WebGL2RenderingContext;
+
+interface SpectrogramGLResources {
+  gl: GL;
+  program: WebGLProgram;
+  shaders: WebGLShader[];
+  positionBuffer: WebGLBuffer;
+  texCoordBuffer: WebGLBuffer;
+  historyTexture: WebGLTexture;
+  colormapTexture: WebGLTexture;
+  positionLocation: number;
+  texCoordLocation: number;
+  resolutionLocation: WebGLUniformLocation | null;
+  historyLocation: WebGLUniformLocation | null;
+  colormapLocation: WebGLUniformLocation | null;
+  offsetLocation: WebGLUniformLocation | null;
+  opacityLocation: WebGLUniformLocation | null;
+}
+
+/**
+ * テクスチャを作成（拡大時も補間しない）
+ */
+function createTexture(gl: GL): WebGLTexture | null {
+  const texture = gl.createTexture();
+  if (!texture) return null;
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  return texture;
+}
+
+/**
+ * WebGL: 履歴を輝度テクスチャとして保持し、追加された行だけtexSubImage2Dで更新する
+ * 描画は四角形1枚で、リングバッファの位置合わせとカラーマップの適用はシェーダーで行う
+ */
+export class SpectrogramWebGL {
+  private resources: SpectrogramGLResources | null = null;
+  private textureSize: [number, number] = [0, 0];
+  private colormap: Colormap | null = null;
+
+  draw(
+    gl: GL,
+    transform: Transform,
+    history: SpectrumHistory,
+    colormap: Colormap,
+    length: number,
+    depth: number,
+    opacity: number
+  ): void {
+    const { rows, columns } = history;
+    const resources = this.getResources(gl);
+    if (!resources || rows === 0 || columns === 0) {
+      return;
+    }
+
+    // 合成方法は呼び出し側で設定済み（色はアルファを乗算して出力する）
+    gl.useProgram(resources.program);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+    // 履歴テクスチャ（サイズが変わった場合や全体が書き換わった場合は全体を転送）
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, resources.historyTexture);
+    if (this.textureSize[0] !== columns || this.textureSize[1] !== rows || history.written >= rows) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.LUMINANCE, columns, rows, 0, gl.LUMINANCE, gl.UNSIGNED_BYTE, history.data);
+      this.textureSize = [columns, rows];
+    } else {
+      for (let age = 0; age < history.written; age++) {
+        const row = history.rowAt(age);
+        gl.texSubImage2D(
+          gl.TEXTURE_2D, 0, 0, row, columns, 1, gl.LUMINANCE, gl.UNSIGNED_BYTE,
+          history.data.subarray(row * columns, (row + 1) * columns)
+        );
+      }
+    }
+
+    // カラーマップ（256×1）
+    gl.activeTexture(gl.TEXTURE2);
+    gl.bindTexture(gl.TEXTURE_2D, resources.colormapTexture);
+    if (this.colormap !== colormap) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 256, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, getColormapLut(colormap));
+      this.colormap = colormap;
+    }
+
+    gl.uniform2f(resources.resolutionLocation, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    gl.uniform1i(resources.historyLocation, 1);
+    gl.uniform1i(resources.colormapLocation, 2);
+    gl.uniform1f(resources.offsetLocation, (history.head + 1) / rows);
+    gl.uniform1f(resources.opacityLocation, opacity);
+
+    // 描画範囲の四角形を変換してピクセル座標に配置
+    const [a, b, c, d, e, f] = transform;
+    const corners = [0, 0, length, 0, 0, depth, 0, depth, length, 0, length, depth];
+    const positions = new Float32Array(corners.length);
+    for (let i = 0; i < corners.length; i += 2) {
+      positions[i] = a * corners[i] + c * corners[i + 1] + e;
+      positions[i + 1] = b * corners[i] + d * corners[i + 1] + f;
+    }
+    const texCoords = new Float32Array([0, 0, 1, 0, 0, 1, 0, 1, 1, 0, 1, 1]);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, resources.positionBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, positions, gl.DYNAMIC_DRAW);
+    gl.enableVertexAttribArray(resources.positionLocation);
+    gl.vertexAttribPointer(resources.positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, resources.texCoordBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, texCoords, gl.STATIC_DRAW);
+    gl.enableVertexAttribArray(resources.texCoordLocation);
+    gl.vertexAttribPointer(resources.texCoordLocation, 2, gl.FLOAT, false, 0, 0);
+
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+
+    // 他の描画に影響しないよう状態を戻す
+    gl.disableVertexAttribArray(resources.texCoordLocation);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+    gl.activeTexture(gl.TEXTURE0);
+  }
+
+  /**
+   * glで作成したプログラム・シェーダー・バッファ・テクスチャを削除
+   */
+  dispose(gl: GL): void {
+    const { resources } = this;
+    if (!resources || resources.gl !== gl) {
+      return;
+    }
+    gl.deleteProgram(resources.program);
+    resources.shaders.forEach((shader) => gl.deleteShader(shader));
+    gl.deleteBuffer(resources.positionBuffer);
+    gl.deleteBuffer(resources.texCoordBuffer);
+    gl.deleteTexture(resources.historyTexture);
+    gl.deleteTexture(resources.colormapTexture);
+    this.resources = null;
+  }
+
+  private getResources(gl: GL): SpectrogramGLResources | null {
+    if (this.resources?.gl === gl) {
+      return this.resources;
+    }
+
+    const vertexShader = createShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fragmentShader = createShader(gl, gl.FRAGMENT_SHADER, fragmentShaderSource);
+    if (!vertexShader || !fragmentShader) {
+      gl.deleteShader(vertexShader);
+      gl.deleteShader(fragmentShader);
+      return null;
+    }
+    const program = createProgram(gl, vertexShader, fragmentShader);
+    const positionBuffer = gl.createBuffer();
+    const texCoordBuffer = gl.createBuffer();
+    const historyTexture = createTexture(gl);
+    const colormapTexture = createTexture(gl);
+    if (!program || !positionBuffer || !texCoordBuffer || !historyTexture || !colormapTexture) {
+      gl.deleteProgram(program);
+      gl.deleteShader(vertexShader);
+      gl.deleteShader(fragmentShader);
+      gl.deleteBuffer(positionBuffer);
+      gl.deleteBuffer(texCoordBuffer);
+      gl.deleteTexture(historyTexture);
+      gl.deleteTexture(colormapTexture);
+      return null;
+    }
+
+    this.textureSize = [0, 0];
+    this.colormap = null;
+    this.resources = {
+      gl,
+      program,
+      shaders: [vertexShader, fragmentShader],
+      positionBuffer,
+      texCoordBuffer,
+      historyTexture,
+      colormapTexture,
+      positionLocation: gl.getAttribLocation(program, 'a_position'),
+      texCoordLocation: gl.getAttribLocation(program, 'a_texCoord'),
+      resolutionLocation: gl.getUniformLocation(program, 'u_resolution'),
+      historyLocation: gl.getUniformLocation(program, 'u_history'),
+      colormapLocation: gl.getUniformLocation(program, 'u_colormap'),
+      offsetLocation: gl.getUniformLocation(program, 'u_offset'),
+      opacityLocation: gl.getUniformLocation(program, 'u_opacity'),
+    };
+    return this.resources;
+  }
+}
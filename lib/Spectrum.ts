@@ -0,0 +1,317 @@
+/**
+ * AnalyserNodeに依存しないスペクトラム計算
+ * Web Audio APIのAnalyserNodeと同じアルゴリズム（Blackman窓・FFT・時間平滑化・dB変換）で
+ * 生のPCMからgetByteFrequencyData/getByteTimeDomainData相当の配列を生成する
+ * DOMを使わないため、オフライン書き出しやNode.jsからも同じ値を計算できる
+ */
+
+import type { SpectrumSource } from './SpectrumRenderer';
+
+export interface SpectrumAnalyserOptions {
+  fftSize?: number;
+  smoothingTimeConstant?: number;
+  minDecibels?: number;
+  maxDecibels?: number;
+}
+
+// AnalyserNodeの既定値
+const DEFAULT_FFT_SIZE = 2048;
+const DEFAULT_SMOOTHING_TIME_CONSTANT = 0.8;
+const DEFAULT_MIN_DECIBELS = -100;
+const DEFAULT_MAX_DECIBELS = -30;
+
+/**
+ * Blackman窓（AnalyserNodeの仕様と同じ α = 0.16）
+ */
+function createBlackmanWindow(size: number): Float32Array {
+  const alpha = 0.16;
+  const a0 = 0.5 * (1 - alpha);
+  const a1 = 0.5;
+  const a2 = 0.5 * alpha;
+  const coefficients = new Float32Array(size);
+  for (let n = 0; n < size; n++) {
+    const x = n / size;
+    coefficients[n] = a0 - a1 * Math.cos(2 * Math.PI * x) + a2 * Math.cos(4 * Math.PI * x);
+  }
+  return coefficients;
+}
+
+// FFTの回転因子 e^(-2πik/n)（k = 0〜n/2 - 1）
+interface Twiddles {
+  cos: Float64Array;
+  sin: Float64Array;
+}
+
+/**
+ * 大きさsizeのFFTの回転因子（fftSizeごとに1度だけ計算し、毎回の三角関数の計算を省く）
+ */
+function createTwiddles(size: number): Twiddles {
+  const half = size >> 1;
+  const cos = new Float64Array(half);
+  const sin = new Float64Array(half);
+  for (let k = 0; k < half; k++) {
+    const angle = (-2 * Math.PI * k) / size;
+    cos[k] = Math.cos(angle);
+    sin[k] = Math.sin(angle);
+  }
+  return { cos, sin };
+}
+
+/**
+ * 基数2のFFT（インプレース）
+ * twiddlesは配列の長さで作成したもの（大きさsizeの段のk番目は、n / size * k番目の回転因子）
+ */
+function fft(real: Float32Array, imag: Float32Array, twiddles: Twiddles): void {
+  const n = real.length;
+
+  // ビット反転並べ替え
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      let tmp = real[i];
+      real[i] = real[j];
+      real[j] = tmp;
+      tmp = imag[i];
+      imag[i] = imag[j];
+      imag[j] = tmp;
+    }
+  }
+
+  // バタフライ演算
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cos = twiddles.cos[k * stride];
+        const sin = twiddles.sin[k * stride];
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + half;
+        const oddReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+        const oddImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+      }
+    }
+  }
+}
+
+/**
+ * 複数チャンネルのPCMから、指定フレームで終わる区間をモノラルにダウンミックスして取り出す
+ * 区間が先頭より前にはみ出す部分は無音（0）で埋める
+ */
+export function getMonoWindow(
+  channels: Float32Array[],
+  endFrame: number,
+  size: number,
+  output: Float32Array = new Float32Array(size)
+): Float32Array {
+  const start = endFrame - size;
+  const gain = channels.length > 0 ? 1 / channels.length : 0;
+  for (let i = 0; i < size; i++) {
+    const index = start + i;
+    let value = 0;
+    for (const channel of channels) {
+      if (index >= 0 && index < channel.length) {
+        value += channel[index];
+      }
+    }
+    output[i] = value * gain;
+  }
+  return output;
+}
+
+// チャンネル別のPCM区間（左右・ミッド・サイド）
+export interface StereoWindows {
+  left: Float32Array;
+  right: Float32Array;
+  mid: Float32Array;
+  side: Float32Array;
+}
+
+/**
+ * 複数チャンネルのPCMから、指定フレームで終わる区間を左右・ミッド・サイドに分けて取り出す
+ * モノラルは左右に同じチャンネルを使い、3チャンネル以上は先頭の2チャンネルを左右として扱う
+ */
+export function getStereoWindows(
+  channels: Float32Array[],
+  endFrame: number,
+  size: number,
+  output: StereoWindows = {
+    left: new Float32Array(size),
+    right: new Float32Array(size),
+    mid: new Float32Array(size),
+    side: new Float32Array(size),
+  }
+): StereoWindows {
+  const start = endFrame - size;
+  const leftChannel = channels[0];
+  const rightChannel = channels[1] ?? channels[0];
+  for (let i = 0; i < size; i++) {
+    const index = start + i;
+    const l = leftChannel && index >= 0 && index < leftChannel.length ? leftChannel[index] : 0;
+    const r = rightChannel && index >= 0 && index < rightChannel.length ? rightChannel[index] : 0;
+    output.left[i] = l;
+    output.right[i] = r;
+    output.mid[i] = (l + r) / 2;
+    output.side[i] = (l - r) / 2;
+  }
+  return output;
+}
+
+/**
+ * AnalyserNode互換のスペクトラムアナライザー
+ * process()で最新の時間領域データを渡し、その後get*Data()で値を読み出す
+ */
+export class SpectrumAnalyser implements SpectrumSource {
+  readonly fftSize: number;
+  smoothingTimeConstant: number;
+  minDecibels: number;
+  maxDecibels: number;
+
+  private window: Float32Array;
+  private twiddles: Twiddles;
+  private timeDomain: Float32Array;
+  private real: Float32Array;
+  private imag: Float32Array;
+  private smoothedMagnitude: Float32Array;
+
+  constructor(options: SpectrumAnalyserOptions = {}) {
+    const fftSize = options.fftSize ?? DEFAULT_FFT_SIZE;
+    if (fftSize < 32 || fftSize > 32768 || (fftSize & (fftSize - 1)) !== 0) {
+      throw new Error(`fftSize must be a power of two between 32 and 32768: ${fftSize}`);
+    }
+    this.fftSize = fftSize;
+    this.smoothingTimeConstant = options.smoothingTimeConstant ?? DEFAULT_SMOOTHING_TIME_CONSTANT;
+    this.minDecibels = options.minDecibels ?? DEFAULT_MIN_DECIBELS;
+    this.maxDecibels = options.maxDecibels ?? DEFAULT_MAX_DECIBELS;
+
+    this.window = createBlackmanWindow(fftSize);
+    this.twiddles = createTwiddles(fftSize);
+    this.timeDomain = new Float32Array(fftSize);
+    this.real = new Float32Array(fftSize);
+    this.imag = new Float32Array(fftSize);
+    this.smoothedMagnitude = new Float32Array(fftSize / 2);
+  }
+
+  get frequencyBinCount(): number {
+    return this.fftSize / 2;
+  }
+
+  /**
+   * 最新のfftSizeサンプル（モノラル）を入力して周波数データを更新
+   * AnalyserNodeがget*FrequencyData()の呼び出しごとに行う計算と同じで、平滑化の状態は呼び出し間で引き継がれる
+   */
+  process(samples: Float32Array): void {
+    const { fftSize, window, real, imag, smoothedMagnitude } = this;
+
+    // 入力が短い場合は先頭側を無音で埋める
+    const offset = fftSize - Math.min(fftSize, samples.length);
+    this.timeDomain.fill(0);
+    this.timeDomain.set(samples.subarray(samples.length - (fftSize - offset)), offset);
+
+    for (let i = 0; i < fftSize; i++) {
+      real[i] = this.timeDomain[i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag, this.twiddles);
+
+    // 振幅をfftSizeで正規化し、前回値と時間平滑化
+    const tau = this.smoothingTimeConstant;
+    for (let k = 0; k < smoothedMagnitude.length; k++) {
+      const magnitude = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]) / fftSize;
+      const smoothed = tau * smoothedMagnitude[k] + (1 - tau) * magnitude;
+      smoothedMagnitude[k] = Number.isFinite(smoothed) ? smoothed : 0;
+    }
+  }
+
+  /**
+   * 平滑化の状態をリセット
+   */
+  reset(): void {
+    this.timeDomain.fill(0);
+    this.smoothedMagnitude.fill(0);
+  }
+
+  getFloatFrequencyData(array: Float32Array): void {
+    const length = Math.min(array.length, this.smoothedMagnitude.length);
+    for (let k = 0; k < length; k++) {
+      array[k] = 20 * Math.log10(this.smoothedMagnitude[k]);
+    }
+  }
+
+  getByteFrequencyData(array: Uint8Array): void {
+    const length = Math.min(array.length, this.smoothedMagnitude.length);
+    const rangeScale = 255 / (this.maxDecibels - this.minDecibels);
+    for (let k = 0; k < length; k++) {
+      const decibels = 20 * Math.log10(this.smoothedMagnitude[k]);
+      const value = Math.floor(rangeScale * (decibels - this.minDecibels));
+      array[k] = Number.isFinite(value) ? Math.max(0, Math.min(255, value)) : 0;
+    }
+  }
+
+  getFloatTimeDomainData(array: Float32Array): void {
+    const length = Math.min(array.length, this.fftSize);
+    array.set(this.timeDomain.subarray(0, length));
+  }
+
+  getByteTimeDomainData(array: Uint8Array): void {
+    // AnalyserNodeと同じく配列がfftSizeより短い場合は後ろ側が切り捨てられる
+    const length = Math.min(array.length, this.fftSize);
+    for (let i = 0; i < length; i++) {
+      const value = Math.floor(128 * (this.timeDomain[i] + 1));
+      array[i] = Math.max(0, Math.min(255, value));
+    }
+  }
+}
+
+/**
+ * デコード済みのPCMから各フレーム時刻までのスペクトラムを計算する（高速書き出し・CLI）
+ * プレビューのAnalyserNodeと同じ設定の解析に加え、ビート検出用（平滑化なし）と
+ * チャンネル別（stereoを指定した場合のみ）の解析をまとめて更新する
+ */
+export class PcmSpectrum {
+  readonly analyser = new SpectrumAnalyser({ fftSize: 2048 });
+  readonly beatAnalyser = new SpectrumAnalyser({ fftSize: 2048, smoothingTimeConstant: 0 });
+  readonly stereo: Record<keyof StereoWindows, SpectrumAnalyser> | null;
+
+  private monoWindow: Float32Array;
+  private stereoWindows: StereoWindows | null;
+
+  constructor(private channels: Float32Array[], stereo: boolean) {
+    const size = this.analyser.fftSize;
+    this.monoWindow = new Float32Array(size);
+    this.stereo = stereo
+      ? {
+        left: new SpectrumAnalyser({ fftSize: size }),
+        right: new SpectrumAnalyser({ fftSize: size }),
+        mid: new SpectrumAnalyser({ fftSize: size }),
+        side: new SpectrumAnalyser({ fftSize: size }),
+      }
+      : null;
+    this.stereoWindows = stereo ? getStereoWindows(channels, 0, size) : null;
+  }
+
+  /**
+   * endFrame（サンプル位置）で終わる区間を解析する
+   */
+  update(endFrame: number): void {
+    const { channels, analyser, stereo, stereoWindows } = this;
+    getMonoWindow(channels, endFrame, analyser.fftSize, this.monoWindow);
+    analyser.process(this.monoWindow);
+    this.beatAnalyser.process(this.monoWindow);
+    if (stereo && stereoWindows) {
+      getStereoWindows(channels, endFrame, analyser.fftSize, stereoWindows);
+      stereo.left.process(stereoWindows.left);
+      stereo.right.process(stereoWindows.right);
+      stereo.mid.process(stereoWindows.mid);
+      stereo.side.process(stereoWindows.side);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * 過去のスペクトラムを保持するリングバッファ（スペクトログラム・ウォーターフォール用）
+ * 1行が1時点のスペクトラムで、行はフレームの時刻から一定の速度（行/秒）で追加されるため、
+ * 同じ入力と時刻の列からは常に同じ履歴になる（高速書き出しでもプレビューと同じ流れ方になる）
+ */
+
+// 時刻が飛んだ（シーク・一時停止など）とみなす間隔（秒）
+const MAX_FRAME_INTERVAL = 1;
+
+export class SpectrumHistory {
+  rows = 0;
+  columns = 0;
+  // rows × columnsの強度（0〜255）。行番号はリング上の位置
+  data = new Uint8Array(0);
+  // 最新の行の位置（古い行ほど1つずつ前にある）
+  head = 0;
+  // 直前のupdateで書き込んだ行数（rows以上の場合は全体が書き換わった）
+  written = 0;
+
+  private lastRow: number | null = null;
+  private lastTime: number | null = null;
+
+  /**
+   * time（秒）時点までの行を最新の値で追加
+   */
+  update(values: ArrayLike<number>, time: number, rows: number, rowsPerSecond: number): void {
+    const row = Math.floor(time * rowsPerSecond);
+    const elapsed = this.lastTime === null ? null : time - this.lastTime;
+    this.lastTime = time;
+
+    // サイズが変わった場合や時刻が飛んだ場合は履歴を消して始め直す
+    if (
+      rows !== this.rows ||
+      values.length !== this.columns ||
+      this.lastRow === null ||
+      elapsed === null ||
+      elapsed < 0 ||
+      elapsed > MAX_FRAME_INTERVAL
+    ) {
+      this.reset(rows, values.length);
+      this.lastRow = row;
+      this.write(values);
+      this.written = rows;
+      return;
+    }
+
+    const count = Math.min(rows, row - this.lastRow);
+    this.lastRow = Math.max(this.lastRow, row);
+    for (let i = 0; i < count; i++) {
+      this.write(values);
+    }
+    this.written = Math.max(0, count);
+  }
+
+  /**
+   * 新しい方からage番目（0が最新）の行の位置
+   */
+  rowAt(age: number): number {
+    return (((this.head - age) % this.rows) + this.rows) % this.rows;
+  }
+
+  private write(values: ArrayLike<number>): void {
+    this.head = (this.head + 1) % this.rows;
+    const offset = this.head * this.columns;
+    for (let i = 0; i < this.columns; i++) {
+      this.data[offset + i] = Math.max(0, Math.min(255, Math.round(values[i])));
+    }
+  }
+
+  private reset(rows: number, columns: number): void {
+    this.rows = rows;
+    this.columns = columns;
+    this.data = new Uint8Array(rows * columns);
+    this.head = rows - 1;
+  }
+}
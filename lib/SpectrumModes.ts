@@ -0,0 +1,1011 @@
+/**
+ * スペクトラムアナライザーの表示モード（VisualizerMode）とそのレジストリ
+ * 各モードはDrawSurfaceに対して描画するため、Canvas 2D・WebGLの両方で同じコードが使われる
+ * バックエンド固有の描画が必要な場合はdrawCanvas2D/drawWebGLで上書きできる
+ *
+ * 独自モードはregisterVisualizerMode()で登録すると、UIのモードボタン・調整項目に自動で追加される
+ */
+
+import { hexToRgba, hsla, sampleGradient, type DrawSurface, type Paint, type Rgba, type Transform } from './DrawSurface';
+import { BarDynamics } from './BarDynamics';
+import { colormapColor, COLORMAP_OPTIONS, type Colormap } from './Colormap';
+import { aggregateBands, createFrequencyBands, FREQUENCY_SCALE_OPTIONS, type FrequencyBand, type FrequencyScale } from './FrequencyScale';
+import { SpectrogramCanvas2D, SpectrogramWebGL } from './Spectrogram';
+import { SpectrumHistory } from './SpectrumHistory';
+import type { SpectrumLayer } from './Scene';
+import type { ModeParams, SpectrumFrame, SpectrumSource } from './SpectrumRenderer';
+
+export type SpectrumDataSource = 'frequency' | 'timeDomain';
+
+interface ModeParamBase {
+  key: string;
+  label: string;
+}
+
+export interface NumberModeParam extends ModeParamBase {
+  type: 'number';
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface BooleanModeParam extends ModeParamBase {
+  type: 'boolean';
+  default: boolean;
+}
+
+export interface SelectModeParam extends ModeParamBase {
+  type: 'select';
+  options: { value: string; label: string }[];
+  default: string;
+}
+
+export interface ColorModeParam extends ModeParamBase {
+  type: 'color';
+  default: string; // #rrggbb
+}
+
+// モード固有の調整パラメータの定義（UIのスライダー等はここから生成される）
+export type ModeParamSchema = NumberModeParam | BooleanModeParam | SelectModeParam | ColorModeParam;
+
+// モードがフレーム間で保持する状態（レンダラーごと・スペクトラムレイヤーごとに作られる）
+// GPUのリソース等を持つ場合はdisposeを設定すると、状態を捨てる時（モードの切り替え・レイヤーの削除・レンダラーの破棄）に呼ばれる
+export type ModeState = Record<string, unknown> & { dispose?: () => void };
+
+// チャンネル別のデータ（種類はモードのdataSourceと同じ）
+export interface StereoData {
+  left: Uint8Array;
+  right: Uint8Array;
+  mid: Uint8Array;
+  side: Uint8Array;
+}
+
+export interface VisualizerDrawContext {
+  surface: DrawSurface;
+  data: Uint8Array;
+  stereo: StereoData | null; // モードのstereoがtrueの場合のみ
+  sampleRate: number;
+  time: number; // 秒
+  width: number; // 描画範囲（スペクトラムレイヤーの枠）の大きさ
+  height: number;
+  params: ModeParams;
+  state: ModeState;
+}
+
+// Canvas 2D固有の描画（ctxには表示調整の変換とレイヤーの不透明度・合成方法が適用済み）
+export interface Canvas2DDrawContext extends VisualizerDrawContext {
+  ctx: CanvasRenderingContext2D;
+}
+
+// WebGL固有の描画（transformは表示調整を含むピクセル座標の変換行列）
+// surfaceへの描画はバッチに溜められ、glで直接描画したものより後に描かれる
+// レイヤーの合成方法はblendFuncに設定済みのため、色はアルファ（surface.globalAlphaを掛けたもの）を乗算して出力する
+export interface WebGLDrawContext extends VisualizerDrawContext {
+  gl: WebGLRenderingContext | WebGL2RenderingContext;
+  transform: Transform;
+}
+
+export interface VisualizerMode {
+  id: number; // 設定の保存キーにも使われるため、登録済みのモードと重複しないこと
+  label: string;
+  dataSource: SpectrumDataSource;
+  stereo?: boolean; // trueの場合、チャンネル別のデータ（context.stereo）を受け取る
+  params?: ModeParamSchema[];
+  // 以前の形式の設定（モードごとの表示調整）を引き継ぐときのパラメータ（以前の見た目に合わせる）
+  legacyParams?: ModeParams;
+  // 共通の描画（書き出しを含むすべてのバックエンドで使われる）
+  draw(context: VisualizerDrawContext): void;
+  // バックエンド固有の描画（指定した場合はdrawの代わりに使われる）
+  drawCanvas2D?(context: Canvas2DDrawContext): void;
+  drawWebGL?(context: WebGLDrawContext): void;
+}
+
+// バックエンド固有の描画を試みる（描画した場合はtrue）
+export type BackendModeDraw = (mode: VisualizerMode, context: VisualizerDrawContext) => boolean;
+
+const COLOR_MODE_OPTIONS = [
+  { value: 'rainbow', label: '虹色' },
+  { value: 'solid', label: '単色' },
+  { value: 'gradient', label: 'グラデーション' },
+];
+
+// 配色の共通パラメータ
+function colorParams(colorMode: string, opacity: number): ModeParamSchema[] {
+  return [
+    { type: 'select', key: 'colorMode', label: '配色', options: COLOR_MODE_OPTIONS, default: colorMode },
+    { type: 'color', key: 'color1', label: '色1', default: '#ffffff' },
+    { type: 'color', key: 'color2', label: '色2', default: '#00bcd4' },
+    { type: 'number', key: 'opacity', label: '不透明度', min: 0, max: 1, step: 0.05, default: opacity },
+  ];
+}
+
+// 線・単色モードの共通パラメータ
+function strokeParams(lineWidth: number): ModeParamSchema[] {
+  return [
+    { type: 'color', key: 'color', label: '色', default: '#ffffff' },
+    { type: 'number', key: 'opacity', label: '不透明度', min: 0, max: 1, step: 0.05, default: 0.8 },
+    { type: 'number', key: 'lineWidth', label: '線幅', min: 0.5, max: 10, step: 0.5, default: lineWidth },
+  ];
+}
+
+/**
+ * 単色・グラデーション配色の色（tは色1→色2の位置 0〜1）
+ */
+function paletteColor(params: ModeParams, t: number, alpha: number): Rgba {
+  const color1 = hexToRgba(params.color1 as string, alpha);
+  if (params.colorMode !== 'gradient') {
+    return color1;
+  }
+  return sampleGradient(
+    [
+      { offset: 0, color: color1 },
+      { offset: 1, color: hexToRgba(params.color2 as string, alpha) },
+    ],
+    t
+  );
+}
+
+/**
+ * 単色・グラデーション配色のバーの塗り（グラデーションは(x, yFrom)の色1から(x, yTo)の色2へ）
+ */
+function paletteFill(params: ModeParams, x: number, yFrom: number, yTo: number, alpha: number): Paint {
+  if (params.colorMode !== 'gradient') {
+    return paletteColor(params, 0, alpha);
+  }
+  return {
+    x0: x,
+    y0: yFrom,
+    x1: x,
+    y1: yTo,
+    stops: [
+      { offset: 0, color: paletteColor(params, 0, alpha) },
+      { offset: 1, color: paletteColor(params, 1, alpha) },
+    ],
+  };
+}
+
+// 周波数スケールの共通パラメータ
+function frequencyParams(): ModeParamSchema[] {
+  return [
+    { type: 'select', key: 'frequencyScale', label: '周波数スケール', options: FREQUENCY_SCALE_OPTIONS, default: 'log' },
+    { type: 'number', key: 'minHz', label: '最低周波数 (Hz)', min: 0, max: 2000, step: 10, default: 30 },
+    { type: 'number', key: 'maxHz', label: '最高周波数 (Hz)', min: 1000, max: 24000, step: 100, default: 16000 },
+  ];
+}
+
+// 帯域の割り当てはパラメータが変わらない限り同じなのでキャッシュする
+const bandCache = new Map<string, FrequencyBand[]>();
+
+/**
+ * 周波数スケールのパラメータに従ってbarCount本分の帯域の値を取得
+ */
+function getBandValues(context: VisualizerDrawContext, barCount: number, data = context.data): Float32Array {
+  const { sampleRate, params } = context;
+  const scale = params.frequencyScale as FrequencyScale;
+  const minHz = params.minHz as number;
+  const maxHz = params.maxHz as number;
+  const key = [barCount, data.length, sampleRate, scale, minHz, maxHz].join('_');
+  let bands = bandCache.get(key);
+  if (!bands) {
+    if (bandCache.size >= 32) {
+      bandCache.clear();
+    }
+    bands = createFrequencyBands(barCount, data.length, sampleRate, scale, minHz, maxHz);
+    bandCache.set(key, bands);
+  }
+  return aggregateBands(data, bands);
+}
+
+// バーの動き（平滑化・ピークホールド）の共通パラメータ
+function dynamicsParams(): ModeParamSchema[] {
+  return [
+    { type: 'number', key: 'attack', label: 'アタック (ms)', min: 0, max: 500, step: 10, default: 0 },
+    { type: 'number', key: 'release', label: 'リリース (ms)', min: 0, max: 2000, step: 10, default: 0 },
+    { type: 'boolean', key: 'peakHold', label: 'ピークホールド', default: false },
+    { type: 'number', key: 'peakHoldTime', label: 'ピーク保持時間 (ms)', min: 0, max: 2000, step: 50, default: 500 },
+    { type: 'number', key: 'gravity', label: 'ピーク落下の重力', min: 0, max: 5000, step: 50, default: 1000 },
+    { type: 'color', key: 'peakColor', label: 'ピークの色', default: '#ffffff' },
+  ];
+}
+
+// ピークマーカーの太さ（px）
+const PEAK_MARKER_SIZE = 4;
+
+/**
+ * バーの値を平滑化し、ピークを更新した状態を取得（複数のバー列を持つモードはkeyで区別する）
+ */
+function applyDynamics(
+  { time, params, state }: VisualizerDrawContext,
+  values: Float32Array,
+  key = 'dynamics'
+): BarDynamics {
+  let dynamics = state[key] as BarDynamics | undefined;
+  if (!dynamics) {
+    dynamics = new BarDynamics();
+    state[key] = dynamics;
+  }
+  dynamics.update(values, time, {
+    attack: (params.attack as number) / 1000,
+    release: (params.release as number) / 1000,
+    peakHoldTime: (params.peakHoldTime as number) / 1000,
+    gravity: params.gravity as number,
+  });
+  return dynamics;
+}
+
+/**
+ * i本目のバーを描くx座標（mirrorの場合は中央から左右対称に2箇所）
+ */
+function barPositions(i: number, barWidth: number, width: number, mirror: boolean): number[] {
+  if (!mirror) {
+    return [i * barWidth];
+  }
+  return [width / 2 + i * barWidth, width / 2 - (i + 1) * barWidth];
+}
+
+/**
+ * 周波数データの先頭binCount個からi本目のバーの値を取得（線形に割り当て）
+ */
+function sampleBar(data: Uint8Array, binCount: number, i: number, barCount: number): number {
+  return data[Math.floor((i / barCount) * binCount)];
+}
+
+// 周波数スケールの追加前に先頭128ビンを並べていたモードの範囲（FFTサイズ2048・48kHzで128ビン分）
+const LEGACY_BARS_PARAMS: ModeParams = { frequencyScale: 'linear', minHz: 0, maxHz: 3000 };
+// 周波数スケールの追加前にすべてのビンを等間隔に並べていたモードの範囲（ナイキスト周波数までに制限される）
+const LEGACY_FULL_RANGE_PARAMS: ModeParams = { frequencyScale: 'linear', minHz: 0, maxHz: 24000 };
+
+// モード0: 周波数バー
+const frequencyBars: VisualizerMode = {
+  id: 0,
+  label: '周波数バー',
+  dataSource: 'frequency',
+  params: [
+    { type: 'number', key: 'barCount', label: 'バー本数', min: 8, max: 256, step: 8, default: 128 },
+    { type: 'number', key: 'gap', label: 'バーの間隔', min: 0, max: 20, step: 1, default: 0 },
+    { type: 'boolean', key: 'mirror', label: '左右対称', default: false },
+    ...frequencyParams(),
+    ...colorParams('solid', 0.8),
+    ...dynamicsParams(),
+  ],
+  legacyParams: LEGACY_BARS_PARAMS,
+  draw(context) {
+    const { surface, width, height, params } = context;
+    const barCount = params.barCount as number;
+    const gap = params.gap as number;
+    const mirror = params.mirror as boolean;
+    const opacity = params.opacity as number;
+    const barWidth = width / (mirror ? barCount * 2 : barCount);
+    const { values, peaks } = applyDynamics(context, getBandValues(context, barCount));
+    const peakColor = hexToRgba(params.peakColor as string, opacity);
+
+    for (let i = 0; i < barCount; i++) {
+      const barHeight = values[i];
+      for (const barX of barPositions(i, barWidth, width, mirror)) {
+        const paint = params.colorMode === 'rainbow'
+          ? hsla((i / barCount) * 360, 1, 0.5, opacity)
+          : paletteFill(params, barX, height, height - barHeight, opacity);
+        surface.fillRect(barX, height - barHeight, Math.max(0, barWidth - gap), barHeight, paint);
+        if (params.peakHold) {
+          surface.fillRect(barX, height - peaks[i] - PEAK_MARKER_SIZE, Math.max(0, barWidth - gap), PEAK_MARKER_SIZE, peakColor);
+        }
+      }
+    }
+  },
+};
+
+// モード1: 波形（折れ線）
+const waveformLine: VisualizerMode = {
+  id: 1,
+  label: '折れ線',
+  dataSource: 'timeDomain',
+  params: strokeParams(1),
+  draw({ surface, data, width, height, params }) {
+    const bufferLength = data.length;
+    const centerY = height / 2;
+    const scale = (height / 2) / 128;
+    const points: number[] = [];
+    for (let i = 0; i < bufferLength; i++) {
+      points.push((i / bufferLength) * width, centerY - (data[i] - 128) * scale);
+    }
+    surface.strokePolyline(
+      points,
+      hexToRgba(params.color as string, params.opacity as number),
+      params.lineWidth as number
+    );
+  },
+};
+
+// モード2: 円形
+const circular: VisualizerMode = {
+  id: 2,
+  label: '円形',
+  dataSource: 'frequency',
+  params: [
+    { type: 'number', key: 'barCount', label: 'バー本数', min: 32, max: 512, step: 8, default: 256 },
+    { type: 'number', key: 'radius', label: '半径', min: 50, max: 600, step: 10, default: 200 },
+    { type: 'number', key: 'barWidth', label: 'バーの太さ', min: 1, max: 20, step: 1, default: 3 },
+    { type: 'number', key: 'barLength', label: 'バーの長さ', min: 0.1, max: 3, step: 0.1, default: 1 },
+    { type: 'color', key: 'color', label: '色', default: '#ffffff' },
+    { type: 'number', key: 'opacity', label: '不透明度', min: 0, max: 1, step: 0.05, default: 0.8 },
+  ],
+  draw({ surface, data, width, height, params }) {
+    surface.scale(0.5, 0.5);
+    surface.translate(width, height);
+
+    const barCount = params.barCount as number;
+    const barLength = params.barLength as number;
+    const color = hexToRgba(params.color as string, params.opacity as number);
+    const bass = Math.floor(data[1]); //1Hz Freq
+    // 半径は画面幅の20%を上限とする
+    const radius = -(bass * 0.25 + Math.min(0.2 * width, params.radius as number));
+
+    for (let i = 0; i < barCount; i++) {
+      const value = sampleBar(data, 256, i, barCount);
+      surface.fillRect(0, radius, params.barWidth as number, -value * barLength, color);
+      surface.rotate((Math.PI * 2) / barCount);
+    }
+  },
+};
+
+// モード3: 上下対称バー
+const mirroredBars: VisualizerMode = {
+  id: 3,
+  label: '上下対称バー',
+  dataSource: 'frequency',
+  params: [
+    { type: 'number', key: 'barCount', label: 'バー本数', min: 8, max: 256, step: 8, default: 128 },
+    { type: 'number', key: 'gap', label: 'バーの間隔', min: 0, max: 20, step: 1, default: 1 },
+    ...frequencyParams(),
+    ...colorParams('rainbow', 0.8),
+    ...dynamicsParams(),
+  ],
+  legacyParams: LEGACY_BARS_PARAMS,
+  draw(context) {
+    const { surface, width, height, params } = context;
+    const barCount = params.barCount as number;
+    const gap = params.gap as number;
+    const opacity = params.opacity as number;
+    const barWidth = width / barCount;
+    const centerY = height / 2;
+    const { values, peaks } = applyDynamics(context, getBandValues(context, barCount));
+    const peakColor = hexToRgba(params.peakColor as string, opacity);
+
+    for (let i = 0; i < barCount; i++) {
+      const barHeight = values[i] * 2;
+      const hue = (i / barCount) * 360;
+      const x = i * barWidth;
+      const top = centerY - barHeight / 2;
+      const bottom = centerY + barHeight / 2;
+
+      // グラデーション付きバー
+      const paint: Paint = params.colorMode === 'rainbow'
+        ? {
+          x0: x,
+          y0: top,
+          x1: x,
+          y1: bottom,
+          stops: [
+            { offset: 0, color: hsla(hue, 1, 0.5, opacity) },
+            { offset: 1, color: hsla(hue + 60, 1, 0.7, opacity) },
+          ],
+        }
+        : paletteFill(params, x, top, bottom, opacity);
+      surface.fillRect(x, top, Math.max(0, barWidth - gap), barHeight, paint);
+
+      // ピークは上下それぞれの端に表示
+      if (params.peakHold) {
+        const peakHeight = peaks[i] * 2;
+        surface.fillRect(x, centerY - peakHeight / 2 - PEAK_MARKER_SIZE, Math.max(0, barWidth - gap), PEAK_MARKER_SIZE, peakColor);
+        surface.fillRect(x, centerY + peakHeight / 2, Math.max(0, barWidth - gap), PEAK_MARKER_SIZE, peakColor);
+      }
+    }
+  },
+};
+
+// モード4: ドット表示
+const dotMatrix: VisualizerMode = {
+  id: 4,
+  label: 'ドット表示',
+  dataSource: 'frequency',
+  params: [
+    { type: 'number', key: 'columns', label: '列数', min: 8, max: 64, step: 1, default: 32 },
+    { type: 'number', key: 'rows', label: '行数', min: 4, max: 32, step: 1, default: 16 },
+    { type: 'number', key: 'dotRadius', label: 'ドットの大きさ', min: 0.1, max: 0.5, step: 0.01, default: 0.33 },
+    ...frequencyParams(),
+    ...colorParams('rainbow', 0.8),
+  ],
+  legacyParams: LEGACY_FULL_RANGE_PARAMS,
+  draw(context) {
+    const { surface, width, height, params } = context;
+    const dotsPerRow = params.columns as number;
+    const dotsPerCol = params.rows as number;
+    const opacity = params.opacity as number;
+    const dotSize = Math.min(width / dotsPerRow, height / dotsPerCol);
+    const dotRadius = dotSize * (params.dotRadius as number);
+    const values = getBandValues(context, dotsPerRow);
+
+    for (let col = 0; col < dotsPerRow; col++) {
+      const value = values[col];
+
+      for (let row = 0; row < dotsPerCol; row++) {
+        const threshold = (255 / dotsPerCol) * (dotsPerCol - row);
+        // 点灯していないドットは不透明度の1/4で表示
+        const alpha = value > threshold ? opacity : opacity * 0.25;
+        const color = params.colorMode === 'rainbow'
+          ? hsla((col / dotsPerRow) * 360, 1, 0.5, alpha)
+          : paletteColor(params, (dotsPerCol - 1 - row) / Math.max(1, dotsPerCol - 1), alpha);
+
+        surface.fillCircle(
+          col * dotSize + dotSize / 2,
+          row * dotSize + dotSize / 2,
+          dotRadius,
+          color
+        );
+      }
+    }
+  },
+};
+
+// モード5: 波形（上下対称）
+const mirroredWaveform: VisualizerMode = {
+  id: 5,
+  label: '波形（上下対称）',
+  dataSource: 'timeDomain',
+  params: [
+    ...strokeParams(2),
+    { type: 'boolean', key: 'mirror', label: '上下対称', default: true },
+  ],
+  draw({ surface, data, width, height, params }) {
+    const bufferLength = data.length;
+    const centerY = height / 2;
+    const scale = height / 512;
+    const color = hexToRgba(params.color as string, params.opacity as number);
+    const lineWidth = params.lineWidth as number;
+    const points: number[] = [];
+    for (let i = 0; i < bufferLength; i++) {
+      points.push((i / bufferLength) * width, centerY - (data[i] - 128) * scale);
+    }
+
+    surface.strokePolyline(points, color, lineWidth);
+    if (!params.mirror) {
+      return;
+    }
+
+    // 上下対称に描画
+    surface.save();
+    surface.scale(1, -1);
+    surface.translate(0, -height);
+    surface.strokePolyline(points, color, lineWidth);
+    surface.restore();
+  },
+};
+
+// モード6: 3D風バー（奥行き効果）
+const perspectiveBars: VisualizerMode = {
+  id: 6,
+  label: '3D風バー',
+  dataSource: 'frequency',
+  params: [
+    { type: 'number', key: 'barCount', label: 'バー本数', min: 8, max: 256, step: 8, default: 64 },
+    { type: 'number', key: 'gap', label: 'バーの間隔', min: 0, max: 20, step: 1, default: 0 },
+    { type: 'number', key: 'depth', label: '奥行き', min: 0, max: 1, step: 0.05, default: 0.3 },
+    { type: 'boolean', key: 'mirror', label: '左右対称', default: false },
+    ...frequencyParams(),
+    ...colorParams('rainbow', 1),
+    ...dynamicsParams(),
+  ],
+  legacyParams: LEGACY_FULL_RANGE_PARAMS,
+  draw(context) {
+    const { surface, width, height, params } = context;
+    const barCount = params.barCount as number;
+    const gap = params.gap as number;
+    const depth = params.depth as number;
+    const mirror = params.mirror as boolean;
+    const opacity = params.opacity as number;
+    const barWidth = width / (mirror ? barCount * 2 : barCount);
+    const { values, peaks } = applyDynamics(context, getBandValues(context, barCount));
+    const peakColor = hexToRgba(params.peakColor as string, opacity);
+
+    for (let i = 0; i < barCount; i++) {
+      const barHeight = values[i] * 1.5;
+      const hue = (i / barCount) * 360;
+
+      for (const x of barPositions(i, barWidth, width, mirror)) {
+        // 中央からの距離に応じて上端をずらす
+        const offset = ((x - width / 2) / barWidth) * 2;
+        const right = x + Math.max(0, barWidth - gap);
+
+        // 奥行き効果のためのグラデーション（下端ほど濃く、上端ほど薄い）
+        const stops = params.colorMode === 'rainbow'
+          ? [
+            { offset: 0, color: hsla(hue, 1, 0.3, 0.9 * opacity) },
+            { offset: 0.5, color: hsla(hue, 1, 0.5, 0.8 * opacity) },
+            { offset: 1, color: hsla(hue, 1, 0.7, 0.7 * opacity) },
+          ]
+          : [
+            { offset: 0, color: paletteColor(params, 0, 0.9 * opacity) },
+            { offset: 0.5, color: paletteColor(params, 0.5, 0.8 * opacity) },
+            { offset: 1, color: paletteColor(params, 1, 0.7 * opacity) },
+          ];
+
+        // 3D風の平行四辺形
+        surface.fillPolygon(
+          [
+            x, height,
+            right, height,
+            right + offset * depth, height - barHeight,
+            x + offset * depth, height - barHeight,
+          ],
+          { x0: x, y0: height, x1: x, y1: height - barHeight, stops }
+        );
+
+        // ピークはバー上端と同じだけずらした位置に表示
+        if (params.peakHold) {
+          const peakY = height - peaks[i] * 1.5;
+          surface.fillRect(x + offset * depth, peakY - PEAK_MARKER_SIZE, right - x, PEAK_MARKER_SIZE, peakColor);
+        }
+      }
+    }
+  },
+};
+
+// モード7: 左右対称ステレオバー（中央から左にLチャンネル、右にRチャンネル）
+const stereoBars: VisualizerMode = {
+  id: 7,
+  label: 'ステレオバー',
+  dataSource: 'frequency',
+  stereo: true,
+  params: [
+    { type: 'number', key: 'barCount', label: 'バー本数（片側）', min: 8, max: 128, step: 8, default: 64 },
+    { type: 'number', key: 'gap', label: 'バーの間隔', min: 0, max: 20, step: 1, default: 1 },
+    ...frequencyParams(),
+    ...colorParams('rainbow', 0.8),
+    ...dynamicsParams(),
+  ],
+  draw(context) {
+    const { surface, width, height, params } = context;
+    const stereo = context.stereo as StereoData;
+    const barCount = params.barCount as number;
+    const gap = params.gap as number;
+    const opacity = params.opacity as number;
+    const barWidth = width / (barCount * 2);
+    const peakColor = hexToRgba(params.peakColor as string, opacity);
+    // barPositionsの左右対称は[右側, 左側]の順
+    const channels = [
+      applyDynamics(context, getBandValues(context, barCount, stereo.right), 'dynamicsRight'),
+      applyDynamics(context, getBandValues(context, barCount, stereo.left), 'dynamicsLeft'),
+    ];
+
+    for (let i = 0; i < barCount; i++) {
+      barPositions(i, barWidth, width, true).forEach((barX, side) => {
+        const { values, peaks } = channels[side];
+        const barHeight = values[i];
+        const paint = params.colorMode === 'rainbow'
+          ? hsla((i / barCount) * 360, 1, 0.5, opacity)
+          : paletteFill(params, barX, height, height - barHeight, opacity);
+        surface.fillRect(barX, height - barHeight, Math.max(0, barWidth - gap), barHeight, paint);
+        if (params.peakHold) {
+          surface.fillRect(barX, height - peaks[i] - PEAK_MARKER_SIZE, Math.max(0, barWidth - gap), PEAK_MARKER_SIZE, peakColor);
+        }
+      });
+    }
+  },
+};
+
+// モード8: ゴニオメーター（Lissajous / ベクトルスコープ）
+const goniometer: VisualizerMode = {
+  id: 8,
+  label: 'ゴニオメーター',
+  dataSource: 'timeDomain',
+  stereo: true,
+  params: [
+    {
+      type: 'select',
+      key: 'style',
+      label: '描画',
+      options: [
+        { value: 'line', label: '線' },
+        { value: 'dots', label: '点' },
+      ],
+      default: 'line',
+    },
+    { type: 'number', key: 'size', label: '大きさ', min: 0.1, max: 1, step: 0.05, default: 0.4 },
+    { type: 'number', key: 'gain', label: '感度', min: 0.5, max: 8, step: 0.5, default: 2 },
+    { type: 'boolean', key: 'guides', label: 'ガイド線', default: true },
+    ...strokeParams(1),
+  ],
+  draw({ surface, stereo, width, height, params }) {
+    const { left, right } = stereo as StereoData;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const radius = (Math.min(width, height) / 2) * (params.size as number);
+    const scale = (radius * (params.gain as number)) / 256;
+    const opacity = params.opacity as number;
+    const color = hexToRgba(params.color as string, opacity);
+    const lineWidth = params.lineWidth as number;
+
+    // L/Rの軸（斜め）とモノラルの軸（縦）、左右逆相の軸（横）
+    if (params.guides) {
+      const guideColor = hexToRgba(params.color as string, opacity * 0.25);
+      const diagonal = radius / Math.SQRT2;
+      surface.strokePolyline([centerX - diagonal, centerY - diagonal, centerX + diagonal, centerY + diagonal], guideColor, 1);
+      surface.strokePolyline([centerX + diagonal, centerY - diagonal, centerX - diagonal, centerY + diagonal], guideColor, 1);
+      surface.strokePolyline([centerX, centerY - radius, centerX, centerY + radius], guideColor, 1);
+      surface.strokePolyline([centerX - radius, centerY, centerX + radius, centerY], guideColor, 1);
+    }
+
+    // 左右が同じ（モノラル）なら縦、逆相なら横に振れるよう45°回転して配置
+    const count = Math.min(left.length, right.length);
+    const points: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const l = left[i] - 128;
+      const r = right[i] - 128;
+      points.push(centerX + (r - l) * scale, centerY - (l + r) * scale);
+    }
+
+    if (params.style === 'dots') {
+      const half = lineWidth / 2;
+      for (let i = 0; i < points.length; i += 2) {
+        surface.fillRect(points[i] - half, points[i + 1] - half, lineWidth, lineWidth, color);
+      }
+    } else {
+      surface.strokePolyline(points, color, lineWidth);
+    }
+  },
+};
+
+// モード9: ミッド/サイド（中央から上にミッド、下にサイドのスペクトラム）
+const midSideBars: VisualizerMode = {
+  id: 9,
+  label: 'ミッド/サイド',
+  dataSource: 'frequency',
+  stereo: true,
+  params: [
+    { type: 'number', key: 'barCount', label: 'バー本数', min: 8, max: 256, step: 8, default: 64 },
+    { type: 'number', key: 'gap', label: 'バーの間隔', min: 0, max: 20, step: 1, default: 1 },
+    ...frequencyParams(),
+    { type: 'color', key: 'midColor', label: 'ミッドの色', default: '#ffffff' },
+    { type: 'color', key: 'sideColor', label: 'サイドの色', default: '#00bcd4' },
+    { type: 'number', key: 'opacity', label: '不透明度', min: 0, max: 1, step: 0.05, default: 0.8 },
+  ],
+  draw(context) {
+    const { surface, width, height, params } = context;
+    const stereo = context.stereo as StereoData;
+    const barCount = params.barCount as number;
+    const gap = params.gap as number;
+    const opacity = params.opacity as number;
+    const barWidth = width / barCount;
+    const centerY = height / 2;
+    const mid = getBandValues(context, barCount, stereo.mid);
+    const side = getBandValues(context, barCount, stereo.side);
+    const midColor = hexToRgba(params.midColor as string, opacity);
+    const sideColor = hexToRgba(params.sideColor as string, opacity);
+
+    for (let i = 0; i < barCount; i++) {
+      const x = i * barWidth;
+      surface.fillRect(x, centerY - mid[i], Math.max(0, barWidth - gap), mid[i], midColor);
+      surface.fillRect(x, centerY, Math.max(0, barWidth - gap), side[i], sideColor);
+    }
+  },
+};
+
+// 履歴系モード（スペクトログラム・ウォーターフォール）の共通パラメータ
+function historyParams(colormap: Colormap, rows: number, speed: number): ModeParamSchema[] {
+  return [
+    { type: 'number', key: 'historyLength', label: '履歴の長さ（行）', min: 8, max: 1024, step: 8, default: rows },
+    { type: 'number', key: 'speed', label: '流れる速さ（行/秒）', min: 5, max: 120, step: 5, default: speed },
+    {
+      type: 'select',
+      key: 'direction',
+      label: '方向',
+      options: [
+        { value: 'horizontal', label: '横（右が最新）' },
+        { value: 'vertical', label: '縦（下が最新）' },
+      ],
+      default: 'horizontal',
+    },
+    { type: 'select', key: 'colormap', label: 'カラーマップ', options: COLORMAP_OPTIONS, default: colormap },
+  ];
+}
+
+/**
+ * 周波数スケールに従ったcolumns本の帯域の値を履歴に追加
+ */
+function updateHistory(context: VisualizerDrawContext, columns: number): SpectrumHistory {
+  const { time, params, state } = context;
+  let history = state.history as SpectrumHistory | undefined;
+  if (!history) {
+    history = new SpectrumHistory();
+    state.history = history;
+  }
+  history.update(getBandValues(context, columns), time, params.historyLength as number, params.speed as number);
+  return history;
+}
+
+/**
+ * 方向に合わせて座標系を回転し、周波数方向の長さ（x）と時間方向の長さ（y、下が最新）を返す
+ * 横の場合は周波数が下から上、時間が左から右（右が最新）になる
+ */
+function applyHistoryDirection(context: VisualizerDrawContext, direction: string): { length: number; depth: number } {
+  const { surface, width, height } = context;
+  if (direction === 'horizontal') {
+    surface.translate(0, height);
+    surface.rotate(-Math.PI / 2);
+    return { length: height, depth: width };
+  }
+  return { length: width, depth: height };
+}
+
+// モード10: スペクトログラム
+const spectrogram: VisualizerMode = {
+  id: 10,
+  label: 'スペクトログラム',
+  dataSource: 'frequency',
+  params: [
+    { type: 'number', key: 'resolution', label: '周波数の分割数', min: 32, max: 512, step: 32, default: 256 },
+    ...historyParams('viridis', 256, 60),
+    ...frequencyParams(),
+    { type: 'number', key: 'opacity', label: '不透明度', min: 0, max: 1, step: 0.05, default: 1 },
+  ],
+  // 共通の描画（1セルずつ塗るため重い。Canvas 2D・WebGLでは画像として描画する）
+  draw(context) {
+    const { surface, params } = context;
+    const history = updateHistory(context, params.resolution as number);
+    const { length, depth } = applyHistoryDirection(context, params.direction as string);
+    const { rows, columns } = history;
+    const cellWidth = length / columns;
+    const cellHeight = depth / rows;
+    const colormap = params.colormap as Colormap;
+    const opacity = params.opacity as number;
+
+    for (let age = 0; age < rows; age++) {
+      const row = history.rowAt(age);
+      const y = depth - (age + 1) * cellHeight;
+      for (let i = 0; i < columns; i++) {
+        const value = history.data[row * columns + i];
+        surface.fillRect(i * cellWidth, y, cellWidth, cellHeight, colormapColor(colormap, value, opacity));
+      }
+    }
+  },
+  drawCanvas2D(context) {
+    const { surface, ctx, params, state } = context;
+    const history = updateHistory(context, params.resolution as number);
+    const { length, depth } = applyHistoryDirection(context, params.direction as string);
+    let canvas = state.canvas2D as SpectrogramCanvas2D | undefined;
+    if (!canvas) {
+      canvas = new SpectrogramCanvas2D();
+      state.canvas2D = canvas;
+    }
+    canvas.draw(ctx, history, params.colormap as Colormap, length, depth, params.opacity as number);
+  },
+  drawWebGL(context) {
+    const { surface, gl, params, state } = context;
+    const history = updateHistory(context, params.resolution as number);
+    const { length, depth } = applyHistoryDirection(context, params.direction as string);
+    let texture = state.webGL as SpectrogramWebGL | undefined;
+    if (!texture) {
+      const created = new SpectrogramWebGL();
+      texture = created;
+      state.webGL = created;
+      state.dispose = () => created.dispose(gl);
+    }
+    texture.draw(gl, surface.getTransform(), history, params.colormap as Colormap, length, depth,
+      (params.opacity as number) * surface.globalAlpha);
+  },
+};
+
+// モード11: ウォーターフォール（過去のスペクトラムを奥に並べた3D表示）
+const waterfall: VisualizerMode = {
+  id: 11,
+  label: 'ウォーターフォール',
+  dataSource: 'frequency',
+  params: [
+    { type: 'number', key: 'resolution', label: '周波数の分割数', min: 16, max: 256, step: 16, default: 96 },
+    ...historyParams('magma', 40, 20),
+    { type: 'number', key: 'perspective', label: '奥行き', min: 0, max: 0.9, step: 0.05, default: 0.5 },
+    { type: 'number', key: 'amplitude', label: '高さ', min: 0.1, max: 2, step: 0.1, default: 1 },
+    { type: 'boolean', key: 'fill', label: '奥の線を隠す', default: true },
+    { type: 'number', key: 'lineWidth', label: '線幅', min: 0.5, max: 10, step: 0.5, default: 2 },
+    ...frequencyParams(),
+    { type: 'number', key: 'opacity', label: '不透明度', min: 0, max: 1, step: 0.05, default: 1 },
+  ],
+  draw(context) {
+    const { surface, params } = context;
+    const history = updateHistory(context, params.resolution as number);
+    const { length, depth } = applyHistoryDirection(context, params.direction as string);
+    const { rows, columns } = history;
+    const colormap = params.colormap as Colormap;
+    const opacity = params.opacity as number;
+    const perspective = params.perspective as number;
+    const lineWidth = params.lineWidth as number;
+    const maxHeight = depth * 0.4 * (params.amplitude as number);
+    const center = length / 2;
+    const fill: Rgba = [0, 0, 0, opacity * 0.85];
+
+    // 奥（古い行）から手前（最新の行）へ描いて、手前の線で奥を隠す
+    for (let age = rows - 1; age >= 0; age--) {
+      const t = rows > 1 ? age / (rows - 1) : 0;
+      const scale = 1 - t * perspective;
+      const baseline = depth - t * depth * 0.6;
+      const row = history.rowAt(age);
+      const points: number[] = [];
+      let peak = 0;
+      for (let i = 0; i < columns; i++) {
+        const value = history.data[row * columns + i];
+        peak = Math.max(peak, value);
+        const x = center + ((i / (columns - 1 || 1)) * length - center) * scale;
+        points.push(x, baseline - (value / 255) * maxHeight * scale);
+      }
+
+      if (params.fill) {
+        for (let i = 0; i + 3 < points.length; i += 2) {
+          surface.fillPolygon(
+            [points[i], baseline, points[i + 2], baseline, points[i + 2], points[i + 3], points[i], points[i + 1]],
+            fill
+          );
+        }
+      }
+      // 線の色は行の最大値、古い行ほど薄く
+      surface.strokePolyline(points, colormapColor(colormap, peak, opacity * (1 - t * 0.7)), lineWidth * scale);
+    }
+  },
+};
+
+// 表示モードのレジストリ（登録順がUIのボタン順になる）
+const registry: VisualizerMode[] = [];
+
+/**
+ * 表示モードを登録
+ */
+export function registerVisualizerMode(mode: VisualizerMode): void {
+  if (registry.some((registered) => registered.id === mode.id)) {
+    throw new Error(`Visualizer mode ${mode.id} is already registered`);
+  }
+  const keys = new Set<string>();
+  for (const param of mode.params ?? []) {
+    if (keys.has(param.key)) {
+      throw new Error(`Duplicate parameter "${param.key}" in visualizer mode ${mode.id}`);
+    }
+    keys.add(param.key);
+  }
+  registry.push(mode);
+}
+
+/**
+ * 登録済みの表示モード一覧を取得
+ */
+export function getVisualizerModes(): readonly VisualizerMode[] {
+  return registry;
+}
+
+/**
+ * IDから表示モードを取得
+ */
+export function getVisualizerMode(id: number): VisualizerMode | undefined {
+  return registry.find((mode) => mode.id === id);
+}
+
+/**
+ * 保存値をモードのパラメータ定義に合わせて解決（未設定・型違いの値は既定値になる）
+ */
+export function resolveModeParams(mode: VisualizerMode, values: ModeParams = {}): ModeParams {
+  const params: ModeParams = {};
+  for (const param of mode.params ?? []) {
+    const value = values[param.key];
+    switch (param.type) {
+      case 'number':
+        params[param.key] = typeof value === 'number'
+          ? Math.max(param.min, Math.min(param.max, value))
+          : param.default;
+        break;
+      case 'boolean':
+        params[param.key] = typeof value === 'boolean' ? value : param.default;
+        break;
+      case 'select':
+        params[param.key] = param.options.some((option) => option.value === value)
+          ? value
+          : param.default;
+        break;
+      case 'color':
+        params[param.key] = typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)
+          ? value
+          : param.default;
+        break;
+    }
+  }
+  return params;
+}
+
+[
+  frequencyBars,
+  waveformLine,
+  circular,
+  mirroredBars,
+  dotMatrix,
+  mirroredWaveform,
+  perspectiveBars,
+  stereoBars,
+  goniometer,
+  midSideBars,
+  spectrogram,
+  waterfall,
+].forEach(registerVisualizerMode);
+
+/**
+ * 解析結果からモードのdataSourceの種類のデータを取得
+ */
+function readSourceData(source: SpectrumSource, dataSource: SpectrumDataSource): Uint8Array {
+  const data = new Uint8Array(source.frequencyBinCount); // analyser.fftSizeの半分になる(1024)
+  if (dataSource === 'frequency') {
+    source.getByteFrequencyData(data);
+  } else {
+    source.getByteTimeDomainData(data);
+  }
+  return data;
+}
+
+/**
+ * チャンネル別のデータを取得（チャンネル別の解析がない場合は全体のデータで代用し、サイドは無音）
+ */
+function readStereoData(frame: SpectrumFrame, dataSource: SpectrumDataSource, data: Uint8Array): StereoData {
+  const { stereo } = frame;
+  if (!stereo) {
+    const silence = new Uint8Array(data.length).fill(dataSource === 'frequency' ? 0 : 128);
+    return { left: data, right: data, mid: data, side: silence };
+  }
+  return {
+    left: readSourceData(stereo.left, dataSource),
+    right: readSourceData(stereo.right, dataSource),
+    mid: readSourceData(stereo.mid, dataSource),
+    side: readSourceData(stereo.side, dataSource),
+  };
+}
+
+/**
+ * 表示調整（倍率・位置）を適用して、スペクトラムレイヤーのモードを0, 0〜width, heightの範囲に描画
+ * drawBackendを指定した場合、バックエンド固有の描画が優先される
+ */
+export function drawVisualizerMode(
+  surface: DrawSurface,
+  frame: SpectrumFrame,
+  layer: Pick<SpectrumLayer, 'mode' | 'adjustments'>,
+  width: number,
+  height: number,
+  state: ModeState,
+  drawBackend?: BackendModeDraw
+): void {
+  const { source, sampleRate, time } = frame;
+  const { adjustments } = layer;
+  const mode = getVisualizerMode(layer.mode);
+  if (!mode || !source) {
+    return;
+  }
+
+  const data = readSourceData(source, mode.dataSource);
+
+  // offsetX, offsetYはパーセンテージ（-150%〜150%）なので、描画範囲の大きさを掛けてピクセルに変換
+  const offsetXPixels = (width * adjustments.offsetX) / 100;
+  const offsetYPixels = (height * adjustments.offsetY) / 100;
+
+  surface.save();
+  surface.translate(width / 2 + offsetXPixels, height / 2 + offsetYPixels);
+  surface.scale(adjustments.scaleX, adjustments.scaleY);
+  surface.translate(-width / 2, -height / 2);
+  const context: VisualizerDrawContext = {
+    surface,
+    data,
+    stereo: mode.stereo ? readStereoData(frame, mode.dataSource, data) : null,
+    sampleRate,
+    time,
+    width,
+    height,
+    params: resolveModeParams(mode, adjustments.params),
+    state,
+  };
+  if (!drawBackend?.(mode, context)) {
+    mode.draw(context);
+  }
+  surface.restore();
+}
@@ -0,0 +1,140 @@
+/**
+ * スペクトラムレンダラーの共通インターフェース
+ * Canvas 2D / WebGLの各バックエンドはこのインターフェースを実装し、
+ * アニメーションループやFPS計測はバックエンドに依存しない形で扱う
+ */
+
+import { Canvas2DRenderer } from './Canvas';
+import { WebGLSpectrumRenderer } from './WebGLRenderer';
+import type { BeatEvent } from './BeatDetector';
+import type { LyricCue } from './Lyrics';
+import type { LayerImage, Scene, TrackInfo } from './Scene';
+
+// モード固有の調整パラメータ（キーはVisualizerModeのparamsで定義される）
+export type ModeParamValue = number | boolean | string;
+export type ModeParams = Record<string, ModeParamValue>;
+
+export type ModeAdjustments = {
+  scaleX: number;
+  scaleY: number;
+  offsetX: number; // パーセンテージ（-150〜150）
+  offsetY: number; // パーセンテージ（-150〜150）
+  params?: ModeParams;
+};
+
+export const DEFAULT_MODE_ADJUSTMENTS: ModeAdjustments = {
+  scaleX: 1.0,
+  scaleY: 1.0,
+  offsetX: 0,
+  offsetY: 0,
+};
+
+// スペクトラムデータの取得元（AnalyserNodeまたはSpectrumAnalyser）
+export interface SpectrumSource {
+  readonly frequencyBinCount: number;
+  getByteFrequencyData(array: Uint8Array): void;
+  getByteTimeDomainData(array: Uint8Array): void;
+}
+
+// チャンネル別の解析（ステレオ系モード用）
+export interface StereoSources {
+  left: SpectrumSource;
+  right: SpectrumSource;
+  mid: SpectrumSource; // (L + R) / 2
+  side: SpectrumSource; // (L - R) / 2
+}
+
+// 1フレームの描画に必要な情報
+export interface SpectrumFrame {
+  scene: Scene;
+  layerImages: Record<string, LayerImage>; // メディアレイヤーのこのフレームで表示するもの（キーはレイヤーのid）
+  source: SpectrumSource | null;
+  // ビート検出用（平滑化なしのデータが望ましい。未指定の場合はsourceを使う）
+  beatSource?: SpectrumSource | null;
+  // チャンネル別の解析（未指定の場合、ステレオ系モードはsourceを左右・ミッドに使い、サイドは無音になる）
+  stereo?: StereoSources | null;
+  sampleRate: number; // sourceの元になる音声のサンプリングレート（周波数ビンとHzの対応に使う）
+  time: number; // フレームの時刻（秒）。平滑化などの時間変化はこの値から計算する
+  playbackTime: number; // 音声の再生位置（秒）。テキストレイヤーの経過時間などに使う
+  track?: TrackInfo | null; // 読み込んだ曲の情報（テキストレイヤーの差し込みに使う）
+  lyrics?: LyricCue[] | null; // 読み込んだ歌詞（歌詞レイヤーに表示する）
+  fade?: number; // 黒へのフェード（0〜1、範囲のフェードイン・フェードアウトに合わせる）
+}
+
+export type RendererType = 'canvas2d' | 'webgl';
+
+export interface SpectrumRenderer {
+  readonly type: RendererType;
+  // 初期化（失敗した場合はfalse）
+  init(canvas: HTMLCanvasElement): boolean;
+  renderFrame(frame: SpectrumFrame): void;
+  resize(width: number, height: number): void;
+  dispose(): void;
+  getFPS(): number;
+  // ビート検出の通知を購読（戻り値の関数で解除）
+  onBeat(listener: (event: BeatEvent) => void): () => void;
+  // 推定テンポ（BPM、推定できない間はnull）
+  getTempo(): number | null;
+}
+
+/**
+ * FPS計測
+ */
+export class FpsCounter {
+  private count = 0;
+  private lastTime = performance.now();
+  private fps = 0;
+
+  tick(): void {
+    this.count++;
+    const now = performance.now();
+    const elapsed = now - this.lastTime;
+    if (elapsed >= 1000) { // 1秒ごとに更新
+      this.fps = Math.round((this.count * 1000) / elapsed);
+      this.count = 0;
+      this.lastTime = now;
+    }
+  }
+
+  get value(): number {
+    return this.fps;
+  }
+
+  reset(): void {
+    this.count = 0;
+    this.lastTime = performance.now();
+    this.fps = 0;
+  }
+}
+
+/**
+ * レンダラーを作成
+ */
+export function createSpectrumRenderer(type: RendererType): SpectrumRenderer {
+  return type === 'webgl' ? new WebGLSpectrumRenderer() : new Canvas2DRenderer();
+}
+
+/**
+ * requestAnimationFrameでレンダラーを駆動する
+ * getFrameは毎フレーム呼ばれるため、最新のパラメータを返せばループを再起動せずに反映される
+ * 戻り値の関数でループを停止する
+ */
+export function startRenderLoop(
+  renderer: SpectrumRenderer,
+  getFrame: () => SpectrumFrame
+): () => void {
+  let animationFrameId: number | null = null;
+
+  const loop = () => {
+    renderer.renderFrame(getFrame());
+    animationFrameId = requestAnimationFrame(loop);
+  };
+  animationFrameId = requestAnimationFrame(loop);
+
+  return () => {
+    if (animationFrameId !== null) {
+      cancelAnimationFrame(animationFrameId);
+      animationFrameId = null;
+    }
+  };
+}
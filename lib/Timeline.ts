@@ -0,0 +1,173 @@
+/**
+ * 書き出す範囲（開始・終了）とフェードイン・フェードアウト
+ * プレビュー・録画はAudioParamの自動化、高速書き出しはPCMへの適用で同じ音量の変化にし、
+ * 映像は同じ割合で黒へフェードする
+ */
+
+import type { ModeParamSchema } from './SpectrumModes';
+
+// 区間の目印（書き出す動画のチャプターになる）
+export interface TimelineMarker {
+  id: string;
+  time: number; // 秒（曲の先頭から）
+  title: string;
+}
+
+export interface TimelineSettings {
+  start: number; // 秒（曲の先頭から）
+  end: number; // 秒
+  fadeIn: number; // 秒
+  fadeOut: number; // 秒
+  loop: boolean; // プレビューで範囲を繰り返し再生する（録画・書き出しには影響しない）
+  markers: TimelineMarker[]; // 時刻順
+}
+
+// 範囲の最小の長さ（秒）
+export const MIN_TIMELINE_LENGTH = 0.5;
+
+// 調整UIの定義（範囲は波形の上のスライダーで指定する）
+export const TIMELINE_PARAMS: ModeParamSchema[] = [
+  { type: 'number', key: 'fadeIn', label: 'フェードイン（秒）', min: 0, max: 10, step: 0.1, default: 0 },
+  { type: 'number', key: 'fadeOut', label: 'フェードアウト（秒）', min: 0, max: 10, step: 0.1, default: 0 },
+  { type: 'boolean', key: 'loop', label: 'プレビューで範囲を繰り返す', default: false },
+];
+
+/**
+ * 曲全体を範囲にした設定
+ */
+export function createTimeline(duration: number): TimelineSettings {
+  return { start: 0, end: duration, fadeIn: 0, fadeOut: 0, loop: false, markers: [] };
+}
+
+/**
+ * 時刻timeに目印を加える（時刻順を保つ）
+ */
+export function addTimelineMarker(timeline: TimelineSettings, time: number, title: string): TimelineSettings {
+  const marker: TimelineMarker = { id: `marker_${Math.random().toString(36).slice(2, 10)}`, time, title };
+  return { ...timeline, markers: [...timeline.markers, marker].sort((a, b) => a.time - b.time) };
+}
+
+/**
+ * 範囲を曲の長さに収め、フェードの長さを範囲の長さ以下にする
+ */
+export function clampTimeline(timeline: TimelineSettings, duration: number): TimelineSettings {
+  const end = Math.min(Math.max(timeline.end, MIN_TIMELINE_LENGTH), duration);
+  const start = Math.min(Math.max(timeline.start, 0), Math.max(end - MIN_TIMELINE_LENGTH, 0));
+  const length = end - start;
+  const fadeIn = Math.min(Math.max(timeline.fadeIn, 0), length);
+  const fadeOut = Math.min(Math.max(timeline.fadeOut, 0), length - fadeIn);
+  return { ...timeline, start, end, fadeIn, fadeOut };
+}
+
+/**
+ * 曲の時刻timeでのフェードの音量（0〜1、範囲外は0）
+ * フェードは直線で変化する
+ */
+export function getFadeGain(timeline: TimelineSettings, time: number): number {
+  const { start, end, fadeIn, fadeOut } = timeline;
+  if (time < start || time > end) {
+    return 0;
+  }
+  let gain = 1;
+  if (fadeIn > 0 && time < start + fadeIn) {
+    gain = Math.min(gain, (time - start) / fadeIn);
+  }
+  if (fadeOut > 0 && time > end - fadeOut) {
+    gain = Math.min(gain, (end - time) / fadeOut);
+  }
+  return gain;
+}
+
+/**
+ * フェードをAudioParamに予約する
+ * contextTime（AudioContextの時刻）に曲のoffset秒から再生する前提で、以降の変化点まで直線で変化させる
+ */
+export function scheduleFadeGain(
+  param: AudioParam,
+  timeline: TimelineSettings,
+  contextTime: number,
+  offset: number
+): void {
+  const { start, end, fadeIn, fadeOut } = timeline;
+  param.cancelScheduledValues(0);
+  param.setValueAtTime(getFadeGain(timeline, offset), contextTime);
+  // フェードの音量は変化点の間で直線なので、変化点ごとの値へのランプで同じ変化になる
+  const points = [start + fadeIn, end - fadeOut, end].filter((time) => time > offset);
+  for (const time of points) {
+    param.linearRampToValueAtTime(getFadeGain(timeline, time), contextTime + (time - offset));
+  }
+}
+
+/**
+ * 書き出し用：チャンネルごとのPCMから範囲を切り出してフェードを適用したもの
+ */
+export function applyTimelineToChannels(
+  channels: Float32Array[],
+  sampleRate: number,
+  timeline: TimelineSettings
+): Float32Array[] {
+  const startFrame = Math.floor(timeline.start * sampleRate);
+  const endFrame = Math.min(Math.ceil(timeline.end * sampleRate), channels[0]?.length ?? 0);
+  const length = Math.max(endFrame - startFrame, 1);
+  const gains = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    gains[i] = getFadeGain(timeline, (startFrame + i) / sampleRate);
+  }
+  return channels.map((channel) => {
+    const source = channel.subarray(startFrame, startFrame + length);
+    const target = new Float32Array(length);
+    for (let i = 0; i < source.length; i++) {
+      target[i] = source[i] * gains[i];
+    }
+    return target;
+  });
+}
+
+/**
+ * 書き出し用：範囲を切り出してフェードを適用したAudioBuffer
+ */
+export function applyTimelineToBuffer(audioBuffer: AudioBuffer, timeline: TimelineSettings): AudioBuffer {
+  const { sampleRate, numberOfChannels } = audioBuffer;
+  const source: Float32Array[] = [];
+  for (let ch = 0; ch < numberOfChannels; ch++) {
+    source.push(audioBuffer.getChannelData(ch));
+  }
+  const channels = applyTimelineToChannels(source, sampleRate, timeline);
+  const result = new AudioBuffer({ length: channels[0].length, numberOfChannels, sampleRate });
+  channels.forEach((channel, ch) => result.copyToChannel(channel, ch));
+  return result;
+}
+
+/**
+ * 波形の表示用に、曲をcount個に区切った各区間の最大振幅（全チャンネル、0〜1）
+ */
+export function computeWaveformPeaks(audioBuffer: AudioBuffer, count: number): Float32Array {
+  const peaks = new Float32Array(count);
+  const samplesPerPeak = audioBuffer.length / count;
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    const data = audioBuffer.getChannelData(ch);
+    for (let i = 0; i < count; i++) {
+      const from = Math.floor(i * samplesPerPeak);
+      const to = Math.min(Math.floor((i + 1) * samplesPerPeak), data.length);
+      let peak = peaks[i];
+      for (let j = from; j < to; j++) {
+        const value = Math.abs(data[j]);
+        if (value > peak) {
+          peak = value;
+        }
+      }
+      peaks[i] = Math.min(peak, 1);
+    }
+  }
+  return peaks;
+}
+
+/**
+ * 範囲の指定用に秒を「分:秒.1/10秒」にする
+ */
+export function formatTimelineTime(seconds: number): string {
+  const tenths = Math.max(0, Math.round(seconds * 10));
+  const m = Math.floor(tenths / 600);
+  const s = ((tenths % 600) / 10).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+}
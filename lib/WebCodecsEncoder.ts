@@ -3,11 +3,21 @@
  * GPUを活用した高速動画エンコード
  */
 
+import { Mp4Muxer, type Mp4Metadata } from './Mp4Muxer';
+
+export interface AudioTrackConfig {
+  sampleRate: number;
+  numberOfChannels: number;
+  bitrate: number;
+}
+
 export interface EncoderConfig {
   width: number;
   height: number;
   frameRate: number;
   bitrate: number;
+  audio?: AudioTrackConfig; // 指定した場合は音声トラックも出力
+  metadata?: Mp4Metadata; // MP4に書き込む曲名などのメタデータ
 }
 
 export interface EncoderProgress {
@@ -16,6 +26,21 @@ export interface EncoderProgress {
   progress: number;
 }
 
+/**
+ * 解像度に応じたH.264 Baselineのコーデック文字列を取得
+ * レベル3.0のままだとフルHD以上でエンコーダーに拒否されるため、マクロブロック数からレベルを選ぶ
+ */
+export function getAvcCodecString(width: number, height: number): string {
+  const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+  if (macroblocks <= 1620) {
+    return 'avc1.42001E'; // Level 3.0
+  }
+  if (macroblocks <= 8192) {
+    return 'avc1.420028'; // Level 4.0
+  }
+  return 'avc1.420032'; // Level 5.0
+}
+
 /**
  * WebCodecs APIのサポート確認
  */
@@ -27,6 +52,40 @@ export function isWebCodecsSupported(): boolean {
   );
 }
 
+/**
+ * WebCodecs AudioEncoderのサポート確認
+ */
+export function isAudioEncoderSupported(): boolean {
+  return 'AudioEncoder' in window && 'AudioData' in window;
+}
+
+/**
+ * 利用可能な音声エンコーダー設定を選択（AAC優先、非対応ならOpus）
+ */
+export async function selectAudioEncoderConfig(audio: AudioTrackConfig): Promise<AudioEncoderConfig | null> {
+  if (!isAudioEncoderSupported()) {
+    return null;
+  }
+
+  const candidates: AudioEncoderConfig[] = [
+    { codec: 'mp4a.40.2', ...audio, aac: { format: 'aac' } }, // AAC-LC
+    { codec: 'opus', ...audio, sampleRate: 48000, opus: { format: 'opus' } },
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      const result = await AudioEncoder.isConfigSupported(candidate);
+      if (result.supported) {
+        return candidate;
+      }
+    } catch (e) {
+      // サポートされていない
+    }
+  }
+
+  return null;
+}
+
 /**
  * ハードウェアエンコーダーのサポート確認
  */
@@ -71,17 +130,130 @@ export async function checkHardwareEncoderSupport(): Promise<{
   return support;
 }
 
+/**
+ * WebCodecs音声エンコーダー
+ * AudioBufferをAudioDataに分割してエンコードし、MP4マルチプレクサへ渡す
+ */
+export class WebCodecsAudioEncoder {
+  private encoder: AudioEncoder | null = null;
+
+  // 1回のAudioDataに含めるサンプルフレーム数
+  private static readonly FRAMES_PER_DATA = 4096;
+  // エンコードキューがこれを超えたら処理待ちする
+  private static readonly MAX_QUEUE_SIZE = 32;
+
+  constructor(private muxer: Mp4Muxer, private config: AudioEncoderConfig) {}
+
+  /**
+   * エンコーダーを初期化
+   */
+  init(): void {
+    this.encoder = new AudioEncoder({
+      output: (chunk, metadata) => {
+        this.muxer.addAudioChunk(chunk, metadata);
+      },
+      error: (error) => {
+        console.error('Audio encoder error:', error);
+      },
+    });
+    this.encoder.configure(this.config);
+  }
+
+  /**
+   * AudioBufferをエンコード
+   * エンコーダーのサンプルレートと異なる場合はOfflineAudioContextでリサンプリングする
+   */
+  async encodeAudioBuffer(audioBuffer: AudioBuffer): Promise<void> {
+    if (!this.encoder) {
+      throw new Error('Encoder not initialized');
+    }
+
+    const buffer = await resampleAudioBuffer(audioBuffer, this.config.sampleRate);
+    const { numberOfChannels, sampleRate } = this.config;
+    const framesPerData = WebCodecsAudioEncoder.FRAMES_PER_DATA;
+
+    for (let offset = 0; offset < buffer.length; offset += framesPerData) {
+      const numberOfFrames = Math.min(framesPerData, buffer.length - offset);
+
+      // f32-planar形式: チャンネルごとに連続して並べる
+      const planar = new Float32Array(numberOfFrames * numberOfChannels);
+      for (let ch = 0; ch < numberOfChannels; ch++) {
+        // モノラル音源を2chで出力する場合は同じチャンネルを複製
+        const source = buffer.getChannelData(Math.min(ch, buffer.numberOfChannels - 1));
+        planar.set(source.subarray(offset, offset + numberOfFrames), ch * numberOfFrames);
+      }
+
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate,
+        numberOfFrames,
+        numberOfChannels,
+        timestamp: Math.round((offset / sampleRate) * 1e6), // マイクロ秒
+        data: planar,
+      });
+      this.encoder.encode(data);
+      data.close();
+
+      // キューが溜まりすぎないように待つ
+      while (this.encoder.encodeQueueSize > WebCodecsAudioEncoder.MAX_QUEUE_SIZE) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+  }
+
+  /**
+   * 残りのチャンクをすべて出力
+   */
+  async flush(): Promise<void> {
+    if (!this.encoder) {
+      throw new Error('Encoder not initialized');
+    }
+    await this.encoder.flush();
+    this.encoder.close();
+  }
+
+  /**
+   * クリーンアップ
+   */
+  cleanup(): void {
+    if (this.encoder && this.encoder.state !== 'closed') {
+      this.encoder.close();
+    }
+    this.encoder = null;
+  }
+}
+
+/**
+ * AudioBufferを指定したサンプルレートに変換
+ */
+async function resampleAudioBuffer(audioBuffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+  if (audioBuffer.sampleRate === sampleRate) {
+    return audioBuffer;
+  }
+
+  const length = Math.ceil(audioBuffer.duration * sampleRate);
+  const offlineCtx = new OfflineAudioContext(audioBuffer.numberOfChannels, length, sampleRate);
+  const source = offlineCtx.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(offlineCtx.destination);
+  source.start(0);
+  return offlineCtx.startRendering();
+}
+
 /**
  * WebCodecsエンコーダー
  */
 export class WebCodecsVideoEncoder {
   private encoder: VideoEncoder | null = null;
-  private chunks: Uint8Array[] = [];
   private frameCount = 0;
   private config: EncoderConfig;
   private onProgress?: (progress: EncoderProgress) => void;
   private totalFrames = 0;
-  private muxer: any = null; // MP4Muxerを使う場合
+  private muxer: Mp4Muxer | null = null;
+  private audioEncoder: WebCodecsAudioEncoder | null = null;
+
+  // エンコードキューがこれを超えたら処理待ちする（メモリ使用量の抑制）
+  private static readonly MAX_QUEUE_SIZE = 8;
 
   constructor(config: EncoderConfig, onProgress?: (progress: EncoderProgress) => void) {
     this.config = config;
@@ -98,12 +270,13 @@ export class WebCodecsVideoEncoder {
 
     // H.264ハードウェアエンコーダーを設定
     const encoderConfig: VideoEncoderConfig = {
-      codec: 'avc1.42001E', // H.264 Baseline
+      codec: getAvcCodecString(this.config.width, this.config.height), // H.264 Baseline
       width: this.config.width,
       height: this.config.height,
       bitrate: this.config.bitrate,
       framerate: this.config.frameRate,
       hardwareAcceleration: 'prefer-hardware', // ハードウェアエンコーディングを優先
+      avc: { format: 'avc' }, // MP4格納用にavcC形式のdescriptionを出力させる
     };
 
     // サポート確認
@@ -123,15 +296,39 @@ export class WebCodecsVideoEncoder {
     });
 
     this.encoder.configure(encoderConfig);
+
+    // 音声エンコーダーの設定（音声トラックを出力する場合のみ）
+    let audioEncoderConfig: AudioEncoderConfig | null = null;
+    if (this.config.audio) {
+      audioEncoderConfig = await selectAudioEncoderConfig(this.config.audio);
+      if (!audioEncoderConfig) {
+        throw new Error('Audio encoder configuration not supported');
+      }
+    }
+
+    this.muxer = new Mp4Muxer({
+      video: { width: this.config.width, height: this.config.height },
+      audio: audioEncoderConfig
+        ? {
+            sampleRate: audioEncoderConfig.sampleRate,
+            numberOfChannels: audioEncoderConfig.numberOfChannels,
+            bitrate: audioEncoderConfig.bitrate,
+          }
+        : undefined,
+      metadata: this.config.metadata,
+    });
+
+    if (audioEncoderConfig) {
+      this.audioEncoder = new WebCodecsAudioEncoder(this.muxer, audioEncoderConfig);
+      this.audioEncoder.init();
+    }
   }
 
   /**
    * エンコードされたチャンクを処理
    */
   private handleEncodedChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void {
-    const data = new Uint8Array(chunk.byteLength);
-    chunk.copyTo(data);
-    this.chunks.push(data);
+    this.muxer?.addVideoChunk(chunk, metadata);
 
     // 進捗を通知
     if (this.onProgress && this.totalFrames > 0) {
@@ -153,7 +350,8 @@ export class WebCodecsVideoEncoder {
 
     // CanvasからVideoFrameを作成
     const frame = new VideoFrame(canvas, {
-      timestamp: timestamp * 1000, // マイクロ秒単位
+      timestamp: Math.round(timestamp * 1e6), // 秒 → マイクロ秒
+      duration: Math.round(1e6 / this.config.frameRate),
     });
 
     // エンコード
@@ -161,6 +359,21 @@ export class WebCodecsVideoEncoder {
     frame.close();
 
     this.frameCount++;
+
+    // 描画がエンコードより速い場合はキューが空くまで待つ
+    while (this.encoder.encodeQueueSize > WebCodecsVideoEncoder.MAX_QUEUE_SIZE) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  /**
+   * 音声トラックをエンコード
+   */
+  async encodeAudio(audioBuffer: AudioBuffer): Promise<void> {
+    if (!this.audioEncoder) {
+      throw new Error('Audio track is not configured');
+    }
+    await this.audioEncoder.encodeAudioBuffer(audioBuffer);
   }
 
   /**
@@ -174,17 +387,19 @@ export class WebCodecsVideoEncoder {
    * エンコードを完了
    */
   async finish(): Promise<Blob> {
-    if (!this.encoder) {
+    if (!this.encoder || !this.muxer) {
       throw new Error('Encoder not initialized');
     }
 
     // エンコーダーをフラッシュ
     await this.encoder.flush();
     this.encoder.close();
+    if (this.audioEncoder) {
+      await this.audioEncoder.flush();
+    }
 
-    // チャンクを結合してBlobを作成
-    const blob = new Blob(this.chunks, { type: 'video/mp4' });
-    return blob;
+    // MP4コンテナに格納してBlobを作成
+    return this.muxer.finalize();
   }
 
   /**
@@ -195,45 +410,66 @@ export class WebCodecsVideoEncoder {
       this.encoder.close();
     }
     this.encoder = null;
-    this.chunks = [];
+    this.audioEncoder?.cleanup();
+    this.audioEncoder = null;
+    this.muxer = null;
     this.frameCount = 0;
   }
 }
 
 /**
  * Canvas + AudioをWebCodecsでエンコード
+ * 音声はデコード済みのAudioBufferからエンコードし、映像と同じMP4に格納する
+ * renderFrameを渡すと各フレームのエンコード直前にCanvasを描画させる（オフライン書き出し用）
  */
 export async function encodeVideoWithAudio(
   canvas: HTMLCanvasElement,
-  audioContext: AudioContext,
-  duration: number,
+  audioBuffer: AudioBuffer,
   config: EncoderConfig,
-  onProgress?: (progress: EncoderProgress) => void
+  onProgress?: (progress: EncoderProgress) => void,
+  renderFrame?: (frameIndex: number, timestamp: number) => void | Promise<void>
 ): Promise<Blob> {
-  const encoder = new WebCodecsVideoEncoder(config, onProgress);
-  await encoder.init();
+  const encoder = new WebCodecsVideoEncoder(
+    {
+      ...config,
+      audio: config.audio || {
+        sampleRate: audioBuffer.sampleRate,
+        numberOfChannels: Math.min(audioBuffer.numberOfChannels, 2),
+        bitrate: 192000,
+      },
+    },
+    onProgress
+  );
 
-  const totalFrames = Math.floor(duration * config.frameRate);
-  encoder.setTotalFrames(totalFrames);
+  try {
+    await encoder.init();
 
-  const frameDuration = 1 / config.frameRate;
+    // 音声トラックを先にエンコード
+    await encoder.encodeAudio(audioBuffer);
 
-  // フレームごとにエンコード
-  for (let i = 0; i < totalFrames; i++) {
-    const timestamp = i * frameDuration;
-    await encoder.encodeFrame(canvas, timestamp);
+    const duration = audioBuffer.duration;
+    const totalFrames = Math.floor(duration * config.frameRate);
+    encoder.setTotalFrames(totalFrames);
 
-    // 進捗表示のために少し待つ
-    if (i % 10 === 0) {
-      await new Promise((resolve) => setTimeout(resolve, 0));
-    }
-  }
+    // フレームごとにエンコード（タイムスタンプはフレーム番号から厳密に算出）
+    for (let i = 0; i < totalFrames; i++) {
+      const timestamp = i / config.frameRate;
+      if (renderFrame) {
+        await renderFrame(i, timestamp);
+      }
+      await encoder.encodeFrame(canvas, timestamp);
 
-  // エンコードを完了
-  const blob = await encoder.finish();
-  encoder.cleanup();
+      // 進捗表示のために少し待つ
+      if (i % 10 === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
 
-  return blob;
+    // エンコードを完了
+    return await encoder.finish();
+  } finally {
+    encoder.cleanup();
+  }
 }
 
 /**
@@ -3,7 +3,23 @@
  * GPU加速により高速な描画を実現
  */
 
-import type { ModeAdjustments } from './Canvas';
+import {
+  isGradient,
+  sampleGradient,
+  type BlendMode,
+  type DrawSurface,
+  type LinearGradient,
+  type Paint,
+  type Rgba,
+  type Transform,
+} from './DrawSurface';
+import { getBackgroundRect, type BackgroundImage, type Rect } from './Background';
+import type { BeatEvent } from './BeatDetector';
+import { BeatReactor } from './BeatReactions';
+import { getBandLevels, PostProcessor } from './PostProcessing';
+import { drawFadeToBlack, drawScene, resolveLayerBackground, SceneState, type MediaLayer } from './Scene';
+import { FpsCounter, type SpectrumFrame, type SpectrumRenderer } from './SpectrumRenderer';
+import { createProgram, createShader } from './WebGLShader';
 
 // 頂点シェーダー（カラー描画用）
 const vertexShaderSource = `
@@ -21,13 +37,13 @@ void main() {
 }
 `;
 
-// フラグメントシェーダー（カラー描画用）
+// フラグメントシェーダー（カラー描画用、アルファを乗算して出力）
 const fragmentShaderSource = `
 precision mediump float;
 varying vec4 v_color;
 
 void main() {
-  gl_FragColor = v_color;
+  gl_FragColor = vec4(v_color.rgb * v_color.a, v_color.a);
 }
 `;
 
@@ -47,23 +63,34 @@ void main() {
 }
 `;
 
-// フラグメントシェーダー（テクスチャ描画用）
+// フラグメントシェーダー（テクスチャ描画用、不透明度を掛けてアルファを乗算して出力）
 const textureFragmentShaderSource = `
 precision mediump float;
 varying vec2 v_texCoord;
 uniform sampler2D u_texture;
+uniform float u_opacity;
 
 void main() {
-  gl_FragColor = texture2D(u_texture, v_texCoord);
+  vec4 color = texture2D(u_texture, v_texCoord);
+  float alpha = color.a * u_opacity;
+  gl_FragColor = vec4(color.rgb * alpha, alpha);
 }
 `;
 
+// 円を近似する多角形の分割数
+const CIRCLE_SEGMENTS = 32;
+
+// バッチの1頂点のfloat数（x, y, r, g, b, a）
+const VERTEX_FLOATS = 6;
+// バッチの初期容量（頂点数）。足りない場合は倍に拡張する
+const INITIAL_BATCH_VERTICES = 65536;
+
 interface WebGLRendererContext {
   gl: WebGLRenderingContext | WebGL2RenderingContext;
   program: WebGLProgram;
   textureProgram: WebGLProgram;
-  positionBuffer: WebGLBuffer;
-  colorBuffer: WebGLBuffer;
+  positionBuffer: WebGLBuffer; // 背景用
+  batchBuffer: WebGLBuffer; // スペクトラム描画用（位置と色を交互に並べた頂点バッチ）
   texCoordBuffer: WebGLBuffer;
   positionLocation: number;
   colorLocation: number;
@@ -72,46 +99,12 @@ interface WebGLRendererContext {
   texCoordLocation: number;
   texResolutionLocation: WebGLUniformLocation | null;
   textureLocation: WebGLUniformLocation | null;
-  imageTexture: WebGLTexture | null;
-  imageCache: {
-    image: HTMLImageElement | null;
-    width: number;
-    height: number;
-  };
+  opacityLocation: WebGLUniformLocation | null;
 }
 
-let glContext: WebGLRendererContext | null = null;
-
-// FPS測定用
-let fpsCounter = 0;
-let fpsLastTime = performance.now();
-let currentFPS = 0;
-
-// アニメーションフレームID管理
-let animationFrameId: number | null = null;
-
-// アニメーション実行中フラグ
-let isAnimating = false;
-
-// 最新のパラメータを保持（再帰呼び出し時に使用）
-let latestCanvas: HTMLCanvasElement | null = null;
-let latestImageCtx: HTMLImageElement | null = null;
-let latestMode: number = 0;
-let latestAnalyser: AnalyserNode | null = null;
-let latestAdjustments: ModeAdjustments | undefined = undefined;
+type GL = WebGLRenderingContext | WebGL2RenderingContext;
 
-// デバッグログ用フラグ
-const DEBUG_WEBGL = false;
-
-function debugLog(message: string, data?: any) {
-  if (DEBUG_WEBGL) {
-    if (data !== undefined) {
-      console.log(`[WebGL] ${message}`, data);
-    } else {
-      console.log(`[WebGL] ${message}`);
-    }
-  }
-}
+const IDENTITY: Transform = [1, 0, 0, 1, 0, 0];
 
 /**
  * WebGLコンテキストを初期化
@@ -157,10 +150,10 @@ function initWebGL(canvas: HTMLCanvasElement): WebGLRendererContext | null {
 
   // バッファを作成
   const positionBuffer = gl.createBuffer();
-  const colorBuffer = gl.createBuffer();
+  const batchBuffer = gl.createBuffer();
   const texCoordBuffer = gl.createBuffer();
 
-  if (!positionBuffer || !colorBuffer || !texCoordBuffer) {
+  if (!positionBuffer || !batchBuffer || !texCoordBuffer) {
     console.error('Failed to create buffers');
     return null;
   }
@@ -175,13 +168,14 @@ function initWebGL(canvas: HTMLCanvasElement): WebGLRendererContext | null {
   const texCoordLocation = gl.getAttribLocation(textureProgram, 'a_texCoord');
   const texResolutionLocation = gl.getUniformLocation(textureProgram, 'u_resolution');
   const textureLocation = gl.getUniformLocation(textureProgram, 'u_texture');
+  const opacityLocation = gl.getUniformLocation(textureProgram, 'u_opacity');
 
   return {
     gl,
     program,
     textureProgram,
     positionBuffer,
-    colorBuffer,
+    batchBuffer,
     texCoordBuffer,
     positionLocation,
     colorLocation,
@@ -190,145 +184,114 @@ function initWebGL(canvas: HTMLCanvasElement): WebGLRendererContext | null {
     texCoordLocation,
     texResolutionLocation,
     textureLocation,
-    imageTexture: null,
-    imageCache: {
-      image: null,
-      width: 0,
-      height: 0,
-    },
+    opacityLocation,
   };
 }
 
 /**
- * シェーダーを作成
+ * 合成方法に合わせてブレンドを設定（色はアルファを乗算済みで出力する前提）
  */
-function createShader(
-  gl: WebGLRenderingContext | WebGL2RenderingContext,
-  type: number,
-  source: string
-): WebGLShader | null {
-  const shader = gl.createShader(type);
-  if (!shader) return null;
-
-  gl.shaderSource(shader, source);
-  gl.compileShader(shader);
-
-  const success = gl.getShaderParameter(shader, gl.COMPILE_STATUS);
-  if (success) {
-    return shader;
+function applyBlendMode(gl: GL, mode: BlendMode): void {
+  gl.enable(gl.BLEND);
+  switch (mode) {
+    case 'add':
+      gl.blendFunc(gl.ONE, gl.ONE);
+      break;
+    case 'multiply':
+      gl.blendFunc(gl.DST_COLOR, gl.ONE_MINUS_SRC_ALPHA);
+      break;
+    case 'screen':
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_COLOR);
+      break;
+    default:
+      gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
   }
-
-  console.error('Shader compile error:', gl.getShaderInfoLog(shader));
-  gl.deleteShader(shader);
-  return null;
 }
 
 /**
- * プログラムを作成
+ * レイヤーの画像のテクスチャ（キーごとに1枚持ち、転送済みの画像と違う場合だけ転送し直す）
+ * フレームの最後にendFrame()を呼ぶと、そのフレームで使われなかったテクスチャを削除する
  */
-function createProgram(
-  gl: WebGLRenderingContext | WebGL2RenderingContext,
-  vertexShader: WebGLShader,
-  fragmentShader: WebGLShader
-): WebGLProgram | null {
-  const program = gl.createProgram();
-  if (!program) return null;
-
-  gl.attachShader(program, vertexShader);
-  gl.attachShader(program, fragmentShader);
-  gl.linkProgram(program);
-
-  const success = gl.getProgramParameter(program, gl.LINK_STATUS);
-  if (success) {
-    return program;
+class TextureCache {
+  private entries = new Map<string, { texture: WebGLTexture | null; source: TexImageSource }>();
+  private used = new Set<string>();
+
+  constructor(private gl: GL) {}
+
+  // refreshがtrueの場合は同じ画像でも転送する（動画など内容が変わるもの）
+  get(key: string, source: TexImageSource, refresh = false): WebGLTexture | null {
+    this.used.add(key);
+    const entry = this.entries.get(key);
+    if (entry && entry.source === source && !refresh) {
+      return entry.texture;
+    }
+    const texture = uploadTexture(this.gl, entry?.texture ?? null, source);
+    this.entries.set(key, { texture, source });
+    return texture;
+  }
+
+  endFrame(): void {
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (!this.used.has(key)) {
+        this.gl.deleteTexture(entry.texture);
+        this.entries.delete(key);
+      }
+    }
+    this.used.clear();
   }
 
-  console.error('Program link error:', gl.getProgramInfoLog(program));
-  gl.deleteProgram(program);
-  return null;
+  dispose(): void {
+    for (const entry of Array.from(this.entries.values())) {
+      this.gl.deleteTexture(entry.texture);
+    }
+    this.entries.clear();
+    this.used.clear();
+  }
 }
 
 /**
- * WebGLで背景画像を描画
+ * テクスチャを矩形（transformを掛けたピクセル座標）に描画
  */
-function drawBackgroundWebGL(
+function drawTexturedRect(
   ctx: WebGLRendererContext,
-  canvas: HTMLCanvasElement,
-  image: HTMLImageElement | null
+  texture: WebGLTexture | null,
+  rect: Rect,
+  transform: Transform,
+  opacity: number
 ): void {
-  debugLog('drawBackgroundWebGL called', {
-    hasImage: !!image,
-    imageSrc: image?.src?.substring(0, 50) + '...',
-    canvasSize: `${canvas.width}x${canvas.height}`
-  });
-
   const { gl, textureProgram, texPositionLocation, texCoordLocation,
-          texResolutionLocation, textureLocation, positionBuffer, texCoordBuffer } = ctx;
-  const canvasWidth = canvas.width;
-  const canvasHeight = canvas.height;
-
-  // 背景色でクリア
-  gl.clearColor(34 / 255, 34 / 255, 34 / 255, 1.0);
-  gl.clear(gl.COLOR_BUFFER_BIT);
-
-  // 画像がない場合は背景色のみ
-  if (!image) {
-    debugLog('No image provided, showing background color only');
-    return;
-  }
-
-  debugLog('Image dimensions', { width: image.width, height: image.height });
-
-  // 画像テクスチャの準備
-  prepareImageTexture(ctx, image, canvasWidth, canvasHeight);
+          texResolutionLocation, textureLocation, opacityLocation, positionBuffer, texCoordBuffer } = ctx;
 
   // テクスチャプログラムを使用
   gl.useProgram(textureProgram);
+  if (opacityLocation) {
+    gl.uniform1f(opacityLocation, opacity);
+  }
 
   // 解像度を設定
   if (texResolutionLocation) {
-    gl.uniform2f(texResolutionLocation, canvasWidth, canvasHeight);
+    gl.uniform2f(texResolutionLocation, gl.drawingBufferWidth, gl.drawingBufferHeight);
+  }
+
+  const [a, b, c, d, e, f] = transform;
+  const left = rect.x;
+  const top = rect.y;
+  const right = rect.x + rect.width;
+  const bottom = rect.y + rect.height;
+  const corners = [
+    left, top,
+    right, top,
+    left, bottom,
+    left, bottom,
+    right, top,
+    right, bottom,
+  ];
+  const positions = new Float32Array(corners.length);
+  for (let i = 0; i < corners.length; i += 2) {
+    positions[i] = a * corners[i] + c * corners[i + 1] + e;
+    positions[i + 1] = b * corners[i] + d * corners[i + 1] + f;
   }
 
-  // 画像のサイズ計算（アスペクト比を保ちながらcanvasに収める）
-  const rawWidth = image.width;
-  const rawHeight = image.height;
-  const canvasAspect = canvasWidth / canvasHeight;
-  const imageAspect = rawWidth / rawHeight;
-
-  let imageCtxWidth = 0;
-  let imageCtxHeight = 0;
-
-  if (imageAspect > canvasAspect) {
-    // 画像の方が横長 → 幅を基準にスケーリング
-    imageCtxWidth = canvasWidth;
-    imageCtxHeight = Math.round(canvasWidth / imageAspect);
-  } else {
-    // 画像の方が縦長または同じ → 高さを基準にスケーリング
-    imageCtxHeight = canvasHeight;
-    imageCtxWidth = Math.round(canvasHeight * imageAspect);
-  }
-
-  const marginWidth = canvasWidth - imageCtxWidth;
-  const posX = marginWidth === 0 ? 0 : marginWidth / 2;
-  const marginHeight = canvasHeight - imageCtxHeight;
-  const posY = marginHeight === 0 ? 0 : marginHeight / 2;
-
-  // 画像を描画する矩形の頂点（2つの三角形）
-  const x1 = posX;
-  const y1 = posY;
-  const x2 = posX + imageCtxWidth;
-  const y2 = posY + imageCtxHeight;
-
-  const positions = new Float32Array([
-    x1, y1,
-    x2, y1,
-    x1, y2,
-    x1, y2,
-    x2, y1,
-    x2, y2,
-  ]);
-
   const texCoords = new Float32Array([
     0, 0,
     1, 0,
@@ -352,913 +315,512 @@ function drawBackgroundWebGL(
 
   // テクスチャを設定
   gl.activeTexture(gl.TEXTURE0);
-  gl.bindTexture(gl.TEXTURE_2D, ctx.imageTexture);
+  gl.bindTexture(gl.TEXTURE_2D, texture);
   if (textureLocation) {
     gl.uniform1i(textureLocation, 0);
   }
 
   // 描画
   gl.drawArrays(gl.TRIANGLES, 0, 6);
+
+  // カラー描画用のattributeと競合しないよう無効化
+  gl.disableVertexAttribArray(texCoordLocation);
 }
 
 /**
- * 画像テクスチャを準備
+ * 画像をテクスチャに転送（テクスチャがない場合は作成）
  */
-function prepareImageTexture(
-  ctx: WebGLRendererContext,
-  image: HTMLImageElement,
-  canvasWidth: number,
-  canvasHeight: number
-): void {
-  const { gl } = ctx;
-
-  // キャッシュチェック
-  if (ctx.imageCache.image === image &&
-      ctx.imageCache.width === canvasWidth &&
-      ctx.imageCache.height === canvasHeight &&
-      ctx.imageTexture) {
-    debugLog('Using cached texture');
-    return; // キャッシュが有効
-  }
-
-  debugLog('Creating new texture', {
-    canvasSize: `${canvasWidth}x${canvasHeight}`,
-    imageSize: `${image.width}x${image.height}`
-  });
-
-  // オフスクリーンcanvasに画像を描画
-  const tempCanvas = document.createElement('canvas');
-  tempCanvas.width = canvasWidth;
-  tempCanvas.height = canvasHeight;
-  const tempCtx = tempCanvas.getContext('2d');
-
-  if (tempCtx) {
-    tempCtx.fillStyle = 'rgba(34, 34, 34, 1.0)';
-    tempCtx.fillRect(0, 0, canvasWidth, canvasHeight);
-
-    // 画像のサイズ計算（アスペクト比を保ちながらcanvasに収める）
-    const rawWidth = image.width;
-    const rawHeight = image.height;
-    const canvasAspect = canvasWidth / canvasHeight;
-    const imageAspect = rawWidth / rawHeight;
-
-    let imageCtxWidth = 0;
-    let imageCtxHeight = 0;
-
-    if (imageAspect > canvasAspect) {
-      // 画像の方が横長 → 幅を基準にスケーリング
-      imageCtxWidth = canvasWidth;
-      imageCtxHeight = Math.round(canvasWidth / imageAspect);
-    } else {
-      // 画像の方が縦長または同じ → 高さを基準にスケーリング
-      imageCtxHeight = canvasHeight;
-      imageCtxWidth = Math.round(canvasHeight * imageAspect);
-    }
-
-    const marginWidth = canvasWidth - imageCtxWidth;
-    const posX = marginWidth === 0 ? 0 : marginWidth / 2;
-    const marginHeight = canvasHeight - imageCtxHeight;
-    const posY = marginHeight === 0 ? 0 : marginHeight / 2;
-
-    tempCtx.drawImage(
-      image,
-      0,
-      0,
-      rawWidth,
-      rawHeight,
-      posX,
-      posY,
-      imageCtxWidth,
-      imageCtxHeight
-    );
-  }
-
-  // テクスチャを作成
-  if (!ctx.imageTexture) {
-    ctx.imageTexture = gl.createTexture();
-  }
-
-  gl.bindTexture(gl.TEXTURE_2D, ctx.imageTexture);
-  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, tempCanvas);
+function uploadTexture(
+  gl: GL,
+  texture: WebGLTexture | null,
+  source: TexImageSource
+): WebGLTexture | null {
+  const target = texture ?? gl.createTexture();
+  gl.bindTexture(gl.TEXTURE_2D, target);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
   gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
   gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
   gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
   gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-
-  // キャッシュを更新
-  ctx.imageCache = {
-    image,
-    width: canvasWidth,
-    height: canvasHeight,
-  };
-}
-
-/**
- * WebGLで矩形（バー）を描画
- */
-function drawRect(
-  ctx: WebGLRendererContext,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  r: number,
-  g: number,
-  b: number,
-  a: number
-): void {
-  const { gl, positionBuffer, colorBuffer, positionLocation, colorLocation } = ctx;
-
-  // 矩形の頂点（2つの三角形）
-  const x1 = x;
-  const y1 = y;
-  const x2 = x + width;
-  const y2 = y + height;
-
-  const positions = new Float32Array([
-    x1, y1,
-    x2, y1,
-    x1, y2,
-    x1, y2,
-    x2, y1,
-    x2, y2,
-  ]);
-
-  const colors = new Float32Array([
-    r, g, b, a,
-    r, g, b, a,
-    r, g, b, a,
-    r, g, b, a,
-    r, g, b, a,
-    r, g, b, a,
-  ]);
-
-  // 位置バッファを設定
-  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(positionLocation);
-  gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-
-  // 色バッファを設定
-  gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, colors, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(colorLocation);
-  gl.vertexAttribPointer(colorLocation, 4, gl.FLOAT, false, 0, 0);
-
-  // 描画
-  gl.drawArrays(gl.TRIANGLES, 0, 6);
+  return target;
 }
 
 /**
- * WebGLでグラデーション付き矩形を描画
+ * グラデーション軸上の位置（0〜1）を計算
  */
-function drawRectGradient(
-  ctx: WebGLRendererContext,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  r1: number,
-  g1: number,
-  b1: number,
-  a1: number,
-  r2: number,
-  g2: number,
-  b2: number,
-  a2: number
-): void {
-  const { gl, positionBuffer, colorBuffer, positionLocation, colorLocation } = ctx;
-
-  // 矩形の頂点（2つの三角形）
-  const x1 = x;
-  const y1 = y;
-  const x2 = x + width;
-  const y2 = y + height;
-
-  const positions = new Float32Array([
-    x1, y1,
-    x2, y1,
-    x1, y2,
-    x1, y2,
-    x2, y1,
-    x2, y2,
-  ]);
-
-  // 上側の頂点(y1)には色1、下側の頂点(y2)には色2
-  const colors = new Float32Array([
-    r1, g1, b1, a1,  // 左上
-    r1, g1, b1, a1,  // 右上
-    r2, g2, b2, a2,  // 左下
-    r2, g2, b2, a2,  // 左下(2つ目の三角形)
-    r1, g1, b1, a1,  // 右上(2つ目の三角形)
-    r2, g2, b2, a2,  // 右下
-  ]);
-
-  // 位置バッファを設定
-  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(positionLocation);
-  gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-
-  // 色バッファを設定
-  gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, colors, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(colorLocation);
-  gl.vertexAttribPointer(colorLocation, 4, gl.FLOAT, false, 0, 0);
-
-  // 描画
-  gl.drawArrays(gl.TRIANGLES, 0, 6);
+function gradientPosition(gradient: LinearGradient, x: number, y: number): number {
+  const dx = gradient.x1 - gradient.x0;
+  const dy = gradient.y1 - gradient.y0;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) {
+    return 0;
+  }
+  return ((x - gradient.x0) * dx + (y - gradient.y0) * dy) / lengthSquared;
 }
 
 /**
- * WebGLで多角形（塗りつぶし）を描画
+ * 凸多角形をグラデーション位置tがmin以上（keepAbove）またはmax以下になる部分に切り取る
+ * （Sutherland–Hodgman法、tは座標に対して線形なので辺上で線形補間できる）
  */
-function drawPolygon(
-  ctx: WebGLRendererContext,
-  vertices: number[], // [x1, y1, x2, y2, x3, y3, ...]
-  r: number,
-  g: number,
-  b: number,
-  a: number
-): void {
-  const { gl, positionBuffer, colorBuffer, positionLocation, colorLocation } = ctx;
-
-  // 頂点数
-  const numVertices = vertices.length / 2;
-
-  // 三角形に分解（fan triangulation: 最初の頂点を中心に）
-  const positions: number[] = [];
-  const colors: number[] = [];
-
-  for (let i = 1; i < numVertices - 1; i++) {
-    // 三角形: 0, i, i+1
-    positions.push(vertices[0], vertices[1]);
-    positions.push(vertices[i * 2], vertices[i * 2 + 1]);
-    positions.push(vertices[(i + 1) * 2], vertices[(i + 1) * 2 + 1]);
-
-    // 各頂点に同じ色
-    for (let j = 0; j < 3; j++) {
-      colors.push(r, g, b, a);
+function clipPolygonByPosition(
+  points: number[],
+  positions: number[],
+  limit: number,
+  keepAbove: boolean
+): { points: number[]; positions: number[] } {
+  const outPoints: number[] = [];
+  const outPositions: number[] = [];
+  const count = positions.length;
+  const inside = (t: number) => (keepAbove ? t >= limit : t <= limit);
+
+  for (let i = 0; i < count; i++) {
+    const j = (i + 1) % count;
+    const ti = positions[i];
+    const tj = positions[j];
+    if (inside(ti)) {
+      outPoints.push(points[i * 2], points[i * 2 + 1]);
+      outPositions.push(ti);
+    }
+    if (inside(ti) !== inside(tj)) {
+      const k = (limit - ti) / (tj - ti);
+      outPoints.push(
+        points[i * 2] + (points[j * 2] - points[i * 2]) * k,
+        points[i * 2 + 1] + (points[j * 2 + 1] - points[i * 2 + 1]) * k
+      );
+      outPositions.push(limit);
     }
   }
 
-  const positionsArray = new Float32Array(positions);
-  const colorsArray = new Float32Array(colors);
-
-  // 位置バッファを設定
-  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, positionsArray, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(positionLocation);
-  gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-
-  // 色バッファを設定
-  gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, colorsArray, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(colorLocation);
-  gl.vertexAttribPointer(colorLocation, 4, gl.FLOAT, false, 0, 0);
-
-  // 描画
-  gl.drawArrays(gl.TRIANGLES, 0, positions.length / 2);
+  return { points: outPoints, positions: outPositions };
 }
 
-/**
- * WebGLで線を描画
- */
-function drawLine(
-  ctx: WebGLRendererContext,
-  x1: number,
-  y1: number,
-  x2: number,
-  y2: number,
-  r: number,
-  g: number,
-  b: number,
-  a: number,
-  lineWidth: number = 2
-): void {
-  const { gl, positionBuffer, colorBuffer, positionLocation, colorLocation } = ctx;
-
-  // 線の太さを考慮した矩形として描画
-  const dx = x2 - x1;
-  const dy = y2 - y1;
-  const len = Math.sqrt(dx * dx + dy * dy);
-  if (len === 0) return;
-
-  const nx = -dy / len;
-  const ny = dx / len;
-
-  const hw = lineWidth / 2;
-
-  const positions = new Float32Array([
-    x1 + nx * hw, y1 + ny * hw,
-    x2 + nx * hw, y2 + ny * hw,
-    x1 - nx * hw, y1 - ny * hw,
-    x1 - nx * hw, y1 - ny * hw,
-    x2 + nx * hw, y2 + ny * hw,
-    x2 - nx * hw, y2 - ny * hw,
-  ]);
-
-  const colors = new Float32Array([
-    r, g, b, a,
-    r, g, b, a,
-    r, g, b, a,
-    r, g, b, a,
-    r, g, b, a,
-    r, g, b, a,
-  ]);
-
-  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(positionLocation);
-  gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-
-  gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, colors, gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(colorLocation);
-  gl.vertexAttribPointer(colorLocation, 4, gl.FLOAT, false, 0, 0);
-
-  gl.drawArrays(gl.TRIANGLES, 0, 6);
+// WebGLSurfaceのsave/restoreで保存する状態
+interface SurfaceState {
+  matrix: Transform;
+  alpha: number;
+  blend: BlendMode;
 }
 
 /**
- * WebGLで円を描画
+ * DrawSurfaceのWebGL実装
+ * 変換スタックはCPU側で保持し、各プリミティブをローカル座標の三角形に分解してから
+ * 現在の変換行列を掛けて描画する（Canvas 2Dと同じく線幅や円も変換の影響を受ける）
+ * 不透明度は頂点の色に掛け、合成方法が変わった場合はそれまでのバッチを描画してから切り替える
  */
-function drawCircle(
-  ctx: WebGLRendererContext,
-  x: number,
-  y: number,
-  radius: number,
-  r: number,
-  g: number,
-  b: number,
-  a: number
-): void {
-  const { gl, positionBuffer, colorBuffer, positionLocation, colorLocation } = ctx;
-
-  const segments = 32;
-  const positions: number[] = [];
-  const colors: number[] = [];
-
-  // 中心点
-  const cx = x;
-  const cy = y;
-
-  for (let i = 0; i < segments; i++) {
-    const angle1 = (i / segments) * Math.PI * 2;
-    const angle2 = ((i + 1) / segments) * Math.PI * 2;
-
-    // 三角形
-    positions.push(cx, cy);
-    positions.push(cx + Math.cos(angle1) * radius, cy + Math.sin(angle1) * radius);
-    positions.push(cx + Math.cos(angle2) * radius, cy + Math.sin(angle2) * radius);
-
-    colors.push(r, g, b, a);
-    colors.push(r, g, b, a);
-    colors.push(r, g, b, a);
-  }
-
-  gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(positions), gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(positionLocation);
-  gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
-
-  gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
-  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(colors), gl.STATIC_DRAW);
-  gl.enableVertexAttribArray(colorLocation);
-  gl.vertexAttribPointer(colorLocation, 4, gl.FLOAT, false, 0, 0);
+class WebGLSurface implements DrawSurface {
+  globalAlpha = 1;
+  blendMode: BlendMode = 'normal';
+  private matrix: Transform = [...IDENTITY];
+  private stack: SurfaceState[] = [];
+  // 1フレーム分の頂点（x, y, r, g, b, a）。配列・GPUバッファともにフレーム間で使い回す
+  private vertices = new Float32Array(INITIAL_BATCH_VERTICES * VERTEX_FLOATS);
+  private vertexCount = 0;
+  private bufferCapacity = 0;
+  private batchBlend: BlendMode = 'normal'; // バッチに溜めた頂点の合成方法
 
-  gl.drawArrays(gl.TRIANGLES, 0, segments * 3);
-}
+  constructor(private ctx: WebGLRendererContext) {}
 
-/**
- * アニメーションループの本体
- */
-function renderFrame(): void {
-  if (!latestCanvas || !latestAnalyser || !glContext) {
-    debugLog('renderFrame: Missing required parameters', {
-      hasCanvas: !!latestCanvas,
-      hasAnalyser: !!latestAnalyser,
-      hasGlContext: !!glContext
-    });
-    isAnimating = false;
-    return;
+  get width(): number {
+    return this.ctx.gl.drawingBufferWidth;
   }
 
-  const canvas = latestCanvas;
-  const imageCtx = latestImageCtx;
-  const mode = latestMode;
-  const analyser = latestAnalyser;
-  const adjustments = latestAdjustments;
-
-  // 最初のフレームのみログ出力
-  if (fpsCounter === 0) {
-    debugLog('renderFrame: Starting render', {
-      hasImage: !!imageCtx,
-      imageSrc: imageCtx?.src?.substring(0, 50) + '...',
-      mode,
-      canvasSize: `${canvas.width}x${canvas.height}`
-    });
+  get height(): number {
+    return this.ctx.gl.drawingBufferHeight;
   }
 
-  const { gl, program, resolutionLocation } = glContext;
-  const canvasWidth = canvas.width;
-  const canvasHeight = canvas.height;
-
-  // 調整パラメータのデフォルト値
-  const adj = adjustments || {
-    scaleX: 1.0,
-    scaleY: 1.0,
-    offsetX: 0,
-    offsetY: 0,
-  };
-
-  // 背景を描画（WebGLでテクスチャとして描画）
-  drawBackgroundWebGL(glContext, canvas, imageCtx);
-
-  // WebGLの準備（スペクトラム描画用）
-  gl.viewport(0, 0, canvasWidth, canvasHeight);
-  gl.useProgram(program);
-
-  // 解像度を設定
-  if (resolutionLocation) {
-    gl.uniform2f(resolutionLocation, canvasWidth, canvasHeight);
+  save(): void {
+    this.stack.push({ matrix: [...this.matrix], alpha: this.globalAlpha, blend: this.blendMode });
   }
 
-  // ブレンディングを有効化
-  gl.enable(gl.BLEND);
-  gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
-
-  // スペクトラムデータを取得
-  const bufferLength = analyser.frequencyBinCount;
-  const bufferData = new Uint8Array(bufferLength);
-
-  // モードに応じて描画
-  switch (mode) {
-    case 0:
-      // 周波数バー
-      analyser.getByteFrequencyData(bufferData);
-      drawMode0(glContext, bufferData, canvasWidth, canvasHeight, adj);
-      break;
-    case 1:
-      // 波形（折れ線）
-      analyser.getByteTimeDomainData(bufferData);
-      drawMode1(glContext, bufferData, canvasWidth, canvasHeight, adj);
-      break;
-    case 2:
-      // 円形
-      analyser.getByteFrequencyData(bufferData);
-      drawMode2(glContext, bufferData, canvasWidth, canvasHeight, adj);
-      break;
-    case 3:
-      // 上下対称バー
-      analyser.getByteFrequencyData(bufferData);
-      drawMode3(glContext, bufferData, canvasWidth, canvasHeight, adj);
-      break;
-    case 4:
-      // ドット表示
-      analyser.getByteFrequencyData(bufferData);
-      drawMode4(glContext, bufferData, canvasWidth, canvasHeight, adj);
-      break;
-    case 5:
-      // 波形（上下対称）
-      analyser.getByteTimeDomainData(bufferData);
-      drawMode5(glContext, bufferData, canvasWidth, canvasHeight, adj);
-      break;
-    case 6:
-      // 3D風バー
-      analyser.getByteFrequencyData(bufferData);
-      drawMode6(glContext, bufferData, canvasWidth, canvasHeight, adj);
-      break;
+  restore(): void {
+    const state = this.stack.pop();
+    if (state) {
+      this.matrix = state.matrix;
+      this.globalAlpha = state.alpha;
+      this.blendMode = state.blend;
+    }
   }
 
-  // FPS計測
-  fpsCounter++;
-  const now = performance.now();
-  if (now - fpsLastTime >= 1000) {
-    currentFPS = Math.round((fpsCounter * 1000) / (now - fpsLastTime));
-    fpsCounter = 0;
-    fpsLastTime = now;
+  translate(x: number, y: number): void {
+    const m = this.matrix;
+    m[4] += m[0] * x + m[2] * y;
+    m[5] += m[1] * x + m[3] * y;
   }
 
-  // 次のフレームをスケジュール
-  animationFrameId = requestAnimationFrame(renderFrame);
-}
-
-/**
- * WebGLでスペクトラムを描画（メイン関数）
- */
-export const drawBarsWebGL = (
-  canvas: HTMLCanvasElement,
-  imageCtx: HTMLImageElement,
-  mode: number,
-  analyser: AnalyserNode,
-  adjustments?: ModeAdjustments
-): void => {
-  debugLog('drawBarsWebGL called', {
-    hasImage: !!imageCtx,
-    imageSrc: imageCtx?.src?.substring(0, 50) + '...',
-    mode,
-    isAnimating,
-    canvasSize: `${canvas.width}x${canvas.height}`
-  });
-
-  // 最新のパラメータを保存（再帰呼び出し時に使用）
-  latestCanvas = canvas;
-  latestImageCtx = imageCtx;
-  latestMode = mode;
-  latestAnalyser = analyser;
-  latestAdjustments = adjustments;
-
-  // 既にアニメーション中の場合は、パラメータだけ更新して終了
-  if (isAnimating) {
-    debugLog('Already animating, updating parameters only');
-    return;
+  scale(x: number, y: number): void {
+    const m = this.matrix;
+    m[0] *= x;
+    m[1] *= x;
+    m[2] *= y;
+    m[3] *= y;
   }
 
-  // アニメーション開始
-  isAnimating = true;
-
-  // WebGLコンテキストを初期化（初回のみ）
-  if (!glContext || glContext.gl.canvas !== canvas) {
-    glContext = initWebGL(canvas);
+  rotate(angle: number): void {
+    const m = this.matrix;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const [a, b, c, d] = m;
+    m[0] = a * cos + c * sin;
+    m[1] = b * cos + d * sin;
+    m[2] = c * cos - a * sin;
+    m[3] = d * cos - b * sin;
   }
 
-  if (!glContext) {
-    console.error('Failed to initialize WebGL, falling back to Canvas 2D');
-    isAnimating = false;
-    return;
+  getTransform(): Transform {
+    return [...this.matrix];
   }
 
-  // 最初のフレームをレンダリング
-  renderFrame();
-};
-
-// モード0: 周波数バー（Canvas.tsに合わせる）
-function drawMode0(
-  ctx: WebGLRendererContext,
-  bufferData: Uint8Array,
-  canvasWidth: number,
-  canvasHeight: number,
-  adj: ModeAdjustments
-): void {
-  const barsLength = 128;
-  const barWidth = canvasWidth / barsLength;
-  let barX = 0;
-
-  for (let i = 0; i < barsLength; i++) {
-    const barHeight = bufferData[i];
-    const y = canvasHeight - barHeight;
-
-    // 4つの角の座標を変換
-    const [x1, y1] = applyTransform(barX, y, canvasWidth, canvasHeight, adj);
-    const [x2, y2] = applyTransform(barX + barWidth, y + barHeight, canvasWidth, canvasHeight, adj);
-
-    // 変換後のサイズを計算
-    const transformedWidth = x2 - x1;
-    const transformedHeight = y2 - y1;
-
-    // 白色（rgba(255, 255, 255, 0.8)）
-    drawRect(ctx, x1, y1, transformedWidth, transformedHeight, 1.0, 1.0, 1.0, 0.8);
-    barX += barWidth;
+  // フレームの描画開始時に変換・不透明度・合成方法をリセット
+  reset(): void {
+    this.matrix = [...IDENTITY];
+    this.stack = [];
+    this.globalAlpha = 1;
+    this.blendMode = 'normal';
   }
-}
 
-// モード1: 波形（Canvas.tsに合わせる）
-function drawMode1(
-  ctx: WebGLRendererContext,
-  bufferData: Uint8Array,
-  canvasWidth: number,
-  canvasHeight: number,
-  adj: ModeAdjustments
-): void {
-  const bufferLength = bufferData.length;
-  const centerY = canvasHeight / 2;
-  const scale = (canvasHeight / 2) / 128;
-
-  for (let i = 0; i < bufferLength - 1; i++) {
-    const x1 = (i / bufferLength) * canvasWidth;
-    const x2 = ((i + 1) / bufferLength) * canvasWidth;
-    const y1 = centerY - (bufferData[i] - 128) * scale;
-    const y2 = centerY - (bufferData[i + 1] - 128) * scale;
-
-    // 変換を適用
-    const [tx1, ty1] = applyTransform(x1, y1, canvasWidth, canvasHeight, adj);
-    const [tx2, ty2] = applyTransform(x2, y2, canvasWidth, canvasHeight, adj);
-
-    // 白色（rgba(255, 255, 255, 0.8)）
-    drawLine(ctx, tx1, ty1, tx2, ty2, 1.0, 1.0, 1.0, 0.8, 2);
+  /**
+   * テクスチャを矩形（ローカル座標）に、現在の変換・不透明度・合成方法で描画
+   * 描画順を保つため、それまでに溜めた図形を先に描画する
+   */
+  drawTexture(texture: WebGLTexture | null, rect: Rect): void {
+    this.flush();
+    this.applyBlend();
+    drawTexturedRect(this.ctx, texture, rect, this.matrix, this.globalAlpha);
   }
-}
 
-// モード2: 円形（Canvas.tsに合わせる）
-function drawMode2(
-  ctx: WebGLRendererContext,
-  bufferData: Uint8Array,
-  canvasWidth: number,
-  canvasHeight: number,
-  adj: ModeAdjustments
-): void {
-  const bass = Math.floor(bufferData[1]); // 1Hz Freq
-  const baseRadius = 0.2 * canvasWidth <= 200 ? 0.2 * canvasWidth : 200;
-  const radius = -(bass * 0.25 + baseRadius);  // radius is negative (matching Canvas.ts)
-  const barWidth = canvasWidth <= 450 ? 2 : 3;
-
-  // User adjustment offsets in pixels
-  const offsetXPixels = (canvasWidth * adj.offsetX) / 100;
-  const offsetYPixels = (canvasHeight * adj.offsetY) / 100;
-
-  for (let i = 0; i < 256; i++) {
-    const value = bufferData[i];
-    const angle = i * ((180 / 128) * Math.PI / 180);
-
-    // Canvas.ts draws bars at (0, radius) with rotation
-    // After rotation by angle: point (0, radius) becomes (-radius*sin(angle), radius*cos(angle))
-    const localX1 = -radius * Math.sin(angle);
-    const localY1 = radius * Math.cos(angle);
-    const localX2 = -(radius - value) * Math.sin(angle);
-    const localY2 = (radius - value) * Math.cos(angle);
-
-    // Apply full Canvas.ts transformation:
-    // After user adjustments + scale(0.5,0.5) + translate(canvasWidth, canvasHeight):
-    // screen_x = local_x * scaleX * 0.5 + canvasWidth/2 + scaleX * offsetXPixels
-    // screen_y = local_y * scaleY * 0.5 + canvasHeight/2 + scaleY * offsetYPixels
-    const tx1 = localX1 * adj.scaleX * 0.5 + canvasWidth / 2 + adj.scaleX * offsetXPixels;
-    const ty1 = localY1 * adj.scaleY * 0.5 + canvasHeight / 2 + adj.scaleY * offsetYPixels;
-    const tx2 = localX2 * adj.scaleX * 0.5 + canvasWidth / 2 + adj.scaleX * offsetXPixels;
-    const ty2 = localY2 * adj.scaleY * 0.5 + canvasHeight / 2 + adj.scaleY * offsetYPixels;
-
-    // 白色（rgba(255, 255, 255, 0.8)）
-    drawLine(ctx, tx1, ty1, tx2, ty2, 1.0, 1.0, 1.0, 0.8, barWidth);
+  // glで直接描画する前に、現在の合成方法をblendFuncに設定
+  applyBlend(): void {
+    applyBlendMode(this.ctx.gl, this.blendMode);
   }
-}
-
-// モード3: 上下対称バー（Canvas.tsに合わせる）
-function drawMode3(
-  ctx: WebGLRendererContext,
-  bufferData: Uint8Array,
-  canvasWidth: number,
-  canvasHeight: number,
-  adj: ModeAdjustments
-): void {
-  const barsLength = 128;
-  const barWidth = canvasWidth / barsLength;
-  const centerY = canvasHeight / 2;
-
-  for (let i = 0; i < barsLength; i++) {
-    const barHeight = bufferData[i] * 2;
-    const hue = (i / barsLength) * 360;
-
-    // Canvas.tsと同じグラデーション: 上側と下側で色を変える
-    // 上側: hsla(hue, 100%, 50%, 0.8)
-    const [r1, g1, b1] = hslToRgb(hue, 1.0, 0.5);
-    // 下側: hsla(hue+60, 100%, 70%, 0.8)
-    const [r2, g2, b2] = hslToRgb(hue + 60, 1.0, 0.7);
 
-    const x = i * barWidth;
-    const y = centerY - barHeight / 2;
-
-    // 変換を適用
-    const [x1, y1] = applyTransform(x, y, canvasWidth, canvasHeight, adj);
-    const [x2, y2] = applyTransform(x + barWidth - 1, y + barHeight, canvasWidth, canvasHeight, adj);
-
-    const transformedWidth = x2 - x1;
-    const transformedHeight = y2 - y1;
+  fillRect(x: number, y: number, width: number, height: number, paint: Paint): void {
+    if (isGradient(paint)) {
+      this.fillPolygon([x, y, x + width, y, x + width, y + height, x, y + height], paint);
+      return;
+    }
+    const right = x + width;
+    const bottom = y + height;
+    this.reserve(6);
+    this.pushVertex(x, y, paint);
+    this.pushVertex(right, y, paint);
+    this.pushVertex(x, bottom, paint);
+    this.pushVertex(x, bottom, paint);
+    this.pushVertex(right, y, paint);
+    this.pushVertex(right, bottom, paint);
+  }
+
+  fillPolygon(points: number[], paint: Paint): void {
+    if (points.length < 6) {
+      return;
+    }
+    if (!isGradient(paint)) {
+      this.fillConvex(points, () => paint);
+      return;
+    }
 
-    // グラデーション付きで描画
-    drawRectGradient(ctx, x1, y1, transformedWidth, transformedHeight, r1, g1, b1, 0.8, r2, g2, b2, 0.8);
+    // グラデーションの各区間（ストップ間）ごとに多角形を切り出し、頂点色で線形補間する
+    const stops = paint.stops;
+    const positions: number[] = [];
+    for (let i = 0; i < points.length; i += 2) {
+      positions.push(gradientPosition(paint, points[i], points[i + 1]));
+    }
+    const bounds = [-Infinity, ...stops.map((stop) => stop.offset), Infinity];
+    for (let i = 0; i < bounds.length - 1; i++) {
+      let band = { points, positions };
+      if (bounds[i] !== -Infinity) {
+        band = clipPolygonByPosition(band.points, band.positions, bounds[i], true);
+      }
+      if (bounds[i + 1] !== Infinity) {
+        band = clipPolygonByPosition(band.points, band.positions, bounds[i + 1], false);
+      }
+      if (band.positions.length >= 3) {
+        const bandPositions = band.positions;
+        this.fillConvex(band.points, (index) => sampleGradient(stops, bandPositions[index]));
+      }
+    }
   }
-}
 
-// モード4: ドット表示（Canvas.tsに合わせる）
-function drawMode4(
-  ctx: WebGLRendererContext,
-  bufferData: Uint8Array,
-  canvasWidth: number,
-  canvasHeight: number,
-  adj: ModeAdjustments
-): void {
-  const bufferLength = bufferData.length;
-  const dotsPerRow = 32;
-  const dotsPerCol = 16;
-  const dotSize = Math.min(canvasWidth / dotsPerRow, canvasHeight / dotsPerCol);
-
-  for (let col = 0; col < dotsPerRow; col++) {
-    const freqIndex = Math.floor((col / dotsPerRow) * bufferLength);
-    const value = bufferData[freqIndex];
-
-    for (let row = 0; row < dotsPerCol; row++) {
-      const threshold = (255 / dotsPerCol) * (dotsPerCol - row);
-      const opacity = value > threshold ? 0.8 : 0.2;
-      const hue = (col / dotsPerRow) * 360;
-      const [r, g, b] = hslToRgb(hue, 1.0, 0.5);
+  fillCircle(x: number, y: number, radius: number, color: Rgba): void {
+    this.reserve((CIRCLE_SEGMENTS - 2) * 3);
+    const step = (Math.PI * 2) / CIRCLE_SEGMENTS;
+    const startX = x + radius;
+    for (let i = 1; i < CIRCLE_SEGMENTS - 1; i++) {
+      this.pushVertex(startX, y, color);
+      this.pushVertex(x + Math.cos(i * step) * radius, y + Math.sin(i * step) * radius, color);
+      this.pushVertex(x + Math.cos((i + 1) * step) * radius, y + Math.sin((i + 1) * step) * radius, color);
+    }
+  }
 
-      const x = col * dotSize + dotSize / 2;
-      const y = row * dotSize + dotSize / 2;
+  strokePolyline(points: number[], color: Rgba, lineWidth: number): void {
+    const halfWidth = lineWidth / 2;
+    this.reserve(Math.max(0, points.length / 2 - 1) * 6);
+
+    // 線分ごとに線幅分の四角形（2つの三角形）を作る
+    for (let i = 0; i + 3 < points.length; i += 2) {
+      const x1 = points[i];
+      const y1 = points[i + 1];
+      const x2 = points[i + 2];
+      const y2 = points[i + 3];
+      const dx = x2 - x1;
+      const dy = y2 - y1;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      if (length === 0) continue;
+
+      const nx = (-dy / length) * halfWidth;
+      const ny = (dx / length) * halfWidth;
+      this.pushVertex(x1 + nx, y1 + ny, color);
+      this.pushVertex(x2 + nx, y2 + ny, color);
+      this.pushVertex(x1 - nx, y1 - ny, color);
+      this.pushVertex(x1 - nx, y1 - ny, color);
+      this.pushVertex(x2 + nx, y2 + ny, color);
+      this.pushVertex(x2 - nx, y2 - ny, color);
+    }
+  }
 
-      // 変換を適用
-      const [tx, ty] = applyTransform(x, y, canvasWidth, canvasHeight, adj);
+  /**
+   * 溜めた頂点をまとめて1回のdrawArraysで描画
+   * フレームの最後と、他のプログラムで描画する前（drawWebGLなど）に呼ぶ
+   */
+  flush(): void {
+    if (this.vertexCount === 0) {
+      return;
+    }
 
-      // スケールに応じて半径も調整
-      const radius = (dotSize / 3) * Math.min(adj.scaleX, adj.scaleY);
+    const { gl, program, batchBuffer, positionLocation, colorLocation, resolutionLocation } = this.ctx;
+    gl.useProgram(program);
+    if (resolutionLocation) {
+      gl.uniform2f(resolutionLocation, gl.drawingBufferWidth, gl.drawingBufferHeight);
+    }
+    applyBlendMode(gl, this.batchBlend);
 
-      drawCircle(ctx, tx, ty, radius, r, g, b, opacity);
+    // GPU側のバッファは使い回し、容量が足りない場合だけ確保し直す
+    gl.bindBuffer(gl.ARRAY_BUFFER, batchBuffer);
+    if (this.bufferCapacity < this.vertices.length) {
+      gl.bufferData(gl.ARRAY_BUFFER, this.vertices.byteLength, gl.DYNAMIC_DRAW);
+      this.bufferCapacity = this.vertices.length;
+    }
+    gl.bufferSubData(gl.ARRAY_BUFFER, 0, this.vertices.subarray(0, this.vertexCount * VERTEX_FLOATS));
+
+    const stride = VERTEX_FLOATS * Float32Array.BYTES_PER_ELEMENT;
+    gl.enableVertexAttribArray(positionLocation);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, stride, 0);
+    gl.enableVertexAttribArray(colorLocation);
+    gl.vertexAttribPointer(colorLocation, 4, gl.FLOAT, false, stride, 2 * Float32Array.BYTES_PER_ELEMENT);
+
+    gl.drawArrays(gl.TRIANGLES, 0, this.vertexCount);
+    gl.disableVertexAttribArray(colorLocation);
+    this.vertexCount = 0;
+  }
+
+  // 凸多角形を扇形に三角形分割してバッチに追加
+  private fillConvex(points: number[], colorAt: (index: number) => Rgba): void {
+    const count = points.length / 2;
+    this.reserve(Math.max(0, count - 2) * 3);
+    for (let i = 1; i < count - 1; i++) {
+      this.pushVertex(points[0], points[1], colorAt(0));
+      this.pushVertex(points[i * 2], points[i * 2 + 1], colorAt(i));
+      this.pushVertex(points[i * 2 + 2], points[i * 2 + 3], colorAt(i + 1));
     }
   }
-}
 
-// モード5: 波形（上下対称）（Canvas.tsに合わせる）
-function drawMode5(
-  ctx: WebGLRendererContext,
-  bufferData: Uint8Array,
-  canvasWidth: number,
-  canvasHeight: number,
-  adj: ModeAdjustments
-): void {
-  const bufferLength = bufferData.length;
-  const centerY = canvasHeight / 2;
-  const scale = canvasHeight / 512;
-
-  for (let i = 0; i < bufferLength - 1; i++) {
-    const x1 = (i / bufferLength) * canvasWidth;
-    const x2 = ((i + 1) / bufferLength) * canvasWidth;
-    const y1 = centerY - (bufferData[i] - 128) * scale;
-    const y2 = centerY - (bufferData[i + 1] - 128) * scale;
-
-    // 上側（通常）の変換
-    const [tx1, ty1] = applyTransform(x1, y1, canvasWidth, canvasHeight, adj);
-    const [tx2, ty2] = applyTransform(x2, y2, canvasWidth, canvasHeight, adj);
-    drawLine(ctx, tx1, ty1, tx2, ty2, 1.0, 1.0, 1.0, 0.8, 2);
-
-    // 下側（反転）の変換
-    const y1Mirror = canvasHeight - y1;
-    const y2Mirror = canvasHeight - y2;
-    const [tx1m, ty1m] = applyTransform(x1, y1Mirror, canvasWidth, canvasHeight, adj);
-    const [tx2m, ty2m] = applyTransform(x2, y2Mirror, canvasWidth, canvasHeight, adj);
-    drawLine(ctx, tx1m, ty1m, tx2m, ty2m, 1.0, 1.0, 1.0, 0.8, 2);
+  // vertexCount頂点分の空きを確保（足りない場合はバッチの配列を拡張）
+  // 合成方法が溜めた頂点と違う場合は、先に溜めた頂点を描画する
+  private reserve(vertexCount: number): void {
+    if (this.batchBlend !== this.blendMode) {
+      this.flush();
+      this.batchBlend = this.blendMode;
+    }
+    const required = (this.vertexCount + vertexCount) * VERTEX_FLOATS;
+    if (required <= this.vertices.length) {
+      return;
+    }
+    let length = this.vertices.length;
+    while (length < required) {
+      length *= 2;
+    }
+    const vertices = new Float32Array(length);
+    vertices.set(this.vertices.subarray(0, this.vertexCount * VERTEX_FLOATS));
+    this.vertices = vertices;
+  }
+
+  // ローカル座標の頂点を現在の変換でピクセル座標にしてバッチに追加（reserveで確保済みであること）
+  private pushVertex(x: number, y: number, color: Rgba): void {
+    const m = this.matrix;
+    const offset = this.vertexCount * VERTEX_FLOATS;
+    const vertices = this.vertices;
+    vertices[offset] = m[0] * x + m[2] * y + m[4];
+    vertices[offset + 1] = m[1] * x + m[3] * y + m[5];
+    vertices[offset + 2] = color[0];
+    vertices[offset + 3] = color[1];
+    vertices[offset + 4] = color[2];
+    vertices[offset + 5] = color[3] * this.globalAlpha;
+    this.vertexCount++;
   }
 }
 
-// モード6: 3D風バー（Canvas.tsに合わせる）
-function drawMode6(
-  ctx: WebGLRendererContext,
-  bufferData: Uint8Array,
-  canvasWidth: number,
-  canvasHeight: number,
-  adj: ModeAdjustments
-): void {
-  const bufferLength = bufferData.length;
-  const barsLength = 64;
-  const barWidth = canvasWidth / barsLength;
-
-  for (let i = 0; i < barsLength; i++) {
-    const value = bufferData[Math.floor((i / barsLength) * bufferLength)];
-    const barHeight = value * 1.5;
-    const x = i * barWidth;
-    const offset = (i - barsLength / 2) * 2;
-
-    // Canvas.tsと同じ色: グラデーションの中間色を使用
-    const hue = (i / barsLength) * 360;
-    const [r, g, b] = hslToRgb(hue, 1.0, 0.5);
-
-    // Canvas.tsの平行四辺形の頂点:
-    // (x, canvasHeight)
-    // (x + barWidth, canvasHeight)
-    // (x + barWidth + offset * 0.3, canvasHeight - barHeight)
-    // (x + offset * 0.3, canvasHeight - barHeight)
-    const v1x = x;
-    const v1y = canvasHeight;
-    const v2x = x + barWidth;
-    const v2y = canvasHeight;
-    const v3x = x + barWidth + offset * 0.3;
-    const v3y = canvasHeight - barHeight;
-    const v4x = x + offset * 0.3;
-    const v4y = canvasHeight - barHeight;
-
-    // 各頂点に変換を適用
-    const [t1x, t1y] = applyTransform(v1x, v1y, canvasWidth, canvasHeight, adj);
-    const [t2x, t2y] = applyTransform(v2x, v2y, canvasWidth, canvasHeight, adj);
-    const [t3x, t3y] = applyTransform(v3x, v3y, canvasWidth, canvasHeight, adj);
-    const [t4x, t4y] = applyTransform(v4x, v4y, canvasWidth, canvasHeight, adj);
-
-    // 平行四辺形を描画
-    const vertices = [t1x, t1y, t2x, t2y, t3x, t3y, t4x, t4y];
-    drawPolygon(ctx, vertices, r, g, b, 0.8);
+/**
+ * WebGLレンダラー
+ */
+export class WebGLSpectrumRenderer implements SpectrumRenderer {
+  readonly type = 'webgl' as const;
+
+  private glContext: WebGLRendererContext | null = null;
+  private surface: WebGLSurface | null = null;
+  private post: PostProcessor | null = null;
+  private textures: TextureCache | null = null;
+  private scene = new SceneState();
+  private beat = new BeatReactor();
+  private fps = new FpsCounter();
+
+  init(canvas: HTMLCanvasElement): boolean {
+    this.glContext = initWebGL(canvas);
+    if (!this.glContext) {
+      return false;
+    }
+    this.surface = new WebGLSurface(this.glContext);
+    this.post = new PostProcessor(this.glContext.gl);
+    this.textures = new TextureCache(this.glContext.gl);
+    return true;
   }
-}
 
-// HSLをRGBに変換
-function hslToRgb(h: number, s: number, l: number): [number, number, number] {
-  h = h / 360;
-  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-  const p = 2 * l - q;
-
-  const r = hueToRgb(p, q, h + 1 / 3);
-  const g = hueToRgb(p, q, h);
-  const b = hueToRgb(p, q, h - 1 / 3);
-
-  return [r, g, b];
-}
-
-function hueToRgb(p: number, q: number, t: number): number {
-  if (t < 0) t += 1;
-  if (t > 1) t -= 1;
-  if (t < 1 / 6) return p + (q - p) * 6 * t;
-  if (t < 1 / 2) return q;
-  if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
-  return p;
-}
+  renderFrame(frame: SpectrumFrame): void {
+    const { glContext, surface, post, textures } = this;
+    if (!glContext || !surface || !post || !textures) {
+      return;
+    }
 
-/**
- * 調整パラメータを適用して座標を変換
- * Canvas 2Dのtranslate/scaleと同じ効果を実現
- */
-function applyTransform(
-  x: number,
-  y: number,
-  canvasWidth: number,
-  canvasHeight: number,
-  adj: ModeAdjustments
-): [number, number] {
-  // offsetをピクセルに変換（パーセンテージ → ピクセル）
-  const offsetXPixels = (canvasWidth * adj.offsetX) / 100;
-  const offsetYPixels = (canvasHeight * adj.offsetY) / 100;
-
-  // Canvas 2Dと同じ変換を適用：
-  // 1. 原点を中心に移動
-  let tx = x - canvasWidth / 2;
-  let ty = y - canvasHeight / 2;
-
-  // 2. スケール適用
-  tx *= adj.scaleX;
-  ty *= adj.scaleY;
-
-  // 3. 原点を戻してオフセット適用
-  tx += canvasWidth / 2 + offsetXPixels;
-  ty += canvasHeight / 2 + offsetYPixels;
-
-  return [tx, ty];
-}
+    const { gl } = glContext;
+    const canvasWidth = gl.drawingBufferWidth;
+    const canvasHeight = gl.drawingBufferHeight;
+
+    gl.viewport(0, 0, canvasWidth, canvasHeight);
+    const reactions = this.beat.update(frame);
+
+    // ポストエフェクトがある場合はオフスクリーンに描画してから適用する
+    const effects = frame.scene.postEffects?.filter((effect) => effect.enabled) ?? [];
+    const postProcessing = effects.length > 0 && post.begin(canvasWidth, canvasHeight);
+
+    // 図形は1フレーム分をバッチに溜め、画像やモード固有の描画の前にまとめて描画する
+    surface.reset();
+    drawScene(surface, frame, reactions, this.scene, {
+      drawMedia: (layer, { image, animated }, width, height) => {
+        this.drawMedia(surface, textures, layer, image, animated, width, height, frame.time);
+      },
+      drawText: (layer, { canvas, redrawn }, width, height) => {
+        // キャンバスは使い回されるため、描き直した場合は同じキャンバスでも転送する
+        surface.drawTexture(textures.get(`${layer.id}:text`, canvas, redrawn), { x: 0, y: 0, width, height });
+      },
+      drawMode: (mode, context) => {
+        if (!mode.drawWebGL) {
+          return false;
+        }
+        // 描画順を保つため、それまでに溜めた図形を先に描画する
+        surface.flush();
+        surface.applyBlend();
+        mode.drawWebGL({ ...context, gl, transform: surface.getTransform() });
+        return true;
+      },
+    });
+    surface.flush();
+    textures.endFrame();
+
+    if (postProcessing) {
+      const spectrum = new Uint8Array(frame.source?.frequencyBinCount ?? 1);
+      frame.source?.getByteFrequencyData(spectrum);
+      post.apply(effects, {
+        time: frame.time,
+        levels: getBandLevels(spectrum, frame.sampleRate),
+        spectrum,
+      });
+    } else if (effects.length === 0) {
+      // すべて無効にした・削除したエフェクトのプログラムを残さない
+      post.release();
+    }
 
-/**
- * FPSを取得
- */
-export function getFPSWebGL(): number {
-  return currentFPS;
-}
+    // 黒へのフェードはポストエフェクトの後に重ねる
+    if (frame.fade) {
+      surface.reset();
+      drawFadeToBlack(surface, frame.fade);
+      surface.flush();
+    }
 
-/**
- * WebGLアニメーションを停止
- */
-export function stopWebGLAnimation(): void {
-  debugLog('stopWebGLAnimation called', { wasAnimating: isAnimating });
-  if (animationFrameId !== null) {
-    cancelAnimationFrame(animationFrameId);
-    animationFrameId = null;
+    this.fps.tick();
+  }
+
+  /**
+   * メディアレイヤーを枠（0, 0〜width, height）に描画
+   * 静的な部分はBackgroundCacheで枠全体に描いたものをテクスチャにして貼り、
+   * ケン・バーンズが有効な場合はその上に画像を時刻に応じた矩形で重ねる
+   * 動画・アニメーション画像は画像を毎フレームテクスチャに転送して重ねる
+   */
+  private drawMedia(
+    surface: WebGLSurface,
+    textures: TextureCache,
+    layer: MediaLayer,
+    image: BackgroundImage,
+    animated: boolean,
+    width: number,
+    height: number,
+    time: number
+  ): void {
+    const settings = resolveLayerBackground(layer);
+    const cache = this.scene.getBackgroundCache(layer.id);
+    const fill = layer.type !== 'logo';
+    if (fill) {
+      const staticSource = cache.getStatic(image, width, height, settings, animated);
+      // 動画のぼかし塗りは同じキャンバスに毎フレーム描き直されるため常に転送する
+      const refill = animated && settings.fit === 'blurredFill';
+      surface.drawTexture(textures.get(`${layer.id}:static`, staticSource, refill), { x: 0, y: 0, width, height });
+    }
+    if (!fill || settings.kenBurns || animated) {
+      const motionSource = animated ? image : cache.getMotion(image, width, height, settings);
+      const rect = getBackgroundRect(motionSource, width, height, settings, time);
+      surface.drawTexture(textures.get(`${layer.id}:motion`, motionSource, animated), rect);
+    }
   }
-  isAnimating = false;
-}
 
-/**
- * WebGLの画像キャッシュをクリア
- */
-export function clearWebGLImageCache(): void {
-  if (glContext) {
-    if (glContext.imageTexture) {
-      glContext.gl.deleteTexture(glContext.imageTexture);
-      glContext.imageTexture = null;
+  resize(width: number, height: number): void {
+    if (!this.glContext) {
+      return;
+    }
+    const { gl } = this.glContext;
+    const canvas = gl.canvas as HTMLCanvasElement;
+    canvas.width = width;
+    canvas.height = height;
+    // キャンバスサイズ変更時に背景・テキストのキャッシュを無効化（次のフレームでテクスチャも更新される）
+    this.scene.clearImages();
+  }
+
+  dispose(): void {
+    // モードの状態（スペクトログラムのテクスチャ等）はコンテキストを手放す前に削除する
+    this.scene.clear();
+    this.textures?.dispose();
+    this.textures = null;
+    if (this.glContext) {
+      const { gl, program, textureProgram, positionBuffer, batchBuffer, texCoordBuffer } = this.glContext;
+      gl.deleteProgram(program);
+      gl.deleteProgram(textureProgram);
+      gl.deleteBuffer(positionBuffer);
+      gl.deleteBuffer(batchBuffer);
+      gl.deleteBuffer(texCoordBuffer);
+      this.glContext = null;
     }
-    glContext.imageCache = {
-      image: null,
-      width: 0,
-      height: 0,
-    };
+    this.post?.dispose();
+    this.post = null;
+    this.surface = null;
+    this.beat.reset();
+    this.fps.reset();
   }
-}
 
-/**
- * WebGLコンテキストをクリーンアップ
- */
-export function cleanupWebGL(): void {
-  // アニメーションフレームをキャンセル
-  if (animationFrameId !== null) {
-    cancelAnimationFrame(animationFrameId);
-    animationFrameId = null;
+  getFPS(): number {
+    return this.fps.value;
   }
-  isAnimating = false;
-
-  if (glContext) {
-    const { gl, program, textureProgram, positionBuffer, colorBuffer, texCoordBuffer, imageTexture } = glContext;
-    gl.deleteProgram(program);
-    gl.deleteProgram(textureProgram);
-    gl.deleteBuffer(positionBuffer);
-    gl.deleteBuffer(colorBuffer);
-    gl.deleteBuffer(texCoordBuffer);
-    if (imageTexture) {
-      gl.deleteTexture(imageTexture);
-    }
-    glContext = null;
+
+  onBeat(listener: (event: BeatEvent) => void): () => void {
+    return this.beat.onBeat(listener);
+  }
+
+  getTempo(): number | null {
+    return this.beat.bpm;
   }
-  fpsCounter = 0;
-  fpsLastTime = performance.now();
-  currentFPS = 0;
 }
@@ -0,0 +1,52 @@
+/**
+ * WebGLのシェーダー・プログラム作成の共通処理
+ */
+
+/**
+ * シェーダーを作成
+ */
+export function createShader(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  type: number,
+  source: string
+): WebGLShader | null {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  const success = gl.getShaderParameter(shader, gl.COMPILE_STATUS);
+  if (success) {
+    return shader;
+  }
+
+  console.error('Shader compile error:', gl.getShaderInfoLog(shader));
+  gl.deleteShader(shader);
+  return null;
+}
+
+/**
+ * プログラムを作成
+ */
+export function createProgram(
+  gl: WebGLRenderingContext | WebGL2RenderingContext,
+  vertexShader: WebGLShader,
+  fragmentShader: WebGLShader
+): WebGLProgram | null {
+  const program = gl.createProgram();
+  if (!program) return null;
+
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+
+  const success = gl.getProgramParameter(program, gl.LINK_STATUS);
+  if (success) {
+    return program;
+  }
+
+  console.error('Program link error:', gl.getProgramInfoLog(program));
+  gl.deleteProgram(program);
+  return null;
+}
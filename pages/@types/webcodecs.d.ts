@@ -18,6 +18,7 @@ declare global {
     scalabilityMode?: string;
     bitrateMode?: 'constant' | 'variable';
     latencyMode?: 'quality' | 'realtime';
+    avc?: { format?: 'annexb' | 'avc' };
   }
 
   interface VideoEncoderSupport {
@@ -134,11 +135,130 @@ declare global {
     static isConfigSupported(config: VideoDecoderConfig): Promise<{ supported: boolean; config: VideoDecoderConfig }>;
   }
 
+  // AudioEncoder
+  interface AudioEncoderConfig {
+    codec: string;
+    sampleRate: number;
+    numberOfChannels: number;
+    bitrate?: number;
+    aac?: { format?: 'aac' | 'adts' };
+    opus?: { format?: 'opus' | 'ogg'; frameDuration?: number; complexity?: number };
+  }
+
+  interface AudioEncoderSupport {
+    supported: boolean;
+    config: AudioEncoderConfig;
+  }
+
+  interface EncodedAudioChunkMetadata {
+    decoderConfig?: {
+      codec: string;
+      sampleRate: number;
+      numberOfChannels: number;
+      description?: BufferSource;
+    };
+  }
+
+  interface AudioEncoderInit {
+    output: (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => void;
+    error: (error: Error) => void;
+  }
+
+  class AudioEncoder {
+    constructor(init: AudioEncoderInit);
+    configure(config: AudioEncoderConfig): void;
+    encode(data: AudioData): void;
+    flush(): Promise<void>;
+    close(): void;
+    reset(): void;
+    readonly state: 'unconfigured' | 'configured' | 'closed';
+    readonly encodeQueueSize: number;
+    static isConfigSupported(config: AudioEncoderConfig): Promise<AudioEncoderSupport>;
+  }
+
+  // AudioData
+  interface AudioDataInit {
+    format: 'u8' | 's16' | 's32' | 'f32' | 'u8-planar' | 's16-planar' | 's32-planar' | 'f32-planar';
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    timestamp: number;
+    data: BufferSource;
+  }
+
+  class AudioData {
+    constructor(init: AudioDataInit);
+    readonly format: string | null;
+    readonly sampleRate: number;
+    readonly numberOfFrames: number;
+    readonly numberOfChannels: number;
+    readonly duration: number;
+    readonly timestamp: number;
+    close(): void;
+  }
+
+  // EncodedAudioChunk
+  class EncodedAudioChunk {
+    constructor(init: { type: 'key' | 'delta'; timestamp: number; duration?: number; data: BufferSource });
+    readonly type: 'key' | 'delta';
+    readonly timestamp: number;
+    readonly duration: number | null;
+    readonly byteLength: number;
+    copyTo(destination: BufferSource): void;
+  }
+
+  // ImageDecoder（アニメーション画像のフレーム単位のデコード）
+  interface ImageDecoderInit {
+    type: string;
+    data: BufferSource | ReadableStream<Uint8Array>;
+    preferAnimation?: boolean;
+  }
+
+  interface ImageDecodeOptions {
+    frameIndex?: number;
+    completeFramesOnly?: boolean;
+  }
+
+  interface ImageDecodeResult {
+    image: VideoFrame;
+    complete: boolean;
+  }
+
+  interface ImageTrack {
+    readonly animated: boolean;
+    readonly frameCount: number;
+    readonly repetitionCount: number;
+    selected: boolean;
+  }
+
+  interface ImageTrackList {
+    readonly ready: Promise<void>;
+    readonly length: number;
+    readonly selectedIndex: number;
+    readonly selectedTrack: ImageTrack | null;
+  }
+
+  class ImageDecoder {
+    constructor(init: ImageDecoderInit);
+    readonly complete: boolean;
+    readonly completed: Promise<void>;
+    readonly tracks: ImageTrackList;
+    readonly type: string;
+    decode(options?: ImageDecodeOptions): Promise<ImageDecodeResult>;
+    reset(): void;
+    close(): void;
+    static isTypeSupported(type: string): Promise<boolean>;
+  }
+
   // Window interface extension
   interface Window {
     VideoEncoder: typeof VideoEncoder;
     VideoDecoder: typeof VideoDecoder;
     VideoFrame: typeof VideoFrame;
     EncodedVideoChunk: typeof EncodedVideoChunk;
+    AudioEncoder: typeof AudioEncoder;
+    AudioData: typeof AudioData;
+    EncodedAudioChunk: typeof EncodedAudioChunk;
+    ImageDecoder: typeof ImageDecoder;
   }
 }
@@ -8,7 +8,6 @@ import {
   MenuItem,
   Select,
   SelectChangeEvent,
-  Slider,
   Box,
   Typography,
   Accordion,
@@ -23,13 +22,91 @@ import {
   PhotoLibrary,
   VideoLibrary,
   ExpandMore,
+  Speed,
 } from "@mui/icons-material";
 import { CustomSnackbar } from "../components/CustomSnackbar";
-import { drawBars, clearImageCache, getFPS, stopCanvas2DAnimation } from "../lib/Canvas";
-import { drawBarsWebGL, getFPSWebGL, cleanupWebGL, stopWebGLAnimation, clearWebGLImageCache } from "../lib/WebGLRenderer";
+import { ModeParamControls } from "../components/ModeParamControls";
+import { PostEffectControls } from "../components/PostEffectControls";
+import { SceneLayerEditor, SceneLayerList } from "../components/SceneLayerControls";
+import { TimelineControls } from "../components/TimelineControls";
+import { PlaylistControls } from "../components/PlaylistControls";
+import { ChapterTextBlock } from "../components/ChapterTextBlock";
+import {
+  createSpectrumRenderer,
+  startRenderLoop,
+  type ModeAdjustments,
+  type ModeParamValue,
+  type RendererType,
+  type SpectrumRenderer,
+} from "../lib/SpectrumRenderer";
+import { getVisualizerMode, getVisualizerModes } from "../lib/SpectrumModes";
+import { createAnalyserGraph, type AnalyserGraph } from "../lib/AudioGraph";
+import { BEAT_REACTION_PARAMS, DEFAULT_BEAT_REACTIONS, type BeatReactionSettings } from "../lib/BeatReactions";
+import type { PostEffectSettings } from "../lib/PostProcessing";
+import type { BackgroundSettings } from "../lib/Background";
+import {
+  SCENE_PARAMS,
+  createDefaultScene,
+  createSceneLayer,
+  getLayerImages,
+  isMediaLayer,
+  resolveScene,
+  type MediaLayer,
+  type Scene,
+  type SceneLayer,
+  type SceneMedia,
+  type SpectrumLayer,
+  type LyricsLayer,
+  type TextLayer,
+  type TrackInfo,
+} from "../lib/Scene";
+import { loadFontFile } from "../lib/Fonts";
+import { parseAudioMetadata, type AudioMetadata } from "../lib/AudioMetadata";
+import { getLyricsFormat, parseLyrics, type LyricCue } from "../lib/Lyrics";
+import {
+  computeWaveformPeaks,
+  createTimeline,
+  getFadeGain,
+  MIN_TIMELINE_LENGTH,
+  scheduleFadeGain,
+  type TimelineSettings,
+} from "../lib/Timeline";
+import {
+  StillMedia,
+  decodeAnimatedImage,
+  loadVideoMedia,
+  type BackgroundMedia,
+} from "../lib/BackgroundMedia";
 import { getGpuInfo, getGpuDisplayName, getRecommendedRenderer, type GpuInfo } from "../lib/GpuDetector";
 import { isWebCodecsSupported, checkHardwareEncoderSupport, getBestEncodingMethod } from "../lib/WebCodecsEncoder";
+import { getChannels, renderOffline } from "../lib/OfflineRenderer";
+import { SpectrumAnalyser, getMonoWindow } from "../lib/Spectrum";
 import { generateMp4Video } from "../lib/Ffmpeg";
+import { formatChapterText, getOutputChapters } from "../lib/Chapters";
+import {
+  DEFAULT_PLAYLIST_SETTINGS,
+  createPlaylistInfo,
+  createPlaylistTrack,
+  findChapter,
+  getChapterMedia,
+  mixPlaylist,
+  updateChapterTrack,
+  type PlaylistChapter,
+  type PlaylistSettings,
+  type PlaylistTrack,
+} from "../lib/Playlist";
+
+// 以前の形式の保存設定（モードの表示調整にビート反応・ポストエフェクト・背景を含んでいた）
+type LegacyModeAdjustments = ModeAdjustments & {
+  beat?: BeatReactionSettings;
+  postEffects?: PostEffectSettings[];
+  background?: Partial<BackgroundSettings>;
+};
+
+// タイムラインに表示する波形の区間数
+const WAVEFORM_PEAK_COUNT = 2000;
+// プレイリストのつなぎ方を変えてからつなぎ直すまでの待ち時間（ミリ秒、スライダーの操作中に何度もつながない）
+const PLAYLIST_MIX_DELAY = 300;
 
 const hasWindow = () => {
   return typeof window === "object";
@@ -59,14 +136,28 @@ const Home: NextPage = () => {
   const [isPlaySound, setIsPlaySound] = useState<boolean>(false);
   const [playSoundDisabled, setPlaySoundDisabled] = useState<boolean>(true);
   const [recordMovieDisabled, setRecordMovieDisabled] = useState<boolean>(true);
-  const [imageFileName, setImageFileName] = useState<string>("");
   const [audioFileName, setAudioFileName] = useState<string>("");
+  // テキストレイヤーの差し込みに使う曲の情報（曲を読み込むまではnull）
+  const [trackInfo, setTrackInfo] = useState<TrackInfo | null>(null);
+  // 再生・録画・書き出しの範囲とフェード（曲を読み込むまではnull）と、表示用の波形
+  const [timeline, setTimeline] = useState<TimelineSettings | null>(null);
+  const [waveformPeaks, setWaveformPeaks] = useState<Float32Array | null>(null);
+  // プレイリストの曲（再生順）とつなぎ方、つないだ音声の曲ごとの区間（2曲以上の場合）
+  const [playlist, setPlaylist] = useState<PlaylistTrack[]>([]);
+  const [playlistSettings, setPlaylistSettings] = useState<PlaylistSettings>(DEFAULT_PLAYLIST_SETTINGS);
+  const [chapters, setChapters] = useState<PlaylistChapter[]>([]);
+  // 歌詞レイヤーに表示する歌詞（読み込むまではnull）
+  const [lyrics, setLyrics] = useState<{ cues: LyricCue[]; fileName: string } | null>(null);
   const [fps, setFps] = useState<number>(0);
+  const [tempo, setTempo] = useState<number | null>(null);
   const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportProgress, setExportProgress] = useState<number>(0);
+  const [hasDecodedAudio, setHasDecodedAudio] = useState<boolean>(false);
 
   // GPU関連State
   const [gpuInfo, setGpuInfo] = useState<GpuInfo | null>(null);
-  const [rendererType, setRendererType] = useState<'canvas2d' | 'webgl'>('canvas2d');
+  const [rendererType, setRendererType] = useState<RendererType>('canvas2d');
   const [webCodecsSupported, setWebCodecsSupported] = useState<boolean>(false);
   const [hardwareEncoderSupport, setHardwareEncoderSupport] = useState<{
     h264: boolean;
@@ -78,31 +169,63 @@ const Home: NextPage = () => {
   // Audio State
   const audioCtxRef = useRef<AudioContext>(null);
   const streamDestinationRef = useRef<MediaStreamAudioDestinationNode>(null);
-  const analyserRef = useRef<AnalyserNode>(null);
+  const analyserGraphRef = useRef<AnalyserGraph>(null);
   useEffect(() => {
     // AudioContext
     audioCtxRef.current = new AudioContext();
 
-    // AnalyserNode
-    const analyserNode = audioCtxRef.current.createAnalyser();
-    analyserNode.fftSize = 2048;
-    analyserRef.current = analyserNode;
+    // AnalyserNode（表示用・ビート検出用・チャンネル別）
+    analyserGraphRef.current = createAnalyserGraph(audioCtxRef.current);
 
     // MediaStreamAudioDestinationNode(動画出力用)
     const steamDest = audioCtxRef.current.createMediaStreamDestination();
     streamDestinationRef.current = steamDest;
   }, []);
   const audioBufferSrcRef = useRef<AudioBufferSourceNode>(null);
+  // 音源と解析ノードの間に入れるフェード用のGainNode
+  const fadeGainRef = useRef<GainNode>(null);
   const decodedAudioBufferRef = useRef<AudioBuffer>(null);
   const videoElementRef = useRef<HTMLVideoElement>(null);
+  // AudioBufferSourceNodeの再生を開始したAudioContextの時刻（停止中はnull）
+  const playbackStartRef = useRef<number | null>(null);
+  // 停止中の再生位置（秒、一時停止した位置・シークした位置。動画ファイルの音声は動画要素が保持する）
+  const pausedTimeRef = useRef<number>(0);
+  // 音声の再生位置（秒）
+  const getPlaybackTime = (): number => {
+    if (videoElementRef.current) {
+      return videoElementRef.current.currentTime;
+    }
+    if (playbackStartRef.current === null) {
+      return pausedTimeRef.current;
+    }
+    return audioCtxRef.current.currentTime - playbackStartRef.current;
+  };
+  // 停止中の再生位置を変更
+  const setPausedTime = (time: number) => {
+    if (videoElementRef.current) {
+      videoElementRef.current.currentTime = time;
+      return;
+    }
+    pausedTimeRef.current = time;
+  };
+  // 音声を再生中か
+  const isPlaying = (): boolean => {
+    if (videoElementRef.current) {
+      return !videoElementRef.current.paused;
+    }
+    return playbackStartRef.current !== null;
+  };
+  // 動画ファイルの音声で範囲の終わりを待つタイマー
+  const regionTimerRef = useRef<number | null>(null);
+  // 録画中の場合、範囲の終わりで録画を終了する処理
+  const recordingStopRef = useRef<(() => void) | null>(null);
   const setAudioBufferSourceNode = () => {
-    // 動画ファイルの場合はMediaElementAudioSourceNodeを使用（既に接続済み）
+    // 動画ファイルの場合はMediaElementAudioSourceNodeを使用（既に接続済み、再生位置はstartPlaybackで指定）
     if (videoElementRef.current) {
       const video = videoElementRef.current;
       if (!video.paused) {
         video.pause();
       }
-      video.currentTime = 0;
       return;
     }
     
@@ -111,17 +234,22 @@ const Home: NextPage = () => {
       return;
     }
     
-    // AudioBufferSourceNode作成
+    // AudioBufferSourceNode作成（一度しか開始できないため、再生・シークのたびに作り直す）
     const audioBufferSourceNode = audioCtxRef.current.createBufferSource();
     audioBufferSourceNode.buffer = decodedAudioBufferRef.current;
     audioBufferSourceNode.loop = false;
+    // フェード用のGainNodeは再生ごとに作り直す（前の再生のものは切断）
+    fadeGainRef.current?.disconnect();
+    const fadeGain = audioCtxRef.current.createGain();
     // Node接続
-    audioBufferSourceNode.connect(analyserRef.current);
-    analyserRef.current.connect(audioCtxRef.current.destination);
-    analyserRef.current.connect(streamDestinationRef.current);
-    audioBufferSourceNode.connect(audioCtxRef.current.destination);
-    audioBufferSourceNode.connect(streamDestinationRef.current);
+    audioBufferSourceNode.connect(fadeGain);
+    fadeGain.connect(analyserGraphRef.current.input);
+    analyserGraphRef.current.analyser.connect(audioCtxRef.current.destination);
+    analyserGraphRef.current.analyser.connect(streamDestinationRef.current);
+    fadeGain.connect(audioCtxRef.current.destination);
+    fadeGain.connect(streamDestinationRef.current);
     audioBufferSrcRef.current = audioBufferSourceNode;
+    fadeGainRef.current = fadeGain;
   };
 
   // 開発者モードフラグ（環境変数で制御）
@@ -129,51 +257,77 @@ const Home: NextPage = () => {
     process.env.NEXT_PUBLIC_DEVELOPER_MODE === "true" ||
     process.env.NEXT_PUBLIC_DEV_MODE === "true";
 
-  // Mode
-  const [mode, setMode] = useState(0);
-  
   // Canvas Size
   type CanvasSize = "1920x1080" | "1080x1920" | "1920x1920";
+  const canvasSizes: CanvasSize[] = ["1920x1080", "1080x1920", "1920x1920"];
   const [canvasSize, setCanvasSize] = useState<CanvasSize>("1920x1080");
-  
-  // Mode adjustment parameters
-  // offsetX, offsetYはパーセンテージ（-150%〜150%）
-  type ModeAdjustments = {
-    scaleX: number;
-    scaleY: number;
-    offsetX: number; // パーセンテージ（-150〜150）
-    offsetY: number; // パーセンテージ（-150〜150）
+
+  // シーン（レイヤーの重ね合わせ）と設定を編集中のレイヤー
+  const [scene, setScene] = useState<Scene>(createDefaultScene);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>("spectrum");
+  const selectedLayer = scene.layers.find((layer) => layer.id === selectedLayerId) ?? null;
+
+  // 設定の保存キー生成（シーンは解像度ごとに保存する）
+  const getSettingsKey = (size: CanvasSize) => {
+    return `sceneSettings_${size}`;
   };
-  const [modeAdjustments, setModeAdjustments] = useState<ModeAdjustments>({
-    scaleX: 1.0,
-    scaleY: 1.0,
-    offsetX: 0, // パーセンテージ
-    offsetY: 0, // パーセンテージ
-  });
 
-  // 設定の保存キー生成
-  const getSettingsKey = (mode: number, size: CanvasSize) => {
+  // 以前の形式（モード・解像度ごとの表示調整）の保存キー
+  const getLegacySettingsKey = (mode: number, size: CanvasSize) => {
     return `spectrumSettings_${mode}_${size}`;
   };
 
   // 設定を保存
-  const saveSettings = (mode: number, size: CanvasSize, adjustments: ModeAdjustments) => {
+  const saveSettings = (size: CanvasSize, scene: Scene) => {
     try {
-      const key = getSettingsKey(mode, size);
-      localStorage.setItem(key, JSON.stringify(adjustments));
+      const key = getSettingsKey(size);
+      localStorage.setItem(key, JSON.stringify(scene));
     } catch (error) {
       console.error("設定の保存に失敗しました:", error);
     }
   };
 
+  // 以前の形式の設定（モードごとの表示調整）を既定のシーンに移す
+  // 以前のページはモード0で始まるためモード0の設定を優先し、ない場合は保存されている最初のモードの設定とモードを引き継ぐ
+  const migrateLegacySettings = (size: CanvasSize): Scene | null => {
+    let legacy: { mode: number; saved: string } | null = null;
+    for (const { id } of getVisualizerModes()) {
+      const saved = localStorage.getItem(getLegacySettingsKey(id, size));
+      if (saved) {
+        legacy = { mode: id, saved };
+        break;
+      }
+    }
+    if (!legacy) {
+      return null;
+    }
+    const { mode } = legacy;
+    const { beat, postEffects, background, ...adjustments } = JSON.parse(legacy.saved) as LegacyModeAdjustments;
+    const defaultScene = createDefaultScene();
+    return {
+      layers: defaultScene.layers.map((layer) => {
+        if (layer.type === "spectrum") {
+          // モード固有パラメータのない項目は以前の見た目（線形の周波数スケール等）にする
+          const legacyParams = getVisualizerMode(mode)?.legacyParams;
+          return { ...layer, mode, adjustments: { ...adjustments, params: { ...legacyParams, ...adjustments.params } } };
+        }
+        return isMediaLayer(layer) ? { ...layer, background } : layer;
+      }),
+      backgroundColor: background?.color ?? defaultScene.backgroundColor,
+      beat,
+      postEffects,
+    };
+  };
+
   // 設定を読み込み
-  const loadSettings = (mode: number, size: CanvasSize): ModeAdjustments | null => {
+  const loadSettings = (size: CanvasSize): Scene | null => {
     try {
-      const key = getSettingsKey(mode, size);
+      const key = getSettingsKey(size);
       const saved = localStorage.getItem(key);
       if (saved) {
-        return JSON.parse(saved);
+        return resolveScene(JSON.parse(saved));
       }
+      return migrateLegacySettings(size);
     } catch (error) {
       console.error("設定の読み込みに失敗しました:", error);
     }
@@ -182,18 +336,14 @@ const Home: NextPage = () => {
 
   // すべての設定をエクスポート
   const exportAllSettings = (): string => {
-    const allSettings: Record<string, ModeAdjustments> = {};
-    const modes = [0, 1, 2, 3, 4, 5, 6];
-    const sizes: CanvasSize[] = ["1920x1080", "1080x1920", "1920x1920"];
-
-    modes.forEach((m) => {
-      sizes.forEach((s) => {
-        const key = getSettingsKey(m, s);
-        const saved = localStorage.getItem(key);
-        if (saved) {
-          allSettings[key] = JSON.parse(saved);
-        }
-      });
+    const allSettings: Record<string, Scene> = {};
+
+    canvasSizes.forEach((s) => {
+      const key = getSettingsKey(s);
+      const saved = localStorage.getItem(key);
+      if (saved) {
+        allSettings[key] = JSON.parse(saved);
+      }
     });
 
     return JSON.stringify(allSettings, null, 2);
@@ -213,39 +363,92 @@ const Home: NextPage = () => {
     }
   };
 
-  const handleAdjustmentChange = (key: keyof ModeAdjustments, value: number) => {
-    setModeAdjustments((prev) => {
-      const newAdjustments = {
-        ...prev,
-        [key]: value,
-      };
+  // シーンの変更
+  const updateScene = (update: (prev: Scene) => Scene) => {
+    setScene((prev) => {
+      const newScene = update(prev);
       // 設定を自動保存
-      saveSettings(mode, canvasSize, newAdjustments);
-      return newAdjustments;
+      saveSettings(canvasSize, newScene);
+      return newScene;
     });
   };
 
-  const onChangeMode = (event: SelectChangeEvent<string>) => {
-    const newMode = Number(event.target.value);
-    // 現在の設定を保存してからモードを変更
-    saveSettings(mode, canvasSize, modeAdjustments);
-    setMode(newMode);
-    // 新しいモードの設定を読み込み
-    const loaded = loadSettings(newMode, canvasSize);
-    if (loaded) {
-      setModeAdjustments(loaded);
+  // レイヤーの設定の変更
+  const handleLayerChange = (layer: SceneLayer) => {
+    updateScene((prev) => ({
+      ...prev,
+      layers: prev.layers.map((current) => (current.id === layer.id ? layer : current)),
+    }));
+  };
+
+  // レイヤーの追加・並べ替え・削除・表示切り替え
+  const handleLayersChange = (layers: SceneLayer[]) => {
+    updateScene((prev) => ({ ...prev, layers }));
+    // 削除したレイヤーの素材を解放
+    const ids = new Set(layers.map((layer) => layer.id));
+    const removed = scene.layers.filter((layer) => !ids.has(layer.id) && sceneMedia[layer.id]);
+    if (removed.length > 0) {
+      removed.forEach((layer) => sceneMedia[layer.id].dispose());
+      setSceneMedia((prev) => {
+        const next = { ...prev };
+        removed.forEach((layer) => delete next[layer.id]);
+        return next;
+      });
     }
   };
 
+  // 背景色の変更
+  const handleSceneParamChange = (key: string, value: ModeParamValue) => {
+    updateScene((prev) => ({ ...prev, [key]: value }));
+  };
+
+  // ビート反応の変更
+  const handleBeatChange = (key: string, value: ModeParamValue) => {
+    updateScene((prev) => ({
+      ...prev,
+      beat: {
+        ...DEFAULT_BEAT_REACTIONS,
+        ...prev.beat,
+        [key]: value,
+      },
+    }));
+  };
+
+  // ポストエフェクトの変更
+  const handlePostEffectsChange = (postEffects: PostEffectSettings[]) => {
+    updateScene((prev) => ({ ...prev, postEffects }));
+  };
+
+  // モードボタンの対象（選択中のスペクトラムレイヤー、選択していない場合は一番手前のスペクトラムレイヤー）
+  const modeTargetLayer = selectedLayer?.type === "spectrum"
+    ? selectedLayer
+    : [...scene.layers].reverse().find((layer): layer is SpectrumLayer => layer.type === "spectrum");
+
+  const onChangeMode = (newMode: number) => {
+    // スペクトラムレイヤーがない場合は追加する
+    if (!modeTargetLayer) {
+      const layer: SpectrumLayer = { ...(createSceneLayer("spectrum") as SpectrumLayer), mode: newMode };
+      updateScene((prev) => ({ ...prev, layers: [...prev.layers, layer] }));
+      setSelectedLayerId(layer.id);
+      return;
+    }
+    // モード固有パラメータはモードごとに異なるため既定値に戻す
+    handleLayerChange({
+      ...modeTargetLayer,
+      mode: newMode,
+      adjustments: { ...modeTargetLayer.adjustments, params: undefined },
+    });
+  };
+
   const onChangeCanvasSize = (event: SelectChangeEvent<string>) => {
     const newSize = event.target.value as CanvasSize;
     // 現在の設定を保存してからサイズを変更
-    saveSettings(mode, canvasSize, modeAdjustments);
+    saveSettings(canvasSize, scene);
     setCanvasSize(newSize);
-    // 新しいサイズの設定を読み込み
-    const loaded = loadSettings(mode, newSize);
+    // 新しいサイズの設定を読み込み（保存がない場合は現在のシーンを引き継ぐ）
+    const loaded = loadSettings(newSize);
     if (loaded) {
-      setModeAdjustments(loaded);
+      setScene(loaded);
     }
   };
 
@@ -264,15 +467,18 @@ const Home: NextPage = () => {
 
   // Canvas
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const reqIdRef = useRef<number>(null);
-  // Canvas用ImageContext
-  const [imageCtx, setImageCtx] = useState<HTMLImageElement>(null);
+  const rendererRef = useRef<SpectrumRenderer>(null);
+  // メディアレイヤーの素材（静止画・アニメーション画像・動画、キーはレイヤーのid）とファイル名
+  const [sceneMedia, setSceneMedia] = useState<SceneMedia>({});
+  const [mediaFileNames, setMediaFileNames] = useState<Record<string, string>>({});
+  // 音楽ファイルのカバー画像から自動で設定した素材（ユーザーが読み込んだ素材と区別する）
+  const coverMediaRef = useRef<BackgroundMedia>(null);
 
   // 初期設定の読み込み
   useEffect(() => {
-    const loaded = loadSettings(mode, canvasSize);
+    const loaded = loadSettings(canvasSize);
     if (loaded) {
-      setModeAdjustments(loaded);
+      setScene(loaded);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -300,72 +506,113 @@ const Home: NextPage = () => {
     initGpu();
   }, []);
 
-  // Canvas サイズ設定（canvasSize または rendererType が変更されたときに実行）
-  // useLayoutEffectを使用してDOM更新直後にサイズを設定
-  useLayoutEffect(() => {
-    if (!canvasRef.current) {
-      return;
+  // 描画ループから毎フレーム参照する最新のパラメータ
+  // 停止中にシークした位置のスペクトラムを表示するための解析（デコード済みの音声から計算する）
+  const pausedAnalysisRef = useRef<{
+    audioBuffer: AudioBuffer;
+    channels: Float32Array[];
+    analyser: SpectrumAnalyser;
+    pcmWindow: Float32Array;
+  } | null>(null);
+  // 停止中の再生位置までのPCMから求めたスペクトラム（動画ファイルの音声などデコード済みの音声がない場合はnull）
+  const getPausedSpectrum = (time: number): SpectrumAnalyser | null => {
+    const audioBuffer = decodedAudioBufferRef.current;
+    if (!audioBuffer || videoElementRef.current) {
+      return null;
     }
+    if (pausedAnalysisRef.current?.audioBuffer !== audioBuffer) {
+      const analyser = new SpectrumAnalyser({ fftSize: 2048 });
+      pausedAnalysisRef.current = {
+        audioBuffer,
+        channels: getChannels(audioBuffer),
+        analyser,
+        pcmWindow: new Float32Array(analyser.fftSize),
+      };
+    }
+    const { channels, analyser, pcmWindow } = pausedAnalysisRef.current;
+    getMonoWindow(channels, Math.round(time * audioBuffer.sampleRate), analyser.fftSize, pcmWindow);
+    analyser.process(pcmWindow);
+    return analyser;
+  };
 
-    const dimensions = getCanvasDimensions(canvasSize);
-    canvasRef.current.width = dimensions.width;
-    canvasRef.current.height = dimensions.height;
-
-    // キャンバスサイズ変更時に画像キャッシュをクリア（両方のレンダラー）
-    clearImageCache();
-    clearWebGLImageCache();
-  }, [canvasSize, rendererType]);
+  const frameParamsRef = useRef({ scene, media: sceneMedia, track: trackInfo, lyrics: lyrics?.cues ?? null, timeline, chapters });
+  frameParamsRef.current = { scene, media: sceneMedia, track: trackInfo, lyrics: lyrics?.cues ?? null, timeline, chapters };
 
-  // Canvas Animation
+  // レンダラーの作成と描画ループ（rendererTypeが変更されたときに作り直す）
+  // canvasはkey={rendererType}で作り直されるため、別のコンテキストを取得できる
   useEffect(() => {
     if (!canvasRef.current) {
       return;
     }
 
-    // 前のアニメーションを停止
-    stopCanvas2DAnimation();
-    stopWebGLAnimation();
-
-    // レンダラータイプに応じて描画関数を選択
-    if (rendererType === 'webgl') {
-      // WebGLレンダラーは内部でrequestAnimationFrameを再帰呼び出しするため、一度呼び出すだけでOK
-      drawBarsWebGL(
-        canvasRef.current,
-        imageCtx,
-        mode,
-        analyserRef.current,
-        modeAdjustments
-      );
-    } else {
-      // Canvas 2Dレンダラーも内部でrequestAnimationFrameを再帰呼び出しする
-      drawBars(
-        canvasRef.current,
-        imageCtx,
-        mode,
-        analyserRef.current,
-        modeAdjustments
-      );
+    const renderer = createSpectrumRenderer(rendererType);
+    if (!renderer.init(canvasRef.current)) {
+      if (rendererType === 'canvas2d') {
+        openSnackBar("Canvasの初期化に失敗しました");
+        return;
+      }
+      openSnackBar("WebGLの初期化に失敗したため、Canvas 2Dに切り替えます");
+      setRendererType('canvas2d');
+      return;
     }
+    const dimensions = getCanvasDimensions(canvasSize);
+    renderer.resize(dimensions.width, dimensions.height);
+    rendererRef.current = renderer;
+
+    const stopLoop = startRenderLoop(renderer, () => {
+      const params = frameParamsRef.current;
+      const time = performance.now() / 1000;
+      const playbackTime = getPlaybackTime();
+      const playing = isPlaying();
+      // 停止中はシークした位置のスペクトラムを表示する（チャンネル別の解析は行わない）
+      const pausedSpectrum = playing ? null : getPausedSpectrum(playbackTime);
+      // プレイリストでは再生中の曲の背景と曲の情報に切り替える
+      const chapter = findChapter(params.chapters, playbackTime);
+      return {
+        scene: params.scene,
+        // ループ再生のレイヤーは音声と無関係に進め、同期のレイヤーは音声の再生位置のフレームを表示する
+        layerImages: getLayerImages(params.scene, getChapterMedia(params.scene, params.media, chapter), playbackTime, time),
+        source: pausedSpectrum ?? analyserGraphRef.current.analyser,
+        beatSource: pausedSpectrum ?? analyserGraphRef.current.beatAnalyser,
+        stereo: pausedSpectrum ? null : analyserGraphRef.current.stereo,
+        sampleRate: audioCtxRef.current.sampleRate,
+        time,
+        playbackTime,
+        track: chapter?.info ?? params.track,
+        lyrics: params.lyrics,
+        // 再生中だけ範囲のフェードに合わせて黒へフェードする（停止中は範囲外でも表示する）
+        fade: params.timeline && playing ? 1 - getFadeGain(params.timeline, playbackTime) : 0,
+      };
+    });
 
     return () => {
-      // クリーンアップ：アニメーションを停止
-      stopCanvas2DAnimation();
-      stopWebGLAnimation();
+      stopLoop();
+      renderer.dispose();
+      rendererRef.current = null;
     };
-  }, [imageCtx, mode, modeAdjustments, rendererType]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rendererType]);
+
+  // Canvas サイズ設定（canvasSize が変更されたときに実行）
+  // useLayoutEffectを使用してDOM更新直後にサイズを設定
+  useLayoutEffect(() => {
+    if (!rendererRef.current) {
+      return;
+    }
+
+    const dimensions = getCanvasDimensions(canvasSize);
+    rendererRef.current.resize(dimensions.width, dimensions.height);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canvasSize]);
 
   // FPS表示更新（1秒ごとに更新）
   useEffect(() => {
     const fpsInterval = setInterval(() => {
-      // レンダラータイプに応じてFPSを取得
-      if (rendererType === 'webgl') {
-        setFps(getFPSWebGL());
-      } else {
-        setFps(getFPS());
-      }
+      setFps(rendererRef.current ? rendererRef.current.getFPS() : 0);
+      setTempo(rendererRef.current ? rendererRef.current.getTempo() : null);
     }, 1000);
     return () => clearInterval(fpsInterval);
-  }, [rendererType]);
+  }, []);
 
   // ファイル拡張子判定ヘルパー
   const isImageFile = (filename: string): boolean => {
@@ -386,15 +633,100 @@ const Home: NextPage = () => {
     return videoExts.includes(ext);
   };
 
-  // 画像読み込み処理（共通）
-  const loadImageFile = (file: File) => {
+  const isFontFile = (filename: string): boolean => {
+    const fontExts = [".ttf", ".otf", ".woff", ".woff2"];
+    const ext = filename.toLowerCase().substring(filename.lastIndexOf("."));
+    return fontExts.includes(ext);
+  };
+
+  // 画像ボタン・ドロップの読み込み先（選択中のメディアレイヤー、選択していない場合は一番下の画像・動画レイヤー）
+  const imageTargetLayer = selectedLayer && isMediaLayer(selectedLayer)
+    ? selectedLayer
+    : scene.layers.find((layer): layer is MediaLayer => layer.type === "image" || layer.type === "video");
+
+  // 読み込み先のレイヤーのid（画像・動画レイヤーがない場合は一番下に追加する）
+  const getImageTargetLayerId = (): string => {
+    if (imageTargetLayer) {
+      return imageTargetLayer.id;
+    }
+    const layer: SceneLayer = { ...createSceneLayer("image"), name: "背景" };
+    updateScene((prev) => ({ ...prev, layers: [layer, ...prev.layers] }));
+    return layer.id;
+  };
+
+  // レイヤーの素材を差し替え（前の素材の動画やデコード済みのフレームは解放する）
+  const replaceLayerMedia = (layerId: string, media: BackgroundMedia, fileName: string) => {
+    frameParamsRef.current.media[layerId]?.dispose();
+    setSceneMedia((prev) => ({ ...prev, [layerId]: media }));
+    setMediaFileNames((prev) => ({ ...prev, [layerId]: fileName }));
+  };
+
+  // レイヤーの素材を外す
+  const removeLayerMedia = (layerId: string) => {
+    frameParamsRef.current.media[layerId]?.dispose();
+    setSceneMedia(({ [layerId]: _, ...rest }) => rest);
+    setMediaFileNames(({ [layerId]: _, ...rest }) => rest);
+  };
+
+  // 埋め込まれたカバー画像を背景にする
+  // ユーザーが画像・動画を読み込んでいる場合は何もせず、前の曲のカバー画像は差し替える（カバー画像がない曲では外す）
+  const applyCoverArt = (cover: Blob | undefined) => {
+    const entries = Object.entries(frameParamsRef.current.media);
+    if (entries.some(([, media]) => media !== coverMediaRef.current)) {
+      return;
+    }
+    const previousLayerId = entries.find(([, media]) => media === coverMediaRef.current)?.[0];
+    if (!cover) {
+      if (previousLayerId) {
+        removeLayerMedia(previousLayerId);
+      }
+      coverMediaRef.current = null;
+      return;
+    }
+    // 前のカバー画像と同じレイヤー、なければ一番下の画像・動画レイヤー（ない場合は追加）に読み込む
+    let layerId = previousLayerId ?? scene.layers.find((layer) => layer.type === "image" || layer.type === "video")?.id;
+    if (!layerId) {
+      const layer: SceneLayer = { ...createSceneLayer("image"), name: "背景" };
+      updateScene((prev) => ({ ...prev, layers: [layer, ...prev.layers] }));
+      layerId = layer.id;
+    }
+    const image = new Image();
+    image.onload = () => {
+      const media = new StillMedia(image);
+      coverMediaRef.current = media;
+      replaceLayerMedia(layerId, media, "カバー画像");
+    };
+    image.onerror = (e) => {
+      console.error("カバー画像の読み込みに失敗しました:", e);
+    };
+    image.src = URL.createObjectURL(cover);
+  };
+
+  // 読み込んだ素材をレイヤーに設定
+  const toLayer = (layerId: string) => (media: BackgroundMedia, fileName: string) =>
+    replaceLayerMedia(layerId, media, fileName);
+
+  // 画像読み込み処理（共通、読み込んだ素材はapplyに渡す）
+  const loadImageFile = async (file: File, apply: (media: BackgroundMedia, fileName: string) => void) => {
+    // アニメーション画像（GIF・WebP・APNG）はフレームごとにデコードする
+    try {
+      const animated = await decodeAnimatedImage(file);
+      if (animated) {
+        apply(animated, file.name);
+        openSnackBar("アニメーション画像を読み込みました");
+        return;
+      }
+    } catch (error) {
+      // 静止画として読み込む
+      console.error("アニメーション画像のデコードに失敗しました:", error);
+    }
+
     const image = new Image();
     image.onload = () => {
       if (!canvasRef.current) {
         return;
       }
-      setImageCtx(image);
-      setImageFileName(file.name);
+      apply(new StillMedia(image), file.name);
       openSnackBar("画像を読み込みました");
     };
     image.onerror = (e) => {
@@ -404,94 +736,310 @@ const Home: NextPage = () => {
     image.src = URL.createObjectURL(file);
   };
 
+  // 動画を背景の素材として読み込み
+  const loadVideoBackground = async (file: File, apply: (media: BackgroundMedia, fileName: string) => void) => {
+    try {
+      apply(await loadVideoMedia(file), file.name);
+      openSnackBar("動画を背景として読み込みました");
+    } catch (error) {
+      console.error("動画の読み込みに失敗しました:", error);
+      openSnackBar("動画の読み込みに失敗しました");
+    }
+  };
+
+  // 曲の情報（タグがない場合、曲名は拡張子を除いたファイル名）
+  const createTrackInfo = (file: File, duration: number, metadata: AudioMetadata = {}): TrackInfo => {
+    return {
+      title: metadata.title ?? file.name.replace(/\.[^.]+$/, ""),
+      artist: metadata.artist ?? "",
+      album: metadata.album ?? "",
+      duration,
+    };
+  };
+
+  // 書き出すファイル名（曲の情報がある場合は「アーティスト - 曲名」）
+  const getOutputFileName = (ext: string): string => {
+    const name = trackInfo ? [trackInfo.artist, trackInfo.title].filter(Boolean).join(" - ") : "";
+    // ファイル名に使えない文字を置き換える
+    const safeName = name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_").trim();
+    return (safeName || "movie_" + Math.random().toString(36).slice(-8)) + ext;
+  };
+
+  // 曲名・アーティストの編集
+  // 1曲だけの場合はプレイリストの曲にも反映する（曲を追加したときに編集が残るように）
+  const handleTrackInfoChange = (changes: Partial<TrackInfo>) => {
+    setTrackInfo((prev) => (prev ? { ...prev, ...changes } : prev));
+    if (playlist.length === 1) {
+      setPlaylist(([track]) => [{ ...track, info: { ...track.info, ...changes } }]);
+    }
+  };
+
+  // フォントファイルを読み込んでテキストレイヤーに設定
+  const loadFont = async (file: File, layer: TextLayer | LyricsLayer) => {
+    try {
+      const fontFamily = await loadFontFile(file);
+      // 読み込み中に変更された他の項目を残すため、フォントだけを更新する
+      updateScene((prev) => ({
+        ...prev,
+        layers: prev.layers.map((current) => (current.id === layer.id ? { ...current, fontFamily } : current)),
+      }));
+      openSnackBar(`フォント「${fontFamily}」を読み込みました`);
+    } catch (error) {
+      console.error("フォントの読み込みに失敗しました:", error);
+      openSnackBar("フォントの読み込みに失敗しました");
+    }
+  };
+
+  // 歌詞ファイルを読み込み（歌詞レイヤーがない場合は一番上に追加する）
+  const loadLyricsFile = async (file: File) => {
+    const format = getLyricsFormat(file.name);
+    if (!format) {
+      openSnackBar("歌詞ファイル（LRC・SRT・WebVTT）を選択してください");
+      return;
+    }
+    try {
+      const cues = parseLyrics(format, await file.text());
+      if (cues.length === 0) {
+        openSnackBar("歌詞ファイルに表示する行がありません");
+        return;
+      }
+      setLyrics({ cues, fileName: file.name });
+      if (!scene.layers.some((layer) => layer.type === "lyrics")) {
+        const layer = createSceneLayer("lyrics");
+        updateScene((prev) => ({ ...prev, layers: [...prev.layers, layer] }));
+        setSelectedLayerId(layer.id);
+      }
+      openSnackBar(`歌詞を読み込みました（${cues.length}行）`);
+    } catch (error) {
+      console.error("歌詞の読み込みに失敗しました:", error);
+      openSnackBar("歌詞の読み込みに失敗しました");
+    }
+  };
+
+  // 音楽ファイルをデコードしてプレイリストの曲にする（埋め込まれたカバー画像も返す）
+  const decodeTrack = async (file: File): Promise<{ track: PlaylistTrack; cover?: Blob }> => {
+    const arraybuffer = await file.arrayBuffer();
+    // decodeAudioDataでバッファが切り離されるため、タグは先に読む
+    const metadata = parseAudioMetadata(arraybuffer);
+    const audioBuffer = await audioCtxRef.current.decodeAudioData(arraybuffer);
+    return {
+      track: createPlaylistTrack(file.name, audioBuffer, createTrackInfo(file, audioBuffer.duration, metadata)),
+      cover: metadata.cover,
+    };
+  };
+
   // 音楽読み込み処理（共通）
-  const loadAudioFile = async (file: File) => {
+  // 複数のファイルはプレイリストにしてつなぐ。appendの場合は今のプレイリストの後ろに追加する
+  const loadAudioFiles = async (files: File[], append = false) => {
     try {
-      const arraybuffer = await file.arrayBuffer();
-      decodedAudioBufferRef.current = await audioCtxRef.current.decodeAudioData(
-        arraybuffer
-      );
+      // デコード中のメモリを抑えるため1曲ずつ読み込む
+      const decoded: { track: PlaylistTrack; cover?: Blob }[] = [];
+      for (const file of files) {
+        decoded.push(await decodeTrack(file));
+      }
+      // 動画ファイルの音声を読み込んでいた場合は切り替える
+      if (videoElementRef.current) {
+        stopPlayback();
+        videoElementRef.current = null;
+      }
+      const tracks = decoded.map(({ track }) => track);
+      if (append) {
+        setPlaylist((prev) => [...prev, ...tracks]);
+      } else {
+        setPlaylist(tracks);
+        applyCoverArt(decoded[0]?.cover);
+      }
+      openSnackBar(files.length > 1 ? `${files.length}曲を読み込みました` : "音楽を読み込みました");
+    } catch (error) {
+      openSnackBar("音楽の読み込みに失敗しました: " + error);
+    }
+  };
+
+  // 書き出す動画のチャプター（プレイリストの曲と区間の目印。録画も範囲の開始から始まるため範囲の先頭からの時刻）
+  const outputChapters = timeline && trackInfo
+    ? getOutputChapters(chapters, timeline.markers, timeline.start, timeline.end, trackInfo.title)
+    : [];
+
+  // プレイリストの曲をつないで再生・書き出しの音声にする（1曲の場合はそのまま使う）
+  const applyPlaylistMix = (tracks: PlaylistTrack[], settings: PlaylistSettings) => {
+    // 前の音声の再生を止めて先頭に戻す
+    stopPlayback();
+    setIsPlaySound(false);
+    pausedTimeRef.current = 0;
+    try {
+      const mixed = tracks.length > 1
+        ? mixPlaylist(tracks, settings)
+        : { audioBuffer: tracks[0].audioBuffer, chapters: [] };
+      const { duration } = mixed.audioBuffer;
+      decodedAudioBufferRef.current = mixed.audioBuffer;
       setPlaySoundDisabled(false);
       setRecordMovieDisabled(false);
-      setAudioFileName(file.name);
-      openSnackBar("音楽を読み込みました");
+      setHasDecodedAudio(true);
+      setAudioFileName(tracks.length > 1 ? `${tracks.length}曲のプレイリスト` : tracks[0].fileName);
+      setTrackInfo(tracks.length > 1 ? createPlaylistInfo(tracks, duration) : tracks[0].info);
+      setTimeline(createTimeline(duration));
+      setWaveformPeaks(computeWaveformPeaks(mixed.audioBuffer, WAVEFORM_PEAK_COUNT));
+      setChapters(mixed.chapters);
     } catch (error) {
-      openSnackBar("音楽の読み込みに失敗しました: " + error);
+      openSnackBar("曲をつなげませんでした: " + error);
     }
   };
 
+  // つなぎ直すまでの待ち時間に編集した曲名・背景も反映するため、タイマーからは最新の曲を読む
+  const playlistRef = useRef(playlist);
+  playlistRef.current = playlist;
+
+  // 曲の並び・つなぎ方が変わったらつなぎ直す（曲名・背景の編集ではつなぎ直さない）
+  const playlistMixKey = [
+    playlistSettings.transition,
+    playlistSettings.transitionDuration,
+    ...playlist.map((track) => track.id),
+  ].join(",");
+  useEffect(() => {
+    if (playlist.length === 0) {
+      return;
+    }
+    const timer = setTimeout(() => applyPlaylistMix(playlistRef.current, playlistSettings), PLAYLIST_MIX_DELAY);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [playlistMixKey]);
+
+  // プレイリストの曲から外れた背景（差し替え・削除した背景、外した曲の背景）を解放する
+  const playlistBackgroundsRef = useRef<BackgroundMedia[]>([]);
+  useEffect(() => {
+    const backgrounds = playlist.flatMap((track) => (track.background ? [track.background] : []));
+    playlistBackgroundsRef.current
+      .filter((media) => !backgrounds.includes(media))
+      .forEach((media) => media.dispose());
+    playlistBackgroundsRef.current = backgrounds;
+  }, [playlist]);
+
+  // 曲の編集（曲名・背景）をチャプターに反映する（曲の区間は変わらないため、つなぎ直さない）
+  useEffect(() => {
+    setChapters((prev) => {
+      if (prev.length === 0) {
+        return prev;
+      }
+      return prev.map((chapter) => {
+        const track = playlist.find((current) => current.id === chapter.trackId);
+        return track ? updateChapterTrack(chapter, track) : chapter;
+      });
+    });
+  }, [playlist]);
+
+  // プレイリストの並べ替え・削除
+  const handlePlaylistChange = (tracks: PlaylistTrack[]) => {
+    setPlaylist(tracks);
+    if (tracks.length === 0) {
+      stopPlayback();
+      setIsPlaySound(false);
+      decodedAudioBufferRef.current = null;
+      setPlaySoundDisabled(true);
+      setRecordMovieDisabled(true);
+      setHasDecodedAudio(false);
+      setAudioFileName("");
+      setTrackInfo(null);
+      setTimeline(null);
+      setWaveformPeaks(null);
+      setChapters([]);
+    }
+  };
+
+  // プレイリストの曲を編集
+  // 背景の読み込みの完了など非同期に呼ばれるため、最新のプレイリストに対して曲のidで反映する
+  const updatePlaylistTrack = (id: string, update: (track: PlaylistTrack) => Partial<PlaylistTrack>) => {
+    setPlaylist((prev) => prev.map((track) => (track.id === id ? { ...track, ...update(track) } : track)));
+  };
+
+  // 曲ごとの背景を設定（一番下の画像・動画レイヤーに表示する。ない場合は追加）
+  const loadTrackBackground = (index: number, file: File) => {
+    const trackId = playlist[index]?.id;
+    if (!trackId) {
+      return;
+    }
+    if (!scene.layers.some((layer) => layer.type === "image" || layer.type === "video")) {
+      const layer: SceneLayer = { ...createSceneLayer("image"), name: "背景" };
+      updateScene((prev) => ({ ...prev, layers: [layer, ...prev.layers] }));
+    }
+    loadMediaFile(file, (media, fileName) => {
+      updatePlaylistTrack(trackId, () => ({ background: media, backgroundFileName: fileName }));
+    });
+  };
+
+  const removeTrackBackground = (index: number) => {
+    const trackId = playlist[index]?.id;
+    if (trackId) {
+      updatePlaylistTrack(trackId, () => ({ background: null, backgroundFileName: "" }));
+    }
+  };
+
+  // 画像・動画ファイルを背景の素材として読み込み
+  const loadMediaFile = (file: File, apply: (media: BackgroundMedia, fileName: string) => void) => {
+    // 動画ファイルの場合、動く背景として扱う（再生方法はレイヤーの設定で選択）
+    if (isVideoFile(file.name)) {
+      loadVideoBackground(file, apply);
+      return;
+    }
+    loadImageFile(file, apply);
+  };
+
   // 画像ボタンから読み込み
   const imageLoad = (event: { target: HTMLInputElement }) => {
     const file = event.target.files[0];
     if (!file) {
       return;
     }
-    // MP4ファイルの場合、静止画として扱う（ビデオの最初のフレームを抽出する必要があるが、簡易的に画像として扱う）
-    if (isVideoFile(file.name)) {
-      // MP4を画像として扱う場合、HTMLVideoElementを使用してフレームを抽出
-      const video = document.createElement("video");
-      video.preload = "metadata";
-      video.onloadedmetadata = () => {
-        video.currentTime = 0.1; // 最初のフレームを取得
-      };
-      video.onloadeddata = () => {
-        const canvas = document.createElement("canvas");
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        const ctx = canvas.getContext("2d");
-        if (ctx) {
-          ctx.drawImage(video, 0, 0);
-          const image = new Image();
-          image.onload = () => {
-            if (!canvasRef.current) {
-              return;
-            }
-            setImageCtx(image);
-            setImageFileName(file.name);
-            openSnackBar("動画ファイルから静止画を抽出しました");
-          };
-          image.src = canvas.toDataURL();
-        }
-      };
-      video.src = URL.createObjectURL(file);
-      return;
-    }
-    loadImageFile(file);
+    loadMediaFile(file, toLayer(getImageTargetLayerId()));
   };
 
   // 音楽ボタンから読み込み
   const audioLoad = async (event: { target: HTMLInputElement }) => {
-    const file = event.target.files[0];
+    const files = Array.from(event.target.files);
+    const file = files[0];
     if (!file) {
       return;
     }
-    // MP4ファイルの場合、音声として扱う
+    // MP4ファイルの場合、音声として扱う（プレイリストにはできない）
     if (isVideoFile(file.name)) {
+      stopPlayback();
+      setIsPlaySound(false);
+      pausedTimeRef.current = 0;
+      setPlaylist([]);
+      setChapters([]);
       // MP4の音声トラックを抽出（HTMLVideoElementとMediaElementAudioSourceNodeを使用）
       const video = document.createElement("video");
       video.preload = "auto";
       video.crossOrigin = "anonymous";
       video.src = URL.createObjectURL(file);
       videoElementRef.current = video;
+      // 動画要素から再生する音声はデコード済みバッファを持たないため高速書き出しは使えない
+      decodedAudioBufferRef.current = null;
+      setHasDecodedAudio(false);
       
       video.onloadedmetadata = () => {
         try {
           // MediaElementAudioSourceNodeを使用して音声を取得
           const source = audioCtxRef.current.createMediaElementSource(video);
-          source.connect(analyserRef.current);
-          analyserRef.current.connect(audioCtxRef.current.destination);
-          analyserRef.current.connect(streamDestinationRef.current);
+          fadeGainRef.current?.disconnect();
+          const fadeGain = audioCtxRef.current.createGain();
+          source.connect(fadeGain);
+          fadeGain.connect(analyserGraphRef.current.input);
+          fadeGainRef.current = fadeGain;
+          analyserGraphRef.current.analyser.connect(audioCtxRef.current.destination);
+          analyserGraphRef.current.analyser.connect(streamDestinationRef.current);
           
           // 再生終了時の処理
           video.onended = () => {
+            stopPlayback();
             setIsPlaySound(false);
-            stopCanvas2DAnimation();
-            stopWebGLAnimation();
           };
           
           setPlaySoundDisabled(false);
           setRecordMovieDisabled(false);
           setAudioFileName(file.name);
+          setTrackInfo(createTrackInfo(file, video.duration));
+          setTimeline(createTimeline(video.duration));
+          setWaveformPeaks(null);
           openSnackBar("動画ファイルから音声を読み込みました");
         } catch (error) {
           openSnackBar("動画ファイルの音声読み込みに失敗しました: " + error);
@@ -504,7 +1052,7 @@ const Home: NextPage = () => {
       };
       return;
     }
-    await loadAudioFile(file);
+    await loadAudioFiles(files.filter((current) => !isVideoFile(current.name)));
   };
 
   // ドラッグ&ドロップ処理
@@ -517,30 +1065,54 @@ const Home: NextPage = () => {
     }
 
     let imageFile: File | null = null;
-    let audioFile: File | null = null;
+    const audioFiles: File[] = [];
+    let videoFile: File | null = null;
+    let fontFile: File | null = null;
+    let lyricsFile: File | null = null;
 
     // ファイルを分類
     for (const file of files) {
       if (isImageFile(file.name) && !imageFile) {
         imageFile = file;
-      } else if (isAudioFile(file.name) && !audioFile) {
-        audioFile = file;
+      } else if (isAudioFile(file.name)) {
+        // 複数の音楽ファイルはドロップした順のプレイリストにする
+        audioFiles.push(file);
+      } else if (isFontFile(file.name) && !fontFile) {
+        fontFile = file;
+      } else if (getLyricsFormat(file.name) && !lyricsFile) {
+        lyricsFile = file;
       } else if (isVideoFile(file.name)) {
         // MP4の場合は音楽ファイルとして扱う（デフォルト）
-        if (!audioFile) {
-          audioFile = file;
+        if (!videoFile) {
+          videoFile = file;
         }
       }
     }
 
     // 画像ファイルを読み込み
     if (imageFile) {
-      loadImageFile(imageFile);
+      loadImageFile(imageFile, toLayer(getImageTargetLayerId()));
     }
 
-    // 音楽ファイルを読み込み
-    if (audioFile) {
-      await loadAudioFile(audioFile);
+    // フォントファイルは選択中のテキスト・歌詞レイヤーに設定
+    if (fontFile) {
+      if (selectedLayer?.type === "text" || selectedLayer?.type === "lyrics") {
+        await loadFont(fontFile, selectedLayer);
+      } else {
+        openSnackBar("フォントを設定するテキスト・歌詞レイヤーを選択してください");
+      }
+    }
+
+    // 歌詞ファイルを読み込み
+    if (lyricsFile) {
+      await loadLyricsFile(lyricsFile);
+    }
+
+    // 音楽ファイルを読み込み（音楽ファイルがない場合はMP4の音声）
+    if (audioFiles.length > 0) {
+      await loadAudioFiles(audioFiles);
+    } else if (videoFile) {
+      await loadAudioFiles([videoFile]);
     }
   };
 
@@ -548,31 +1120,103 @@ const Home: NextPage = () => {
     e.preventDefault();
   };
 
-  // PlaySoundEvent
-  const onPlaySound = () => {
-    if (isPlaySound) {
-      if (audioBufferSrcRef.current) {
-        audioBufferSrcRef.current.stop(0);
-      }
-      if (videoElementRef.current) {
-        videoElementRef.current.pause();
-      }
-      stopCanvas2DAnimation();
-      stopWebGLAnimation();
-      setIsPlaySound(false);
-      return;
-    }
+  // 指定した位置（省略時は停止中の再生位置）から再生（範囲の終わりでhandleRegionEndを呼ぶ）
+  // 範囲の外や範囲の終わりの直前からは範囲の開始から再生する
+  const startPlayback = (from: number = getPlaybackTime()) => {
+    const region = frameParamsRef.current.timeline;
     setAudioBufferSourceNode();
-    
+    const now = audioCtxRef.current.currentTime;
+    const start = region && (from < region.start || from > region.end - MIN_TIMELINE_LENGTH) ? region.start : from;
+    if (region && fadeGainRef.current) {
+      scheduleFadeGain(fadeGainRef.current.gain, region, now, start);
+    }
+
     // 動画ファイルの場合は再生開始
     if (videoElementRef.current) {
-      videoElementRef.current.play();
+      const video = videoElementRef.current;
+      video.currentTime = start;
+      video.play();
+      if (region) {
+        regionTimerRef.current = window.setTimeout(handleRegionEnd, ((region.end - start) * 1000) / video.playbackRate);
+      }
     } else if (audioBufferSrcRef.current) {
-      audioBufferSrcRef.current.start(0);
+      const source = audioBufferSrcRef.current;
+      source.onended = handleRegionEnd;
+      if (region) {
+        source.start(0, start, region.end - start);
+      } else {
+        source.start(0);
+      }
+      // 再生位置は曲の先頭からの時刻にする
+      playbackStartRef.current = now - start;
     }
-    
+  };
+
+  // 再生を止める（再生位置はそのまま残し、範囲の終わりの処理は呼ばない）
+  const stopPlayback = () => {
+    if (playbackStartRef.current !== null) {
+      pausedTimeRef.current = getPlaybackTime();
+    }
+    if (regionTimerRef.current !== null) {
+      clearTimeout(regionTimerRef.current);
+      regionTimerRef.current = null;
+    }
+    if (audioBufferSrcRef.current && playbackStartRef.current !== null) {
+      audioBufferSrcRef.current.onended = null;
+      audioBufferSrcRef.current.stop(0);
+    }
+    if (videoElementRef.current) {
+      videoElementRef.current.pause();
+    }
+    playbackStartRef.current = null;
+  };
+
+  // 範囲の終わりに達した時の処理（録画中は録画を終了、繰り返し再生の場合は範囲の開始に戻る）
+  const handleRegionEnd = () => {
+    regionTimerRef.current = null;
+    const stopRecording = recordingStopRef.current;
+    const start = frameParamsRef.current.timeline?.start ?? 0;
+    if (!stopRecording && frameParamsRef.current.timeline?.loop) {
+      stopPlayback();
+      startPlayback(start);
+      return;
+    }
+    stopPlayback();
+    setIsPlaySound(false);
+    setPausedTime(start);
+    if (stopRecording) {
+      recordingStopRef.current = null;
+      stopRecording();
+    }
+  };
+
+  // PlaySoundEvent（再生・一時停止）
+  const onPlaySound = () => {
+    if (isPlaySound) {
+      stopPlayback();
+      setIsPlaySound(false);
+      return;
+    }
+    startPlayback();
     setIsPlaySound(true);
   };
+
+  // 停止して範囲の開始に戻る
+  const onStopSound = () => {
+    stopPlayback();
+    setIsPlaySound(false);
+    setPausedTime(timeline?.start ?? 0);
+  };
+
+  // 再生位置を変更（再生中はその位置から再生し直す）
+  const onSeek = (time: number) => {
+    if (isPlaying()) {
+      stopPlayback();
+      startPlayback(time);
+      return;
+    }
+    setPausedTime(time);
+  };
   // RecordMovieEvent
   const onRecordMovie = () => {
     if (!canvasRef.current) {
@@ -613,42 +1257,82 @@ const Home: NextPage = () => {
         );
         const webmBlob = new Blob(recordedBlobs, { type: "video/webm" });
         const binaryData = new Uint8Array(await webmBlob.arrayBuffer());
-        const video = await generateMp4Video(binaryData, webmName, mp4Name);
+        const video = await generateMp4Video(binaryData, webmName, mp4Name, {
+          title: trackInfo?.title,
+          artist: trackInfo?.artist,
+          album: trackInfo?.album,
+          comment: outputChapters.length > 0 ? formatChapterText(outputChapters) : undefined,
+          chapters: outputChapters,
+        });
         const mp4Blob = new Blob([video], { type: "video/mp4" });
-        const objectURL = URL.createObjectURL(mp4Blob);
-
-        const a = document.createElement("a");
-        a.href = objectURL;
-        a.download = mp4Name;
-        a.click();
-        a.remove();
+        downloadBlob(mp4Blob, getOutputFileName(".mp4"));
         openSnackBar("動画の変換が完了しました！");
         setRecordMovieDisabled(false);
       });
+      // 範囲の終わりで録画を終了する
+      recordingStopRef.current = () => {
+        recorder.stop();
+        setIsRecording(false);
+      };
       recorder.start();
       openSnackBar("動画を録画しています...");
-      onPlaySound();
+      // 再生中の場合は範囲の開始から再生し直す
+      stopPlayback();
+      startPlayback(frameParamsRef.current.timeline?.start ?? 0);
+      setIsPlaySound(true);
       setRecordMovieDisabled(true);
-      
-      // 再生終了時の処理
-      if (videoElementRef.current) {
-        const originalOnEnded = videoElementRef.current.onended;
-        videoElementRef.current.onended = () => {
-          if (originalOnEnded) {
-            originalOnEnded.call(videoElementRef.current);
-          }
-          recorder.stop();
-          setIsRecording(false);
-        };
-      } else if (audioBufferSrcRef.current) {
-        audioBufferSrcRef.current.onended = () => {
-          recorder.stop();
-          setIsRecording(false);
-        };
-      }
     }, 100); // 100ms待機して録画用canvasのアニメーション開始を保証
   };
 
+  // 高速書き出し（AudioBufferを1フレームずつ解析・描画してWebCodecsでエンコード）
+  const onExportOffline = async () => {
+    if (!decodedAudioBufferRef.current) {
+      openSnackBar("音楽ファイルが読み込まれていません");
+      return;
+    }
+
+    setIsExporting(true);
+    setExportProgress(0);
+    openSnackBar("動画を書き出しています...");
+    try {
+      const dimensions = getCanvasDimensions(canvasSize);
+      const mp4Blob = await renderOffline({
+        audioBuffer: decodedAudioBufferRef.current,
+        scene,
+        media: sceneMedia,
+        track: trackInfo,
+        lyrics: lyrics?.cues,
+        timeline,
+        chapters,
+        width: dimensions.width,
+        height: dimensions.height,
+        frameRate: 30,
+        bitrate: 8000000,
+        rendererType,
+        onProgress: (progress) => {
+          setExportProgress(Math.round(progress));
+        },
+      });
+      downloadBlob(mp4Blob, getOutputFileName(".mp4"));
+      openSnackBar("動画の書き出しが完了しました！");
+    } catch (error) {
+      console.error("高速書き出しに失敗しました:", error);
+      openSnackBar("動画の書き出しに失敗しました: " + error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Blobをファイルとしてダウンロード
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const objectURL = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = objectURL;
+    a.download = fileName;
+    a.click();
+    a.remove();
+  };
+
   // SnackBar
   const [snackBarProps, setSnackBarProps] = useState({
     isOpen: false,
@@ -715,7 +1399,7 @@ const Home: NextPage = () => {
                   textAlign: "left"
                 }}
               >
-                {imageFileName || "未選択"}
+                {(imageTargetLayer && mediaFileNames[imageTargetLayer.id]) || "未選択"}
               </Typography>
             </Box>
             <Box sx={{ display: "flex", gap: 2, alignItems: "center", justifyContent: "center", width: "100%" }}>
@@ -730,6 +1414,7 @@ const Home: NextPage = () => {
                 <input
                   type="file"
                   accept="audio/*,video/*"
+                  multiple
                   onChange={audioLoad}
                   hidden
                 />
@@ -750,9 +1435,69 @@ const Home: NextPage = () => {
                 {audioFileName || "未選択"}
               </Typography>
             </Box>
+            {trackInfo && (
+              <Box sx={{ display: "flex", gap: 2, width: "100%" }}>
+                <TextField
+                  size="small"
+                  label="曲名"
+                  value={trackInfo.title}
+                  onChange={(e) => handleTrackInfoChange({ title: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  label="アーティスト"
+                  value={trackInfo.artist}
+                  onChange={(e) => handleTrackInfoChange({ artist: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  size="small"
+                  label="アルバム"
+                  value={trackInfo.album}
+                  onChange={(e) => handleTrackInfoChange({ album: e.target.value })}
+                  sx={{ flex: 1 }}
+                />
+              </Box>
+            )}
+            {playlist.length > 0 && (
+              <PlaylistControls
+                tracks={playlist}
+                chapters={chapters}
+                settings={playlistSettings}
+                onChange={handlePlaylistChange}
+                onSettingsChange={setPlaylistSettings}
+                onInfoChange={(index, changes) =>
+                  updatePlaylistTrack(playlist[index].id, (track) => ({ info: { ...track.info, ...changes } }))
+                }
+                onBackgroundSelect={loadTrackBackground}
+                onBackgroundRemove={removeTrackBackground}
+                onAddFiles={(files) => loadAudioFiles(files, true)}
+              />
+            )}
+            {timeline && trackInfo && (
+              <TimelineControls
+                timeline={timeline}
+                duration={trackInfo.duration}
+                peaks={waveformPeaks}
+                onChange={setTimeline}
+                isPlaying={isPlaySound}
+                transportDisabled={isRecording}
+                getPosition={getPlaybackTime}
+                onPlayPause={onPlaySound}
+                onStop={onStopSound}
+                onSeek={onSeek}
+              />
+            )}
+            {outputChapters.length > 0 && (
+              <ChapterTextBlock
+                chapters={outputChapters}
+                onCopied={() => openSnackBar("チャプターをコピーしました")}
+              />
+            )}
           </Box>
           <Typography variant="caption" color="textSecondary" sx={{ mt: 2, display: "block" }}>
-            画像ファイルと音楽ファイルを自動判定します。MP4は音楽ファイルとして扱われます。
+            画像ファイル・音楽ファイル・フォントファイル・歌詞ファイル（LRC・SRT・WebVTT）を自動判定します。MP4は音楽ファイルとして扱われます。
           </Typography>
         </div>
 
@@ -763,19 +1508,11 @@ const Home: NextPage = () => {
                 スペクトラムアナライザー
               </Typography>
               <Box sx={{ display: "flex", gap: 1, justifyContent: "center", flexWrap: "wrap" }}>
-                {[
-                  { value: 0, label: "周波数バー" },
-                  { value: 1, label: "折れ線" },
-                  { value: 2, label: "円形" },
-                  { value: 3, label: "上下対称バー" },
-                  { value: 4, label: "ドット表示" },
-                  { value: 5, label: "波形（上下対称）" },
-                  { value: 6, label: "3D風バー" },
-                ].map((item) => (
+                {getVisualizerModes().map((item) => (
                   <Button
-                    key={item.value}
-                    variant={mode === item.value ? "contained" : "outlined"}
-                    onClick={() => onChangeMode({ target: { value: item.value.toString() } } as SelectChangeEvent<string>)}
+                    key={item.id}
+                    variant={modeTargetLayer?.mode === item.id ? "contained" : "outlined"}
+                    onClick={() => onChangeMode(item.id)}
                     size="small"
                   >
                     {item.label}
@@ -821,17 +1558,28 @@ const Home: NextPage = () => {
                 onClick={onPlaySound}
                 size="medium"
               >
-                {isPlaySound ? "ストップ" : "プレビュー"}
+                {isPlaySound ? "一時停止" : "プレビュー"}
               </Button>
               <Button
                 variant="outlined"
                 startIcon={<FiberManualRecord />}
-                disabled={recordMovieDisabled || isPlaySound}
+                disabled={recordMovieDisabled || isPlaySound || isExporting}
                 onClick={onRecordMovie}
                 size="medium"
               >
                 動画を生成
               </Button>
+              {webCodecsSupported && (
+                <Button
+                  variant="outlined"
+                  startIcon={<Speed />}
+                  disabled={!hasDecodedAudio || isPlaySound || isRecording || isExporting}
+                  onClick={onExportOffline}
+                  size="medium"
+                >
+                  {isExporting ? `書き出し中 ${exportProgress}%` : "高速書き出し"}
+                </Button>
+              )}
             </Box>
           </div>
         </div>
@@ -842,6 +1590,9 @@ const Home: NextPage = () => {
               <Typography variant="body2" color="textSecondary">
                 FPS: <strong style={{ color: fps >= 55 ? '#4caf50' : fps >= 30 ? '#ff9800' : '#f44336' }}>{fps}</strong>
               </Typography>
+              <Typography variant="body2" color="textSecondary">
+                テンポ: <strong>{tempo ?? "-"}</strong> BPM
+              </Typography>
             </Box>
           </div>
         )}
@@ -849,87 +1600,57 @@ const Home: NextPage = () => {
         <div className={styles.adjustments}>
           <Accordion>
             <AccordionSummary expandIcon={<ExpandMore />}>
-              <Typography>表示調整</Typography>
+              <Typography>レイヤー・表示調整</Typography>
             </AccordionSummary>
             <AccordionDetails>
               <Box sx={{ width: "100%", maxWidth: 600, margin: "0 auto" }}>
-                <Typography gutterBottom>横幅倍率: {modeAdjustments.scaleX.toFixed(2)}</Typography>
-                <Slider
-                  value={modeAdjustments.scaleX}
-                  onChange={(_, value) =>
-                    handleAdjustmentChange("scaleX", value as number)
-                  }
-                  min={0.1}
-                  max={3.0}
-                  step={0.1}
-                  marks={[
-                    { value: 0.5, label: "0.5" },
-                    { value: 1.0, label: "1.0" },
-                    { value: 2.0, label: "2.0" },
-                  ]}
+                <Typography>レイヤー（上にあるものほど手前に表示）</Typography>
+                <SceneLayerList
+                  layers={scene.layers}
+                  selectedId={selectedLayerId}
+                  onSelect={setSelectedLayerId}
+                  onChange={handleLayersChange}
                 />
-                <Typography gutterBottom sx={{ mt: 3 }}>
-                  縦幅倍率: {modeAdjustments.scaleY.toFixed(2)}
-                </Typography>
-                <Slider
-                  value={modeAdjustments.scaleY}
-                  onChange={(_, value) =>
-                    handleAdjustmentChange("scaleY", value as number)
-                  }
-                  min={0.1}
-                  max={3.0}
-                  step={0.1}
-                  marks={[
-                    { value: 0.5, label: "0.5" },
-                    { value: 1.0, label: "1.0" },
-                    { value: 2.0, label: "2.0" },
-                  ]}
+                {selectedLayer && (
+                  <>
+                    <Divider sx={{ mt: 3 }} />
+                    <Typography sx={{ mt: 2 }}>「{selectedLayer.name}」の設定</Typography>
+                    <SceneLayerEditor
+                      key={selectedLayer.id}
+                      layer={selectedLayer}
+                      canvasWidth={getCanvasDimensions(canvasSize).width}
+                      canvasHeight={getCanvasDimensions(canvasSize).height}
+                      fileName={mediaFileNames[selectedLayer.id]}
+                      onChange={handleLayerChange}
+                      onFileSelect={(layer, file) => loadMediaFile(file, toLayer(layer.id))}
+                      lyricsFileName={lyrics?.fileName}
+                      onFontSelect={(layer, file) => loadFont(file, layer)}
+                      onLyricsSelect={loadLyricsFile}
+                    />
+                  </>
+                )}
+                <Divider sx={{ mt: 3 }} />
+                <Typography sx={{ mt: 2 }}>シーン</Typography>
+                <ModeParamControls
+                  schema={SCENE_PARAMS}
+                  values={{ backgroundColor: scene.backgroundColor }}
+                  onChange={handleSceneParamChange}
                 />
-                <Typography gutterBottom sx={{ mt: 3 }}>
-                  横位置: {modeAdjustments.offsetX.toFixed(1)}% (実際:{" "}
-                  {Math.round(
-                    (getCanvasDimensions(canvasSize).width *
-                      modeAdjustments.offsetX) /
-                      100
-                  )}
-                  px)
+                <Divider sx={{ mt: 3 }} />
+                <Typography sx={{ mt: 2 }}>
+                  ビート反応（推定テンポ: {tempo ?? "-"} BPM）
                 </Typography>
-                <Slider
-                  value={modeAdjustments.offsetX}
-                  onChange={(_, value) =>
-                    handleAdjustmentChange("offsetX", value as number)
-                  }
-                  min={-150}
-                  max={150}
-                  step={1}
-                  marks={[
-                    { value: -150, label: "-150%" },
-                    { value: 0, label: "0%" },
-                    { value: 150, label: "150%" },
-                  ]}
+                <ModeParamControls
+                  schema={BEAT_REACTION_PARAMS}
+                  values={{ ...DEFAULT_BEAT_REACTIONS, ...scene.beat }}
+                  onChange={handleBeatChange}
                 />
-                <Typography gutterBottom sx={{ mt: 3 }}>
-                  縦位置: {modeAdjustments.offsetY.toFixed(1)}% (実際:{" "}
-                  {Math.round(
-                    (getCanvasDimensions(canvasSize).height *
-                      modeAdjustments.offsetY) /
-                      100
-                  )}
-                  px)
-                </Typography>
-                <Slider
-                  value={modeAdjustments.offsetY}
-                  onChange={(_, value) =>
-                    handleAdjustmentChange("offsetY", value as number)
-                  }
-                  min={-150}
-                  max={150}
-                  step={1}
-                  marks={[
-                    { value: -150, label: "-150%" },
-                    { value: 0, label: "0%" },
-                    { value: 150, label: "150%" },
-                  ]}
+                <Divider sx={{ mt: 3 }} />
+                <Typography sx={{ mt: 2 }}>ポストエフェクト</Typography>
+                <PostEffectControls
+                  effects={scene.postEffects ?? []}
+                  onChange={handlePostEffectsChange}
+                  disabled={rendererType !== "webgl"}
                 />
               </Box>
             </AccordionDetails>
@@ -966,10 +1687,10 @@ const Home: NextPage = () => {
           <AccordionDetails>
             <Box sx={{ width: "100%", maxWidth: 600, margin: "0 auto" }}>
               <Typography variant="body2" gutterBottom>
-                現在の設定: モード{mode} × {canvasSize}
+                現在の設定: {canvasSize}
               </Typography>
               <Typography variant="caption" color="textSecondary" display="block" sx={{ mb: 2 }}>
-                設定は自動保存されます。モードや解像度を変更すると、対応する設定が自動的に読み込まれます。
+                シーン（レイヤー構成と表示調整）は解像度ごとに自動保存されます。解像度を変更すると、対応する設定が自動的に読み込まれます。
               </Typography>
               <Divider sx={{ my: 2 }} />
               <Typography variant="subtitle2" gutterBottom>
@@ -996,9 +1717,9 @@ const Home: NextPage = () => {
                     navigator.clipboard.readText().then((text) => {
                       if (importAllSettings(text)) {
                         // 現在の設定を再読み込み
-                        const loaded = loadSettings(mode, canvasSize);
+                        const loaded = loadSettings(canvasSize);
                         if (loaded) {
-                          setModeAdjustments(loaded);
+                          setScene(loaded);
                         }
                         openSnackBar("設定をインポートしました");
                       } else {
@@ -1017,14 +1738,14 @@ const Home: NextPage = () => {
                 label="設定JSON（貼り付け用）"
                 variant="outlined"
                 size="small"
-                placeholder='{"spectrumSettings_0_1920x1080": {...}}'
+                placeholder='{"sceneSettings_1920x1080": {...}}'
                 onChange={(e) => {
                   try {
                     const parsed = JSON.parse(e.target.value);
                     if (importAllSettings(e.target.value)) {
-                      const loaded = loadSettings(mode, canvasSize);
+                      const loaded = loadSettings(canvasSize);
                       if (loaded) {
-                        setModeAdjustments(loaded);
+                        setScene(loaded);
                       }
                       openSnackBar("設定を適用しました");
                     }
@@ -1040,11 +1761,12 @@ const Home: NextPage = () => {
                   color="error"
                   onClick={() => {
                     if (confirm("すべての保存された設定を削除しますか？")) {
-                      const modes = [0, 1, 2, 3, 4, 5, 6];
-                      const sizes: CanvasSize[] = ["1920x1080", "1080x1920", "1920x1920"];
-                      modes.forEach((m) => {
-                        sizes.forEach((s) => {
-                          localStorage.removeItem(getSettingsKey(m, s));
+                      const modes = getVisualizerModes().map((m) => m.id);
+                      canvasSizes.forEach((s) => {
+                        localStorage.removeItem(getSettingsKey(s));
+                        // 以前の形式の設定も削除
+                        modes.forEach((m) => {
+                          localStorage.removeItem(getLegacySettingsKey(m, s));
                         });
                       });
                       openSnackBar("すべての設定を削除しました");
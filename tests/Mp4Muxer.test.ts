@@ -0,0 +1,135 @@
+/**
+ * Mp4Muxerの回帰テスト（npm testで実行、失敗した場合は例外で終了する）
+ */
+
+import assert from 'assert/strict';
+import { Mp4Muxer } from '../lib/Mp4Muxer';
+
+// WebCodecsのEncodedVideoChunk・EncodedAudioChunkの代わり（Mp4Muxerが読む項目だけを持つ、1バイトのチャンク）
+type ChunkFields = 'type' | 'timestamp' | 'duration' | 'byteLength' | 'copyTo';
+
+function createVideoChunk(timestamp: number, duration: number, key: boolean): EncodedVideoChunk {
+  const chunk: Pick<EncodedVideoChunk, ChunkFields> = {
+    type: key ? 'key' : 'delta',
+    timestamp,
+    duration,
+    byteLength: 1,
+    copyTo: () => undefined,
+  };
+  return chunk as EncodedVideoChunk;
+}
+
+function createAudioChunk(timestamp: number, duration: number): EncodedAudioChunk {
+  const chunk: Pick<EncodedAudioChunk, ChunkFields> = {
+    type: 'key',
+    timestamp,
+    duration,
+    byteLength: 1,
+    copyTo: () => undefined,
+  };
+  return chunk as EncodedAudioChunk;
+}
+
+/**
+ * 最初に現れる種類typeのボックスの大きさ（種類の前の32ビット値）
+ */
+function readBoxSize(bytes: Uint8Array, type: string): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const code = Array.from(type).map((c) => c.charCodeAt(0));
+  for (let i = 4; i + 4 <= bytes.length; i++) {
+    if (code.every((value, offset) => bytes[i + offset] === value)) {
+      return view.getUint32(i - 4);
+    }
+  }
+  throw new Error(`${type} not found`);
+}
+
+/**
+ * from以降で最初に現れる種類typeのフルボックスのversion・flagsの後のi番目の32ビット値
+ * 戻り値のnextは次の検索の開始位置
+ */
+function readFullBoxU32(bytes: Uint8Array, type: string, index: number, from = 0): { value: number; next: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const code = Array.from(type).map((c) => c.charCodeAt(0));
+  for (let i = Math.max(from, 4); i + 8 <= bytes.length; i++) {
+    if (code.every((value, offset) => bytes[i + offset] === value)) {
+      return { value: view.getUint32(i + 8 + index * 4), next: i + 4 };
+    }
+  }
+  throw new Error(`${type} not found`);
+}
+
+// 長い動画（約20万サンプル）を呼び出しスタックを超えずに書き出せる
+async function testLongMux(): Promise<void> {
+  const frameRate = 30;
+  const sampleRate = 48000;
+  const keyFrameInterval = 60;
+  const videoCount = 81000; // 45分
+  const audioCount = 120000; // AACの1024サンプル単位で約43分
+  const muxer = new Mp4Muxer({ video: { width: 16, height: 16 }, audio: { sampleRate, numberOfChannels: 2 } });
+
+  const frameDuration = 1e6 / frameRate;
+  for (let i = 0; i < videoCount; i++) {
+    muxer.addVideoChunk(
+      createVideoChunk(i * frameDuration, frameDuration, i % keyFrameInterval === 0),
+      i === 0 ? { decoderConfig: { codec: 'avc1.42001f', description: new Uint8Array([1, 0x42, 0, 0x1f]) } } : undefined
+    );
+  }
+  const audioDuration = (1024 * 1e6) / sampleRate;
+  for (let i = 0; i < audioCount; i++) {
+    muxer.addAudioChunk(
+      createAudioChunk(i * audioDuration, audioDuration),
+      i === 0 ? { decoderConfig: { codec: 'mp4a.40.2', sampleRate, numberOfChannels: 2 } } : undefined
+    );
+  }
+
+  const bytes = new Uint8Array(await muxer.finalize().arrayBuffer());
+  // stsz: sample_size, sample_count, 各サンプルの大きさ（映像トラック、音声トラックの順）
+  const videoStsz = readFullBoxU32(bytes, 'stsz', 1);
+  assert.equal(videoStsz.value, videoCount);
+  assert.equal(readFullBoxU32(bytes, 'stsz', 2 + videoCount - 1).value, 1);
+  assert.equal(readFullBoxU32(bytes, 'stsz', 1, videoStsz.next).value, audioCount);
+  // stco: 数と、1サンプル = 1チャンクのオフセット
+  assert.equal(readFullBoxU32(bytes, 'stco', 0).value, videoCount);
+  // stss: キーフレームの数と最後のキーフレームの番号
+  const keyFrameCount = videoCount / keyFrameInterval;
+  assert.equal(readFullBoxU32(bytes, 'stss', 0).value, keyFrameCount);
+  assert.equal(readFullBoxU32(bytes, 'stss', keyFrameCount).value, videoCount - keyFrameInterval + 1);
+  // mdatにすべてのサンプル（1バイトずつ）が入る
+  assert.equal(readBoxSize(bytes, 'mdat'), 8 + videoCount + audioCount);
+}
+
+/**
+ * 音声のサンプルエントリー（mp4a・Opus）のsamplerate（16.16固定小数点の整数部）
+ */
+async function muxAudioSampleEntryRate(codec: string, sampleRate: number): Promise<number> {
+  const muxer = new Mp4Muxer({ video: { width: 16, height: 16 }, audio: { sampleRate, numberOfChannels: 2 } });
+  muxer.addVideoChunk(createVideoChunk(0, 33333, true), {
+    decoderConfig: { codec: 'avc1.42001f', description: new Uint8Array([1, 0x42, 0, 0x1f]) },
+  });
+  muxer.addAudioChunk(createAudioChunk(0, 20000), { decoderConfig: { codec, sampleRate, numberOfChannels: 2 } });
+  const bytes = new Uint8Array(await muxer.finalize().arrayBuffer());
+  const type = codec === 'opus' ? 'Opus' : 'mp4a';
+  const code = Array.from(type).map((c) => c.charCodeAt(0));
+  for (let i = 4; i + 32 <= bytes.length; i++) {
+    if (code.every((value, offset) => bytes[i + offset] === value)) {
+      // 種類の後: reserved(6) data_reference_index(2) reserved(8) channelcount(2) samplesize(2) pre_defined(2) reserved(2)
+      return new DataView(bytes.buffer).getUint16(i + 4 + 24);
+    }
+  }
+  throw new Error(`${type} not found`);
+}
+
+// 16.16に収まらないサンプリングレートは0（esdsで伝える）、Opusは常に48000
+async function testAudioSampleRate(): Promise<void> {
+  assert.equal(await muxAudioSampleEntryRate('mp4a.40.2', 48000), 48000);
+  assert.equal(await muxAudioSampleEntryRate('mp4a.40.2', 96000), 0);
+  assert.equal(await muxAudioSampleEntryRate('opus', 44100), 48000);
+}
+
+testLongMux().then(testAudioSampleRate).then(() => {
+  console.log('ok - Mp4Muxer');
+}, (error) => {
+  console.error(error);
+  process.exitCode = 1;
+});